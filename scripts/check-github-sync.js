@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+/**
+ * Runs GitHubIssueSync from out/ against scripts/fake-github-mcp-server.js:
+ * creating the GitHub issue, a sync with nothing to do, pulling remote
+ * edits and comments, a conflict, and an issue missing on GitHub.
+ *
+ *   npm run check:github-sync
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const vscode = require('./vscode-shim').install();
+const { check, run } = require('./check-runner');
+
+const { McpStdioClient } = require('../out/mcp/mcpClient');
+const { GitHubIssueSync } = require('../out/mcp/githubSync');
+const { createTodo } = require('../out/storage/todos');
+
+const temp = fs.mkdtempSync(path.join(os.tmpdir(), 'mira-github-sync-'));
+const nysFolder = path.join(temp, '.nys');
+const client = new McpStdioClient('github', {
+  command: process.execPath,
+  args: [path.join(__dirname, 'fake-github-mcp-server.js')],
+  env: { FAKE_GITHUB_STATE: path.join(temp, 'github.json') }
+});
+const sync = new GitHubIssueSync(client, vscode.Uri.file(nysFolder));
+const remote = { owner: 'acme', repo: 'app' };
+
+const conflicts = [];
+let conflictChoice = 'remote';
+const resolve = async (_issue, field) => {
+  conflicts.push(field);
+  return conflictChoice;
+};
+
+function newIssue(id, title) {
+  const now = new Date();
+  return {
+    id,
+    title,
+    description: 'Signing in with SSO fails',
+    mode: 'debug',
+    status: 'open',
+    todos: [createTodo('Reproduce'), createTodo('Fix')],
+    labels: ['bug'],
+    blocks: [],
+    blockedBy: [],
+    relatesTo: [],
+    customFields: {},
+    createdAt: now,
+    updatedAt: now,
+    filePath: path.join(nysFolder, `${id}.md`)
+  };
+}
+
+const issue = newIssue('issue-1', 'Login bug');
+
+check('creates and links the GitHub issue', async () => {
+  const result = await sync.sync(issue, 'acme/app', resolve);
+  assert.strictEqual(result.created, true);
+  assert.strictEqual(issue.github.number, 1);
+  const created = await client.callToolJson('get_issue', { ...remote, issue_number: 1 });
+  assert.strictEqual(created.title, 'Login bug');
+  assert.match(created.body, /- \[ \] Reproduce/);
+});
+
+check('reports nothing when both sides are unchanged', async () => {
+  const result = await sync.sync(issue, 'acme/app', resolve);
+  assert.deepStrictEqual([result.created, result.pushed, result.pulled, result.newComments], [false, [], [], 0]);
+});
+
+check('pushes local edits and pulls remote ones with new comments', async () => {
+  await client.callToolJson('add_issue_comment', { ...remote, issue_number: 1, body: 'Seen on prod' });
+  const current = await client.callToolJson('get_issue', { ...remote, issue_number: 1 });
+  await client.callToolJson('update_issue', { ...remote, issue_number: 1, state: 'closed', body: current.body.replace('- [ ] Reproduce', '- [x] Reproduce') });
+  issue.title = 'Login bug (SSO)';
+
+  const result = await sync.sync(issue, 'acme/app', resolve);
+  assert.deepStrictEqual(result.pushed, ['title']);
+  assert.deepStrictEqual(result.pulled.sort(), ['body', 'state']);
+  assert.strictEqual(result.newComments, 1);
+  assert.strictEqual(issue.status, 'completed');
+  assert.deepStrictEqual(issue.todos.map(todo => todo.completed), [true, false]);
+  assert.strictEqual((await client.callToolJson('get_issue', { ...remote, issue_number: 1 })).title, 'Login bug (SSO)');
+  assert.match(fs.readFileSync(path.join(nysFolder, 'issue-1', 'github-comments.md'), 'utf8'), /Seen on prod/);
+});
+
+check('hands fields changed on both sides to the resolver', async () => {
+  issue.title = 'Local title';
+  await client.callToolJson('update_issue', { ...remote, issue_number: 1, title: 'Remote title' });
+
+  conflictChoice = 'skip';
+  let result = await sync.sync(issue, 'acme/app', resolve);
+  assert.deepStrictEqual(result.skipped, ['title']);
+  assert.strictEqual(issue.title, 'Local title');
+
+  // A skipped conflict comes up again
+  conflictChoice = 'remote';
+  result = await sync.sync(issue, 'acme/app', resolve);
+  assert.deepStrictEqual(result.pulled, ['title']);
+  assert.strictEqual(issue.title, 'Remote title');
+  assert.deepStrictEqual(conflicts, ['title', 'title']);
+});
+
+check('fails for an issue that is missing on GitHub', async () => {
+  const orphan = newIssue('issue-2', 'Orphan');
+  orphan.github = { repository: 'acme/app', number: 99, syncedAt: new Date().toISOString() };
+  await assert.rejects(sync.sync(orphan, 'acme/app', resolve), /404 Not Found/);
+});
+
+run(() => {
+  client.dispose();
+  fs.rmSync(temp, { recursive: true, force: true });
+});
@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+/**
+ * Runs the OpenAI and Anthropic providers from out/ against
+ * scripts/fake-model-server.js: plain and streamed completions, usage,
+ * errors mapped to AIRequestError kinds, retries, timeouts and aborts.
+ *
+ *   npm run check:providers
+ */
+
+const assert = require('assert');
+
+const { check, run } = require('./check-runner');
+const { startFakeModelServer } = require('./fake-model-server');
+
+const { OpenAIProvider } = require('../out/modelProviders/openAiProvider');
+const { AnthropicProvider } = require('../out/modelProviders/anthropicProvider');
+const { ConcurrencyLimiter, RetryingModelProvider, toRequestError } = require('../out/modelProviders/requestPolicy');
+
+const API_KEY = 'fake-key';
+let server;
+
+const providers = {
+  openai: () => new OpenAIProvider({ provider: 'openai-compatible', model: 'fake-gpt', baseUrl: `${server.url}/v1` }, API_KEY),
+  anthropic: () => new AnthropicProvider({ provider: 'anthropic', model: 'fake-claude', baseUrl: server.url }, API_KEY)
+};
+
+function messages(text) {
+  return [
+    { role: 'system', content: 'You are a test.' },
+    { role: 'user', content: text }
+  ];
+}
+
+function withPolicy(provider, policy = {}) {
+  return new RetryingModelProvider(provider, { maxRetries: 2, timeoutMs: 5000, maxConcurrent: 2, ...policy }, new ConcurrencyLimiter(2));
+}
+
+// The provider error as the workflow sees it
+async function failure(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return toRequestError(error);
+  }
+  assert.fail('expected the request to fail');
+}
+
+for (const [name, create] of Object.entries(providers)) {
+  check(`${name}: completes a request`, async () => {
+    const result = await create().complete({ messages: messages('Say hello') });
+    assert.strictEqual(result.content, 'Fake reply to: Say hello');
+    assert.ok(result.usage && result.usage.inputTokens > 0 && result.usage.outputTokens > 0, 'usage is reported');
+  });
+
+  check(`${name}: streams tokens`, async () => {
+    const tokens = [];
+    const result = await create().complete({ messages: messages('Stream a reply'), onToken: delta => tokens.push(delta) });
+    assert.ok(tokens.length > 1, `expected several deltas, got ${tokens.length}`);
+    assert.strictEqual(tokens.join(''), 'Fake reply to: Stream a reply');
+    assert.strictEqual(result.content, tokens.join(''));
+  });
+
+  check(`${name}: reports a wrong key as an auth error`, async () => {
+    const provider = name === 'openai'
+      ? new OpenAIProvider({ provider: 'openai-compatible', model: 'fake-gpt', baseUrl: `${server.url}/v1` }, 'wrong')
+      : new AnthropicProvider({ provider: 'anthropic', model: 'fake-claude', baseUrl: server.url }, 'wrong');
+    const error = await failure(withPolicy(provider).complete({ messages: messages('Hello') }));
+    assert.strictEqual(error.kind, 'auth');
+    assert.strictEqual(error.attempts, 1);
+  });
+
+  check(`${name}: retries a rate limit`, async () => {
+    const retries = [];
+    const result = await withPolicy(create()).complete({ messages: messages('[fake:flaky] Try twice'), onRetry: retry => retries.push(retry) });
+    assert.strictEqual(result.content, 'Fake reply to: Try twice');
+    assert.strictEqual(retries.length, 1);
+  });
+
+  check(`${name}: gives up on a server error after the retries`, async () => {
+    const error = await failure(withPolicy(create(), { maxRetries: 1 }).complete({ messages: messages('[fake:status=500] Fail') }));
+    assert.strictEqual(error.kind, 'server');
+    assert.strictEqual(error.status, 500);
+    assert.strictEqual(error.attempts, 2);
+  });
+
+  check(`${name}: times out a slow response`, async () => {
+    const error = await failure(withPolicy(create(), { maxRetries: 0, timeoutMs: 200 }).complete({ messages: messages('[fake:slow] Wait') }));
+    assert.strictEqual(error.kind, 'timeout');
+  });
+
+  check(`${name}: stops when aborted`, async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const started = Date.now();
+    await assert.rejects(create().complete({ messages: messages('[fake:slow] Wait'), signal: controller.signal }));
+    assert.ok(Date.now() - started < 1500, 'the request ended before the slow reply');
+  });
+}
+
+check('anthropic: sends the system prompt apart and a repair as alternating turns', async () => {
+  const before = server.requests.length;
+  await providers.anthropic().complete({
+    messages: [
+      { role: 'system', content: 'Answer in JSON.' },
+      { role: 'user', content: 'Write the requirements' },
+      { role: 'assistant', content: '{"broken": ' },
+      { role: 'user', content: 'Your response does not match the schema' }
+    ]
+  });
+  const { body } = server.requests[before];
+  assert.strictEqual(body.system, 'Answer in JSON.');
+  assert.deepStrictEqual(body.messages.map(message => message.role), ['user', 'assistant', 'user']);
+  assert.strictEqual(body.messages[0].content, 'Write the requirements');
+});
+
+check('anthropic: reports an error event in the stream', async () => {
+  const error = await failure(providers.anthropic().complete({ messages: messages('[fake:stream-error] Break off midway'), onToken: () => undefined }));
+  assert.strictEqual(error.kind, 'server');
+});
+
+startFakeModelServer({ apiKey: API_KEY, slowMs: 3000 }).then(started => {
+  server = started;
+  return run(() => server.close());
+});
@@ -0,0 +1,35 @@
+/**
+ * The few lines of test harness the offline checks share: register checks
+ * with `check`, then `run` them in order and exit non-zero if any failed.
+ */
+
+const checks = [];
+
+function check(name, run) {
+  checks.push({ name, run });
+}
+
+async function run(cleanup) {
+  let failed = 0;
+  // The extension code logs every step; only the results are of interest here
+  const log = console.log;
+  console.log = () => undefined;
+  try {
+    for (const { name, run: body } of checks) {
+      try {
+        await body();
+        log(`ok - ${name}`);
+      } catch (error) {
+        failed++;
+        log(`not ok - ${name}\n${error && error.stack || error}`);
+      }
+    }
+  } finally {
+    if (cleanup) await cleanup();
+    console.log = log;
+  }
+  log(`${checks.length - failed} passed, ${failed} failed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+module.exports = { check, run };
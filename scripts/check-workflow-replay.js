@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/**
+ * Runs GraphOrchestrationTester.testFullGraph from out/ (one issue through
+ * design, build and debug) against the model calls recorded in
+ * scripts/fixtures/full-graph/cassettes, offline and without API keys:
+ *
+ *   npm run check:workflow
+ *
+ * The run fails on any request without a recording, so a prompt change
+ * needs new cassettes. Record them with the model in
+ * scripts/fixtures/full-graph/config.json (the built-in mock unless you
+ * point it at a real one; its key comes from the environment):
+ *
+ *   npm run compile && node scripts/check-workflow-replay.js --record
+ */
+
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const record = process.argv.includes('--record');
+const fixtures = path.join(__dirname, 'fixtures', 'full-graph');
+const recorded = path.join(fixtures, 'cassettes');
+
+// .nys/ is ignored by git, so the workspace is put together in a temp folder
+const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'mira-full-graph-'));
+const cassettes = path.join(workspace, '.nys', 'cassettes');
+fs.mkdirSync(cassettes, { recursive: true });
+fs.copyFileSync(path.join(fixtures, 'config.json'), path.join(workspace, '.nys', 'config.json'));
+if (!record) {
+  fs.cpSync(recorded, cassettes, { recursive: true });
+}
+process.env.MIRA_CASSETTES = record ? 'record' : 'replay';
+
+const vscode = require('./vscode-shim').install({ workspaceFolder: workspace });
+const { check, run } = require('./check-runner');
+
+const { GraphOrchestrationTester } = require('../out/orchestratoreEngine/testGraphOrchestration');
+
+// Recordings the run read, to find ones no request matches any more
+const replayed = new Set();
+const readFile = vscode.workspace.fs.readFile;
+vscode.workspace.fs.readFile = uri => {
+  if (path.dirname(uri.fsPath) === cassettes) replayed.add(path.basename(uri.fsPath));
+  return readFile(uri);
+};
+
+check(`${record ? 'records' : 'replays'} an issue through design, build and debug`, async () => {
+  const tester = new GraphOrchestrationTester(vscode.Uri.file(workspace));
+  assert.strictEqual(await tester.testFullGraph(), true, 'testFullGraph failed; see the errors above');
+  assert.deepStrictEqual(vscode.__messages.filter(message => message.level === 'error'), []);
+
+  if (record) {
+    fs.rmSync(recorded, { recursive: true, force: true });
+    fs.cpSync(cassettes, recorded, { recursive: true });
+    process.stderr.write(`Recorded ${fs.readdirSync(recorded).length} model calls to ${path.relative(process.cwd(), recorded)}\n`);
+  }
+});
+
+if (!record) {
+  check('uses every recording', () => {
+    assert.deepStrictEqual(fs.readdirSync(recorded).filter(name => !replayed.has(name)), []);
+  });
+}
+
+run(() => fs.rmSync(workspace, { recursive: true, force: true }));
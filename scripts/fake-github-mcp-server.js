@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+/**
+ * Fake GitHub MCP server for testing the issue sync offline.
+ *
+ * Speaks the same newline-delimited JSON-RPC stdio protocol as
+ * ghcr.io/github/github-mcp-server and implements the issue tools Mira uses
+ * (create_issue, update_issue, get_issue, get_issue_comments, plus
+ * add_issue_comment and list_issues for setting up scenarios). Issues are
+ * kept in a JSON file so a test can edit the "remote" side between syncs:
+ *
+ *   FAKE_GITHUB_STATE=/tmp/fake-github.json node scripts/fake-github-mcp-server.js
+ *
+ * Point Mira at it in .nys/config.json:
+ *
+ *   { "mcpServers": { "github": { "command": "node", "args": ["scripts/fake-github-mcp-server.js"] } } }
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const readline = require('readline');
+
+const statePath = process.env.FAKE_GITHUB_STATE || path.join(os.tmpdir(), 'fake-github-mcp-state.json');
+
+function loadState() {
+  try {
+    return JSON.parse(fs.readFileSync(statePath, 'utf8'));
+  } catch {
+    return { nextIssueNumber: 1, nextCommentId: 1, issues: {}, comments: {} };
+  }
+}
+
+function saveState(state) {
+  fs.writeFileSync(statePath, JSON.stringify(state, null, 2));
+}
+
+function issueKey(args) {
+  return `${args.owner}/${args.repo}#${args.issue_number}`;
+}
+
+function requireIssue(state, args) {
+  const issue = state.issues[issueKey(args)];
+  if (!issue) {
+    throw new Error(`failed to get issue: GET https://api.github.com/repos/${args.owner}/${args.repo}/issues/${args.issue_number}: 404 Not Found`);
+  }
+  return issue;
+}
+
+const tools = {
+  create_issue: {
+    description: 'Create a new issue in a GitHub repository',
+    required: ['owner', 'repo', 'title'],
+    run(state, args) {
+      const number = state.nextIssueNumber++;
+      const now = new Date().toISOString();
+      const issue = {
+        number,
+        title: args.title,
+        body: args.body || '',
+        state: 'open',
+        labels: (args.labels || []).map(name => ({ name })),
+        html_url: `https://github.com/${args.owner}/${args.repo}/issues/${number}`,
+        created_at: now,
+        updated_at: now
+      };
+      state.issues[issueKey({ ...args, issue_number: number })] = issue;
+      return issue;
+    }
+  },
+  update_issue: {
+    description: 'Update an existing issue in a GitHub repository',
+    required: ['owner', 'repo', 'issue_number'],
+    run(state, args) {
+      const issue = requireIssue(state, args);
+      for (const field of ['title', 'body', 'state']) {
+        if (args[field] !== undefined) issue[field] = args[field];
+      }
+      if (args.labels !== undefined) issue.labels = args.labels.map(name => ({ name }));
+      issue.updated_at = new Date().toISOString();
+      return issue;
+    }
+  },
+  get_issue: {
+    description: 'Get details of a specific issue in a GitHub repository',
+    required: ['owner', 'repo', 'issue_number'],
+    run(state, args) {
+      return requireIssue(state, args);
+    }
+  },
+  get_issue_comments: {
+    description: 'Get comments for a specific issue in a GitHub repository',
+    required: ['owner', 'repo', 'issue_number'],
+    run(state, args) {
+      requireIssue(state, args);
+      return state.comments[issueKey(args)] || [];
+    }
+  },
+  add_issue_comment: {
+    description: 'Add a comment to a specific issue in a GitHub repository',
+    required: ['owner', 'repo', 'issue_number', 'body'],
+    run(state, args) {
+      const issue = requireIssue(state, args);
+      const id = state.nextCommentId++;
+      const comment = {
+        id,
+        body: args.body,
+        user: { login: args.author || 'octocat' },
+        html_url: `${issue.html_url}#issuecomment-${id}`,
+        created_at: new Date().toISOString()
+      };
+      const key = issueKey(args);
+      state.comments[key] = [...(state.comments[key] || []), comment];
+      return comment;
+    }
+  },
+  list_issues: {
+    description: 'List issues in a GitHub repository',
+    required: ['owner', 'repo'],
+    run(state, args) {
+      const prefix = `${args.owner}/${args.repo}#`;
+      return Object.entries(state.issues)
+        .filter(([key, issue]) => key.startsWith(prefix) && (!args.state || args.state === 'all' || issue.state === args.state))
+        .map(([, issue]) => issue);
+    }
+  }
+};
+
+function handle(message) {
+  switch (message.method) {
+    case 'initialize':
+      return {
+        protocolVersion: message.params && message.params.protocolVersion || '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'fake-github-mcp-server', version: '0.0.1' }
+      };
+    case 'tools/list':
+      return {
+        tools: Object.entries(tools).map(([name, tool]) => ({
+          name,
+          description: tool.description,
+          inputSchema: { type: 'object', required: tool.required }
+        }))
+      };
+    case 'tools/call': {
+      const { name, arguments: args = {} } = message.params || {};
+      const tool = tools[name];
+      if (!tool) {
+        throw Object.assign(new Error(`unknown tool: ${name}`), { code: -32602 });
+      }
+
+      const missing = tool.required.filter(key => args[key] === undefined);
+      if (missing.length > 0) {
+        return { content: [{ type: 'text', text: `missing required parameter: ${missing[0]}` }], isError: true };
+      }
+
+      const state = loadState();
+      try {
+        const result = tool.run(state, args);
+        saveState(state);
+        return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+      } catch (error) {
+        return { content: [{ type: 'text', text: error.message }], isError: true };
+      }
+    }
+    default:
+      throw Object.assign(new Error(`Method not found: ${message.method}`), { code: -32601 });
+  }
+}
+
+const input = readline.createInterface({ input: process.stdin });
+
+input.on('line', line => {
+  if (!line.trim()) return;
+
+  let message;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }) + '\n');
+    return;
+  }
+
+  // Notifications get no response
+  if (message.id === undefined) return;
+
+  try {
+    const result = handle(message);
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: message.id, result }) + '\n');
+  } catch (error) {
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: message.id, error: { code: error.code || -32603, message: error.message } }) + '\n');
+  }
+});
+
+process.stderr.write(`fake-github-mcp-server using ${statePath}\n`);
@@ -0,0 +1,259 @@
+#!/usr/bin/env node
+/**
+ * Fake model server for testing the model providers offline.
+ *
+ * Serves the OpenAI chat completions API (`POST /v1/chat/completions`) and
+ * the Anthropic Messages API (`POST /v1/messages`) on localhost, streaming
+ * included, with a canned reply:
+ *
+ *   FAKE_MODEL_PORT=11435 node scripts/fake-model-server.js
+ *
+ * Point a model at it in .nys/config.json:
+ *
+ *   "models": {
+ *     "fake-gpt": { "provider": "openai-compatible", "baseUrl": "http://127.0.0.1:11435/v1", "model": "fake-gpt" },
+ *     "fake-claude": { "provider": "anthropic", "baseUrl": "http://127.0.0.1:11435", "model": "fake-claude" }
+ *   }
+ *
+ * The reply is FAKE_MODEL_REPLY, or one naming the last user message. A
+ * directive in the last user message changes what happens:
+ *
+ *   [fake:status=429]   fail with that HTTP status (429 and 503 send Retry-After)
+ *   [fake:flaky]        fail the first time with 429, then answer
+ *   [fake:slow]         wait FAKE_MODEL_SLOW_MS (default 2000) before answering
+ *   [fake:stream-error] while streaming, send an overloaded error after the first token
+ *
+ * With FAKE_MODEL_API_KEY set, requests without that key get a 401.
+ * `GET /requests` lists the request bodies received so far.
+ */
+
+const http = require('http');
+
+const DIRECTIVE = /\[fake:([\w-]+)(?:=(\w+))?\]/;
+
+function lastUserText(messages) {
+  const last = [...(messages || [])].reverse().find(message => message.role === 'user');
+  if (!last) return '';
+  if (typeof last.content === 'string') return last.content;
+  return (last.content || []).map(block => block.text || '').join('');
+}
+
+// A rough count, good enough for usage numbers
+function countTokens(text) {
+  return (text.match(/\S+/g) || []).length;
+}
+
+// Streamed in word-sized pieces, as models do
+function chunks(text) {
+  return text.match(/\s*\S+/g) || [text];
+}
+
+// Ends early when the client hangs up
+function sleep(ms, response) {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    response.on('close', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+function sendJson(response, status, body, headers = {}) {
+  response.writeHead(status, { 'content-type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+function sendEvents(response) {
+  response.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive' });
+}
+
+/**
+ * Start the server; resolves once it listens. `port` 0 picks a free port.
+ */
+function startFakeModelServer(options = {}) {
+  const reply = options.reply || process.env.FAKE_MODEL_REPLY;
+  const apiKey = options.apiKey || process.env.FAKE_MODEL_API_KEY;
+  const slowMs = Number(options.slowMs || process.env.FAKE_MODEL_SLOW_MS || 2000);
+  const requests = [];
+  const flakySeen = new Set();
+
+  function plan(api, body, headers) {
+    const text = lastUserText(body.messages);
+    const directive = text.match(DIRECTIVE);
+    const [name, value] = directive ? [directive[1], directive[2]] : [];
+    const key = api === 'openai' ? (headers.authorization || '').replace(/^Bearer /, '') : headers['x-api-key'];
+
+    if (apiKey && key !== apiKey) {
+      return { status: 401, message: 'Invalid API key' };
+    }
+    if (name === 'status') {
+      return { status: Number(value) || 500, message: `Fake failure ${value}` };
+    }
+    if (name === 'flaky') {
+      const seen = JSON.stringify(body.messages);
+      if (!flakySeen.has(seen)) {
+        flakySeen.add(seen);
+        return { status: 429, message: 'Rate limited (flaky)' };
+      }
+    }
+    const content = reply || `Fake reply to: ${text.replace(DIRECTIVE, '').trim().substring(0, 80)}`;
+    return { content, slow: name === 'slow', streamError: name === 'stream-error' };
+  }
+
+  async function openAi(request, response, body) {
+    const outcome = plan('openai', body, request.headers);
+    if (outcome.status) {
+      const headers = outcome.status === 429 || outcome.status === 503 ? { 'retry-after-ms': '50' } : {};
+      return sendJson(response, outcome.status, { error: { message: outcome.message, type: 'fake_error', code: null } }, headers);
+    }
+    if (outcome.slow) await sleep(slowMs, response);
+    if (response.destroyed) return;
+
+    const id = `chatcmpl-fake-${requests.length}`;
+    const created = Math.floor(Date.now() / 1000);
+    const usage = { prompt_tokens: countTokens(JSON.stringify(body.messages)), completion_tokens: countTokens(outcome.content) };
+    usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+
+    if (!body.stream) {
+      return sendJson(response, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: outcome.content }, finish_reason: 'stop', logprobs: null }],
+        usage
+      });
+    }
+
+    sendEvents(response);
+    const send = (delta, finishReason = null) => response.write(`data: ${JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model: body.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }]
+    })}\n\n`);
+    send({ role: 'assistant', content: '' });
+    for (const piece of chunks(outcome.content)) {
+      send({ content: piece });
+    }
+    send({}, 'stop');
+    response.end('data: [DONE]\n\n');
+  }
+
+  async function anthropic(request, response, body) {
+    const outcome = plan('anthropic', body, request.headers);
+    if (outcome.status) {
+      const headers = outcome.status === 429 || outcome.status === 503 ? { 'retry-after': '0' } : {};
+      const type = outcome.status === 401 ? 'authentication_error' : outcome.status === 429 ? 'rate_limit_error' : 'api_error';
+      return sendJson(response, outcome.status, { type: 'error', error: { type, message: outcome.message } }, headers);
+    }
+    if (!request.headers['anthropic-version']) {
+      return sendJson(response, 400, { type: 'error', error: { type: 'invalid_request_error', message: 'anthropic-version header is required' } });
+    }
+    // The Messages API rejects conversations that do not start with the user or do not alternate
+    const roles = (body.messages || []).map(message => message.role);
+    if (roles[0] !== 'user' || roles.some((role, index) => index > 0 && role === roles[index - 1])) {
+      return sendJson(response, 400, { type: 'error', error: { type: 'invalid_request_error', message: `messages must alternate, starting with user (got ${roles.join(', ')})` } });
+    }
+    if (outcome.slow) await sleep(slowMs, response);
+    if (response.destroyed) return;
+
+    const id = `msg_fake_${requests.length}`;
+    const inputTokens = countTokens(`${body.system || ''} ${JSON.stringify(body.messages)}`);
+    const outputTokens = countTokens(outcome.content);
+
+    if (!body.stream) {
+      return sendJson(response, 200, {
+        id,
+        type: 'message',
+        role: 'assistant',
+        model: body.model,
+        content: [{ type: 'text', text: outcome.content }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: inputTokens, output_tokens: outputTokens }
+      });
+    }
+
+    sendEvents(response);
+    const send = (type, data) => response.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+    send('message_start', {
+      message: { id, type: 'message', role: 'assistant', model: body.model, content: [], stop_reason: null, usage: { input_tokens: inputTokens, output_tokens: 1 } }
+    });
+    send('content_block_start', { index: 0, content_block: { type: 'text', text: '' } });
+    for (const [index, piece] of chunks(outcome.content).entries()) {
+      if (outcome.streamError && index === 1) {
+        send('error', { error: { type: 'overloaded_error', message: 'Overloaded' } });
+        return response.end();
+      }
+      send('content_block_delta', { index: 0, delta: { type: 'text_delta', text: piece } });
+    }
+    send('content_block_stop', { index: 0 });
+    send('message_delta', { delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: outputTokens } });
+    send('message_stop', {});
+    response.end();
+  }
+
+  const server = http.createServer((request, response) => {
+    const url = request.url.split('?')[0];
+    if (request.method === 'GET' && url === '/requests') {
+      return sendJson(response, 200, requests);
+    }
+
+    let raw = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => { raw += chunk; });
+    request.on('end', () => {
+      let body;
+      try {
+        body = JSON.parse(raw || '{}');
+      } catch {
+        return sendJson(response, 400, { error: { message: 'Request body is not JSON' } });
+      }
+
+      const handler = request.method !== 'POST' ? null
+        : /^(\/v1)?\/chat\/completions$/.test(url) ? openAi
+          : url === '/v1/messages' ? anthropic
+            : null;
+      if (!handler) {
+        return sendJson(response, 404, { error: { message: `No route for ${request.method} ${url}` } });
+      }
+
+      requests.push({ path: url, headers: request.headers, body });
+      handler(request, response, body).catch(error => {
+        console.error('fake-model-server:', error);
+        if (!response.headersSent) sendJson(response, 500, { error: { message: String(error) } });
+        else response.end();
+      });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port === undefined ? 0 : options.port, '127.0.0.1', () => {
+      const { port } = server.address();
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        port,
+        requests,
+        close: () => new Promise(done => {
+          server.closeAllConnections?.();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+module.exports = { startFakeModelServer };
+
+if (require.main === module) {
+  startFakeModelServer({ port: Number(process.env.FAKE_MODEL_PORT || 11435) }).then(server => {
+    process.stderr.write(`fake-model-server listening on ${server.url}\n`);
+  }, error => {
+    process.stderr.write(`fake-model-server failed to start: ${error.message}\n`);
+    process.exit(1);
+  });
+}
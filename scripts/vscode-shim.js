@@ -0,0 +1,248 @@
+/**
+ * A stand-in for the `vscode` module, so the offline checks in this folder
+ * can load the compiled extension (out/) in plain Node.
+ *
+ * It covers only what those code paths touch: file URIs, workspace.fs and
+ * findFiles over the real file system, settings (always unset) and the
+ * message functions, which are logged. Require it before anything from out/:
+ *
+ *   require('./vscode-shim').install({ workspaceFolder: '/tmp/workspace' });
+ */
+
+const fs = require('fs');
+const Module = require('module');
+const path = require('path');
+
+class Uri {
+  constructor(scheme, fsPath, query = '') {
+    this.scheme = scheme;
+    this.fsPath = fsPath;
+    this.path = fsPath.split(path.sep).join('/');
+    this.query = query;
+  }
+
+  static file(fsPath) {
+    return new Uri('file', path.resolve(fsPath));
+  }
+
+  static joinPath(base, ...segments) {
+    return new Uri(base.scheme, path.join(base.fsPath, ...segments));
+  }
+
+  static from({ scheme, path: uriPath = '', query = '' }) {
+    return new Uri(scheme, uriPath, query);
+  }
+
+  with(change) {
+    return new Uri(change.scheme || this.scheme, change.path || this.fsPath, change.query !== undefined ? change.query : this.query);
+  }
+
+  toString() {
+    return `${this.scheme}://${this.path}${this.query ? `?${this.query}` : ''}`;
+  }
+}
+
+class FileSystemError extends Error {
+  static FileNotFound(uri) {
+    return Object.assign(new FileSystemError(`File not found: ${uri && uri.fsPath || uri}`), { code: 'FileNotFound' });
+  }
+}
+
+const FileType = { Unknown: 0, File: 1, Directory: 2, SymbolicLink: 64 };
+
+// workspace.fs rejects with FileSystemError, like VS Code does
+async function fsCall(uri, run) {
+  try {
+    return await run(uri.fsPath);
+  } catch (error) {
+    if (error && error.code === 'ENOENT') throw FileSystemError.FileNotFound(uri);
+    throw error;
+  }
+}
+
+const workspaceFs = {
+  // A Buffer, as in VS Code's Node extension host; some callers rely on its toString()
+  readFile: uri => fsCall(uri, file => fs.promises.readFile(file)),
+  writeFile: (uri, content) => fsCall(uri, async file => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, content);
+  }),
+  createDirectory: uri => fsCall(uri, file => fs.promises.mkdir(file, { recursive: true })),
+  delete: (uri, options = {}) => fsCall(uri, file => fs.promises.rm(file, { recursive: !!options.recursive })),
+  rename: (from, to) => fsCall(from, file => fs.promises.rename(file, to.fsPath)),
+  stat: uri => fsCall(uri, async file => {
+    const stat = await fs.promises.stat(file);
+    return { type: stat.isDirectory() ? FileType.Directory : FileType.File, ctime: stat.ctimeMs, mtime: stat.mtimeMs, size: stat.size };
+  }),
+  readDirectory: uri => fsCall(uri, async file => (await fs.promises.readdir(file, { withFileTypes: true }))
+    .map(entry => [entry.name, entry.isDirectory() ? FileType.Directory : FileType.File]))
+};
+
+class EventEmitter {
+  constructor() {
+    this.listeners = [];
+    this.event = listener => {
+      this.listeners.push(listener);
+      return { dispose: () => { this.listeners = this.listeners.filter(other => other !== listener); } };
+    };
+  }
+
+  fire(value) {
+    this.listeners.forEach(listener => listener(value));
+  }
+
+  dispose() {
+    this.listeners = [];
+  }
+}
+
+class Disposable {
+  constructor(onDispose) {
+    this.onDispose = onDispose;
+  }
+
+  dispose() {
+    if (this.onDispose) this.onDispose();
+  }
+}
+
+class RelativePattern {
+  constructor(base, pattern) {
+    this.baseUri = typeof base === 'string' ? Uri.file(base) : base.uri || base;
+    this.base = this.baseUri.fsPath;
+    this.pattern = pattern;
+  }
+}
+
+/**
+ * A glob as a regular expression over forward-slash paths: `**`, `*`, `?`
+ * and `{a,b}` alternatives
+ */
+function globToRegExp(glob) {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function findFiles(include, exclude, maxResults = Infinity) {
+  const base = typeof include === 'string' ? vscode.workspace.workspaceFolders[0].uri.fsPath : include.base;
+  const matches = globToRegExp(typeof include === 'string' ? include : include.pattern);
+  const excluded = exclude ? globToRegExp(typeof exclude === 'string' ? exclude : exclude.pattern) : null;
+  const found = [];
+
+  const walk = async directory => {
+    let entries;
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (found.length >= maxResults) return;
+      const file = path.join(directory, entry.name);
+      const relative = path.relative(base, file).split(path.sep).join('/');
+      if (excluded && (excluded.test(relative) || excluded.test(`${relative}/`))) continue;
+      if (entry.isDirectory()) {
+        await walk(file);
+      } else if (matches.test(relative)) {
+        found.push(Uri.file(file));
+      }
+    }
+  };
+  await walk(base);
+  return found;
+}
+
+// Messages shown to the user, in order, for checks to assert on
+const messages = [];
+
+function showMessage(level) {
+  // Resolves as if the user dismissed it
+  return async message => {
+    messages.push({ level, message });
+    console.log(`[vscode:${level}] ${message}`);
+    return undefined;
+  };
+}
+
+const vscode = {
+  Uri,
+  FileSystemError,
+  FileType,
+  EventEmitter,
+  Disposable,
+  RelativePattern,
+  DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+  ProgressLocation: { SourceControl: 1, Window: 10, Notification: 15 },
+  workspace: {
+    workspaceFolders: undefined,
+    isTrusted: true,
+    fs: workspaceFs,
+    textDocuments: [],
+    findFiles,
+    getConfiguration: () => ({
+      get: (_key, defaultValue) => defaultValue,
+      has: () => false,
+      update: async () => undefined
+    }),
+    onDidChangeConfiguration: () => new Disposable()
+  },
+  window: {
+    showInformationMessage: showMessage('info'),
+    showWarningMessage: showMessage('warning'),
+    showErrorMessage: showMessage('error'),
+    withProgress: (_options, task) => task({ report: () => undefined }, { isCancellationRequested: false, onCancellationRequested: () => new Disposable() })
+  },
+  languages: {
+    getDiagnostics: () => []
+  },
+  commands: {
+    executeCommand: async () => undefined
+  },
+  __messages: messages
+};
+
+let installed = false;
+
+/**
+ * Make `require('vscode')` resolve to this module
+ */
+function install(options = {}) {
+  if (options.workspaceFolder) {
+    const uri = Uri.file(options.workspaceFolder);
+    vscode.workspace.workspaceFolders = [{ uri, name: path.basename(uri.fsPath), index: 0 }];
+  }
+  if (installed) return vscode;
+
+  const resolve = Module._resolveFilename;
+  Module._resolveFilename = function (request, ...rest) {
+    return request === 'vscode' ? __filename : resolve.call(this, request, ...rest);
+  };
+  installed = true;
+  return vscode;
+}
+
+module.exports = vscode;
+module.exports.install = install;
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+
+/**
+ * API Keys
+ *
+ * Credentials for the model providers and the GitHub MCP server, kept in VS
+ * Code SecretStorage (the OS keychain) under `mira.apiKey.<id>`. Environment
+ * variables still work as a fallback. Keys are never written to settings,
+ * `.nys` files or logs.
+ *
+ * A provider's key only goes to the provider's own host. Models at any other
+ * endpoint use a key stored for that endpoint (`endpoint.<origin>`), which
+ * the user enters; the repository cannot redirect a stored key elsewhere.
+ */
+
+export type CredentialId = 'openai' | 'azure' | 'anthropic' | 'github';
+
+// A key for one custom model endpoint, e.g. `endpoint.http://localhost:11434`
+export type EndpointKeyId = `endpoint.${string}`;
+
+export type KeyId = CredentialId | EndpointKeyId;
+
+export function endpointKeyId(origin: string): EndpointKeyId {
+  return `endpoint.${origin}`;
+}
+
+export interface CredentialInfo {
+  id: CredentialId;
+  label: string;
+  // Read when no key is stored, in this order
+  envVars: string[];
+}
+
+export const CREDENTIALS: CredentialInfo[] = [
+  { id: 'openai', label: 'OpenAI', envVars: ['OPENAI_API_KEY', 'OPENAI_KEY'] },
+  { id: 'azure', label: 'Azure OpenAI', envVars: ['AZURE_OPENAI_API_KEY'] },
+  { id: 'anthropic', label: 'Anthropic', envVars: ['ANTHROPIC_API_KEY'] },
+  { id: 'github', label: 'GitHub MCP server token', envVars: ['GITHUB_PERSONAL_ACCESS_TOKEN'] }
+];
+
+// Plain-text settings from earlier versions, moved into SecretStorage on activation
+const LEGACY_SETTINGS: { setting: string; id: CredentialId }[] = [
+  { setting: 'openaiApiKey', id: 'openai' }
+];
+
+const SECRET_PREFIX = 'mira.apiKey.';
+
+export class ApiKeyStore {
+  private readonly changeEmitter = new vscode.EventEmitter<KeyId>();
+  private readonly subscription: vscode.Disposable;
+
+  /** Fires with the key id when a key is stored, replaced or cleared */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly secrets: vscode.SecretStorage) {
+    this.subscription = secrets.onDidChange(event => {
+      if (event.key.startsWith(SECRET_PREFIX)) {
+        this.changeEmitter.fire(event.key.substring(SECRET_PREFIX.length) as KeyId);
+      }
+    });
+  }
+
+  /**
+   * The stored key, else the first set environment variable
+   */
+  async get(id: KeyId): Promise<string | undefined> {
+    const stored = await this.getStored(id);
+    if (stored) return stored;
+
+    const info = CREDENTIALS.find(credential => credential.id === id);
+    for (const name of info ? info.envVars : []) {
+      if (process.env[name]) return process.env[name];
+    }
+    return undefined;
+  }
+
+  async getStored(id: KeyId): Promise<string | undefined> {
+    return (await this.secrets.get(SECRET_PREFIX + id)) || undefined;
+  }
+
+  /**
+   * Where a key comes from, for display; never the key itself
+   */
+  async describe(id: KeyId): Promise<string> {
+    if (await this.getStored(id)) return 'stored in secret storage';
+    const info = CREDENTIALS.find(credential => credential.id === id);
+    const envVar = info && info.envVars.find(name => process.env[name]);
+    return envVar ? `from $${envVar}` : 'not set';
+  }
+
+  async set(id: KeyId, value: string): Promise<void> {
+    await this.secrets.store(SECRET_PREFIX + id, value.trim());
+  }
+
+  async delete(id: KeyId): Promise<void> {
+    await this.secrets.delete(SECRET_PREFIX + id);
+  }
+
+  /**
+   * Move keys out of settings.json. A key already in secret storage wins;
+   * the setting is removed either way. Returns the credentials migrated.
+   */
+  async migrateSettings(): Promise<CredentialId[]> {
+    const config = vscode.workspace.getConfiguration('mira');
+    const migrated: CredentialId[] = [];
+
+    for (const { setting, id } of LEGACY_SETTINGS) {
+      const inspected = config.inspect<string>(setting);
+      if (!inspected) continue;
+
+      const scopes: [string | undefined, vscode.ConfigurationTarget][] = [
+        [inspected.workspaceValue, vscode.ConfigurationTarget.Workspace],
+        [inspected.globalValue, vscode.ConfigurationTarget.Global]
+      ];
+      const value = scopes.map(([scopeValue]) => scopeValue).find(scopeValue => !!scopeValue && scopeValue.trim() !== '');
+      if (value === undefined) continue;
+
+      if (!(await this.getStored(id))) {
+        await this.set(id, value);
+      }
+      for (const [scopeValue, target] of scopes) {
+        if (scopeValue !== undefined) {
+          await config.update(setting, undefined, target);
+        }
+      }
+
+      console.log(`[ApiKeys] Moved mira.${setting} into secret storage`);
+      migrated.push(id);
+    }
+
+    return migrated;
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { McpServerConfig } from '../mcp/mcpClient';
+import { CassetteConfig } from '../modelProviders/cassettes';
+import { MockSettings } from '../modelProviders/mockProvider';
+import { ModelConfig } from '../modelProviders/modelProviderInterface';
+import { RequestPolicy } from '../modelProviders/requestPolicy';
+
+/**
+ * Workspace Config
+ *
+ * Reads and writes `.nys/config.json`, the per-workspace settings that are
+ * shared through the repository (unlike VS Code user settings). Keys this
+ * version of Mira does not know about are preserved on write. Secrets never
+ * go in this file.
+ */
+
+export interface SavedFilter {
+  name: string;
+  query: string;
+}
+
+export interface NysConfig {
+  savedFilters?: SavedFilter[];
+  mcpServers?: Record<string, McpServerConfig>;
+  models?: Record<string, ModelConfig>;
+  defaultModel?: string;
+  // SPARC phase → model name, overriding defaultModel
+  phaseModels?: Record<string, string>;
+  // Retries, timeout and concurrency for model calls
+  modelRequests?: Partial<RequestPolicy>;
+  // Record model calls, or replay recorded ones offline
+  cassettes?: CassetteConfig;
+  // Fixtures for the mock provider, and whether its code may run
+  mock?: MockSettings;
+  [key: string]: unknown;
+}
+
+export class NysConfigStore {
+  private readonly configUri: vscode.Uri;
+  private cache: NysConfig | null = null;
+
+  constructor(readonly nysFolder: vscode.Uri) {
+    this.configUri = vscode.Uri.joinPath(nysFolder, 'config.json');
+  }
+
+  /**
+   * Load the config, or an empty config if the file is missing or invalid
+   */
+  async load(): Promise<NysConfig> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(this.configUri)).toString('utf8');
+      const parsed = JSON.parse(content);
+      this.cache = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError)) {
+        console.warn('[NysConfig] Ignoring invalid .nys/config.json:', error instanceof Error ? error.message : error);
+      }
+      this.cache = {};
+    }
+
+    return this.cache!;
+  }
+
+  /**
+   * Apply a change to the config and write it back
+   */
+  async update(change: (config: NysConfig) => void): Promise<NysConfig> {
+    const config = { ...(await this.load()) };
+    change(config);
+    await vscode.workspace.fs.writeFile(this.configUri, Buffer.from(JSON.stringify(config, null, 2) + '\n', 'utf8'));
+    this.cache = config;
+    return config;
+  }
+
+  /**
+   * Drop the cached config so the next load reads the file again
+   */
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  async getMcpServer(name: string): Promise<McpServerConfig | undefined> {
+    const config = await this.load();
+    const server = config.mcpServers && typeof config.mcpServers === 'object' ? config.mcpServers[name] : undefined;
+    return server && typeof server.command === 'string' ? server : undefined;
+  }
+
+  async getSavedFilters(): Promise<SavedFilter[]> {
+    const config = await this.load();
+    return Array.isArray(config.savedFilters)
+      ? config.savedFilters.filter(filter => filter && typeof filter.name === 'string' && typeof filter.query === 'string')
+      : [];
+  }
+
+  /**
+   * Save a filter, replacing any existing filter with the same name
+   */
+  async saveFilter(filter: SavedFilter): Promise<SavedFilter[]> {
+    const config = await this.update(config => {
+      const filters = Array.isArray(config.savedFilters) ? config.savedFilters : [];
+      config.savedFilters = [...filters.filter(f => f.name !== filter.name), filter];
+    });
+    return config.savedFilters || [];
+  }
+
+  async deleteFilter(name: string): Promise<SavedFilter[]> {
+    const config = await this.update(config => {
+      const filters = Array.isArray(config.savedFilters) ? config.savedFilters : [];
+      config.savedFilters = filters.filter(f => f.name !== name);
+    });
+    return config.savedFilters || [];
+  }
+}
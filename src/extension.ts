@@ -1,18 +1,57 @@
 import * as vscode from 'vscode';
 import { IssueViewProvider } from './issueViewProvider';
-import { AIService } from './orchestratoreEngine/aiService';
+import { ApiKeyStore } from './config/apiKeys';
+import { MiraMcpServer } from './mcp/miraMcpServer';
 
 export function activate(context: vscode.ExtensionContext) {
+  // API keys live in VS Code secret storage
+  const apiKeys = new ApiKeyStore(context.secrets);
+  context.subscriptions.push(apiKeys);
+
+  const migrateApiKeys = async () => {
+    try {
+      const migrated = await apiKeys.migrateSettings();
+      if (migrated.length > 0) {
+        vscode.window.showInformationMessage('Mira moved your API key out of settings.json into VS Code secret storage.');
+      }
+    } catch (error) {
+      console.error('[Extension] Failed to migrate API keys:', error instanceof Error ? error.message : error);
+    }
+  };
+  migrateApiKeys();
+
   // Register Mira sidebar view provider
-  const issueProvider = new IssueViewProvider(context.extensionUri);
-  
-  // Initialize AI service
-  const aiService = new AIService();
+  const issueProvider = new IssueViewProvider(context.extensionUri, apiKeys, context.globalState);
 
   context.subscriptions.push(
-    vscode.window.registerWebviewViewProvider(IssueViewProvider.viewType, issueProvider)
+    vscode.window.registerWebviewViewProvider(IssueViewProvider.viewType, issueProvider),
+    issueProvider
   );
 
+  // Expose issues and workflows to other agents over MCP
+  const mcpServer = new MiraMcpServer(issueProvider, context.extensionUri);
+  context.subscriptions.push(mcpServer);
+
+  const startMcpServer = async (notify: boolean) => {
+    const port = vscode.workspace.getConfiguration('mira').get<number>('mcpServer.port', 0);
+    try {
+      const actualPort = await mcpServer.start(port);
+      console.log(`[Extension] Mira MCP server listening on 127.0.0.1:${actualPort}`);
+      if (notify) {
+        const choice = await vscode.window.showInformationMessage(`Mira MCP server listening on 127.0.0.1:${actualPort}`, 'Copy Client Config');
+        if (choice === 'Copy Client Config') {
+          await vscode.env.clipboard.writeText(JSON.stringify({ mcpServers: mcpServer.getClientConfig() }, null, 2));
+        }
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to start the Mira MCP server: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  if (vscode.workspace.getConfiguration('mira').get<boolean>('mcpServer.enabled', false)) {
+    startMcpServer(false);
+  }
+
   // Register basic Mira commands
   context.subscriptions.push(
     vscode.commands.registerCommand('vscode-mcp-client.openIssuePanel', () => {
@@ -28,18 +67,23 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Register basic issue management commands
   let createIssueCommand = vscode.commands.registerCommand('vscode-mcp-client.createIssue', async () => {
-    const title = await vscode.window.showInputBox({
-      prompt: 'Issue Title',
-      placeHolder: 'Enter a descriptive title for your issue'
-    });
-    if (!title) return;
-
-    const description = await vscode.window.showInputBox({
-      prompt: 'Issue Description',
-      placeHolder: 'Describe the issue, requirements, and design considerations'
-    }) || '';
-
-    await issueProvider.createIssue(title, description);
+    await issueProvider.promptCreateIssue();
+  });
+
+  let syncGitHubIssueCommand = vscode.commands.registerCommand('vscode-mcp-client.syncGitHubIssue', async () => {
+    await issueProvider.syncWithGitHub();
+  });
+
+  let syncAllGitHubIssuesCommand = vscode.commands.registerCommand('vscode-mcp-client.syncAllGitHubIssues', async () => {
+    await issueProvider.syncAllWithGitHub();
+  });
+
+  let listMcpToolsCommand = vscode.commands.registerCommand('vscode-mcp-client.listMcpTools', async () => {
+    await issueProvider.showMcpTools();
+  });
+
+  let cancelWorkflowCommand = vscode.commands.registerCommand('vscode-mcp-client.cancelWorkflow', async () => {
+    await issueProvider.promptCancelWorkflow();
   });
 
   let switchToDesignModeCommand = vscode.commands.registerCommand('vscode-mcp-client.switchToDesignMode', async () => {
@@ -72,42 +116,47 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.window.showInformationMessage('Log collection command executed');
   });
 
-  // Register OpenAI API key refresh command
-  let refreshOpenAIKeyCommand = vscode.commands.registerCommand('mira.refreshOpenAIKey', async () => {
-    aiService.refreshApiKey();
-    const status = aiService.getStatus();
-    
-    if (status.initialized) {
-      vscode.window.showInformationMessage(`OpenAI API key refreshed successfully (Source: ${status.source})`);
-    } else {
-      vscode.window.showWarningMessage('OpenAI API key not found. Please set "mira.openaiApiKey" in VS Code settings.');
-    }
+  let startMcpServerCommand = vscode.commands.registerCommand('vscode-mcp-client.startMcpServer', async () => {
+    await startMcpServer(true);
+  });
+
+  let stopMcpServerCommand = vscode.commands.registerCommand('vscode-mcp-client.stopMcpServer', async () => {
+    await mcpServer.stop();
+    vscode.window.showInformationMessage('Mira MCP server stopped');
+  });
+
+  let manageApiKeysCommand = vscode.commands.registerCommand('mira.manageApiKeys', async () => {
+    await issueProvider.manageApiKeys();
+  });
+
+  let createPromptTemplatesCommand = vscode.commands.registerCommand('mira.createPromptTemplates', async () => {
+    await issueProvider.createPromptTemplates();
   });
 
   // Add all commands to subscriptions
   context.subscriptions.push(
     createIssueCommand,
+    syncGitHubIssueCommand,
+    syncAllGitHubIssuesCommand,
+    listMcpToolsCommand,
+    startMcpServerCommand,
+    stopMcpServerCommand,
+    cancelWorkflowCommand,
     switchToDesignModeCommand,
     switchToBuildModeCommand,
     switchToDebugModeCommand,
     runBuildCommand,
     runTestsCommand,
     collectLogsCommand,
-    refreshOpenAIKeyCommand
+    manageApiKeysCommand,
+    createPromptTemplatesCommand
   );
 
-  // Listen for configuration changes to refresh AI service
+  // A key pasted into the old setting is moved into secret storage too
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration('mira.openaiApiKey')) {
-        console.log('[Extension] OpenAI API key configuration changed, refreshing AI service...');
-        aiService.refreshApiKey();
-        const status = aiService.getStatus();
-        if (status.initialized) {
-          console.log(`[Extension] AI service refreshed successfully (Source: ${status.source})`);
-        } else {
-          console.warn('[Extension] AI service refresh failed - no valid API key found');
-        }
+        migrateApiKeys();
       }
     })
   );
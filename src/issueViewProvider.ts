@@ -1,37 +1,87 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { SPARCWorkflowEngine } from './orchestratoreEngine/sparcWorkflowEngine';
-
-export interface Issue {
-  id: string;
-  title: string;
-  description: string;
-  mode: 'design' | 'build' | 'debug';
-  status: 'open' | 'in-progress' | 'completed' | 'blocked';
-  todos: Todo[];
-  createdAt: Date;
-  updatedAt: Date;
-  filePath: string;
-}
-
-export interface Todo {
-  id: string;
-  content: string;
-  completed: boolean;
-  createdAt: Date;
-}
+import * as crypto from 'crypto';
+import { execFile } from 'child_process';
+import { ProcessIssueOptions, SPARCWorkflowEngine, SPARCWorkflowState } from './orchestratoreEngine/sparcWorkflowEngine';
+import { Issue, IssueMode, Todo } from './storage/issueSchema';
+import { parseIssueMarkdown, serializeIssueMarkdown } from './storage/issueMarkdown';
+import { IssueFileChange, IssueFileSync } from './storage/issueFileSync';
+import { mergeIssues } from './storage/issueMerge';
+import {
+  applyBlockingStatus,
+  buildDependencyGraph,
+  IssueLinkKind,
+  linkIssues,
+  removeIssueLinks,
+  syncIssueLinks,
+  unlinkIssues
+} from './storage/issueDependencies';
+import { filterIssues, hasTextTerms, parseIssueQuery } from './storage/issueQuery';
+import { NysConfigStore, SavedFilter } from './config/nysConfig';
+import { McpStdioClient } from './mcp/mcpClient';
+import { ConflictChoice, DEFAULT_GITHUB_MCP_SERVER, GitHubIssueSync, SyncField } from './mcp/githubSync';
+import { McpToolRegistry } from './mcp/toolRegistry';
+import { McpServerApprovals } from './mcp/serverApprovals';
+import { IssueTemplate, IssueTemplateStore, renderIssueTemplate } from './storage/issueTemplates';
+import { ChatMemoryStore } from './storage/chatMemory';
+import { WorkflowEvent } from './orchestratoreEngine/graphNodes';
+import { WorkflowCancelledError } from './orchestratoreEngine/cancellation';
+import { ContextReport, formatContextReport } from './orchestratoreEngine/contextBuilder';
+import { diffLines, DIAGRAM_KINDS } from './orchestratoreEngine/mermaid';
+import { TestRunResult } from './orchestratoreEngine/testResults';
+import { summarizeEvidence } from './orchestratoreEngine/debugEvidence';
+import { FixReviewer, FixReviewOutcome } from './orchestratoreEngine/fixReview';
+import { VerificationResult } from './orchestratoreEngine/codeExecutionEngine';
+import { PromptTemplateStore } from './orchestratoreEngine/promptTemplates';
+import { ModelProviderFactory, customEndpoint } from './modelProviders/modelProviderFactory';
+import { AIRequestError } from './modelProviders/requestPolicy';
+import { ApiKeyStore, CREDENTIALS, KeyId, endpointKeyId } from './config/apiKeys';
+import { createTodo, findTodo, removeTodo, rollUpCompletion, setTodoCompleted } from './storage/todos';
+
+export { Issue, Todo } from './storage/issueSchema';
 
 export class IssueViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'miraSidebarChat.issueView';
+  private static readonly STREAM_FLUSH_MS = 50;
   private _view?: vscode.WebviewView;
   private _issues: Issue[] = [];
   private _currentIssue: Issue | null = null;
   private _nysFolder: vscode.Uri | null = null;
   private _sparcEngine: SPARCWorkflowEngine | null = null;
-
-  constructor(private readonly _extensionUri: vscode.Uri) {
+  private _fileSync: IssueFileSync | null = null;
+  private _templates: IssueTemplateStore | null = null;
+  private _config: NysConfigStore | null = null;
+  private _savedFilters: SavedFilter[] = [];
+  private _query = '';
+  private _artifactText: Map<string, string> = new Map();
+  private _githubClient: McpStdioClient | null = null;
+  private _githubSync: GitHubIssueSync | null = null;
+  private _toolRegistry: McpToolRegistry | null = null;
+  private _issuesLoaded = false;
+  private _chatMemory: ChatMemoryStore | null = null;
+  private _modelProviders: ModelProviderFactory | null = null;
+  private _configWatcher: vscode.FileSystemWatcher | null = null;
+  private _fixReviewer: FixReviewer | null = null;
+  // Abort controllers of the workflow runs in progress, by issue id
+  private _runningWorkflows: Map<string, AbortController> = new Map();
+  // Which MCP server commands the user allowed; none start without it
+  private readonly _serverApprovals: McpServerApprovals | null;
+
+  constructor(private readonly _extensionUri: vscode.Uri, private readonly _apiKeys: ApiKeyStore | null = null, globalState: vscode.Memento | null = null) {
+    this._serverApprovals = globalState ? new McpServerApprovals(globalState) : null;
     this.initializeNysFolder();
+
+    // New keys take effect on the next request
+    this._apiKeys?.onDidChange(id => {
+      if (id === 'github') {
+        this._githubClient?.dispose();
+        this._githubClient = null;
+        this._githubSync = null;
+      } else {
+        this.reloadModels();
+      }
+    });
   }
 
   public resolveWebviewView(
@@ -47,6 +97,7 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
         this._extensionUri,
         vscode.Uri.joinPath(this._extensionUri, 'media'),
         vscode.Uri.joinPath(this._extensionUri, 'out'),
+        vscode.Uri.joinPath(this._extensionUri, 'node_modules', 'mermaid', 'dist'),
       ],
     };
 
@@ -61,7 +112,16 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
       switch (message.type) {
         case 'createIssue':
           console.log('Creating issue with:', { title: message.title, description: message.description });
-          await this.createIssue(message.title, message.description);
+          await this.createIssue(message.title, message.description, {
+            templateId: message.templateId,
+            values: message.values
+          });
+          break;
+        case 'getTemplates':
+          await this.sendTemplatesToWebview();
+          break;
+        case 'promptCreateIssue':
+          await this.promptCreateIssue();
           break;
         case 'selectIssue':
           await this.selectIssue(message.issueId);
@@ -73,7 +133,7 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
           await this.updateIssue(message.issueId, message.updates);
           break;
         case 'addTodo':
-          await this.addTodo(message.issueId, message.content);
+          await this.addTodo(message.issueId, message.content, message.parentTodoId);
           break;
         case 'toggleTodo':
           await this.toggleTodo(message.issueId, message.todoId);
@@ -81,6 +141,27 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
         case 'deleteTodo':
           await this.deleteTodo(message.issueId, message.todoId);
           break;
+        case 'linkIssues':
+          await this.linkIssues(message.fromId, message.toId, message.kind);
+          break;
+        case 'unlinkIssues':
+          await this.unlinkIssues(message.fromId, message.toId);
+          break;
+        case 'setQuery':
+          await this.setQuery(message.query);
+          break;
+        case 'saveFilter':
+          await this.saveFilter(message.query);
+          break;
+        case 'deleteFilter':
+          await this.deleteFilter(message.name);
+          break;
+        case 'syncGitHub':
+          await this.syncWithGitHub(message.issueId);
+          break;
+        case 'getDependencyGraph':
+          this.sendDependencyGraph();
+          break;
         case 'runTest':
           await this.runTest(message.issueId);
           break;
@@ -93,8 +174,28 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
         case 'sendMessage':
           await this.handleUserMessage(message.message, message.mode, message.issueId);
           break;
+        case 'clearChat':
+          await this.clearChat(message.issueId);
+          break;
+        case 'cancelWorkflow':
+          this.cancelWorkflow(message.issueId);
+          break;
+        case 'openLocation':
+          await this.openLocation(message.path, message.line, message.column);
+          break;
+        case 'previewFix':
+          await this.previewFix(message.issueId, message.path, message.hunkIds || []);
+          break;
+        case 'reviewFixes':
+          await this.reviewFixes(message.issueId, message.hunkIds || [], message.comment);
+          break;
         case 'getData':
           await this.sendDataToWebview();
+          await this.sendTemplatesToWebview();
+          await this.sendModelsToWebview();
+          break;
+        case 'selectModel':
+          await this.selectModel(message.model);
           break;
       }
     });
@@ -112,9 +213,74 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
         await vscode.workspace.fs.createDirectory(this._nysFolder);
       }
 
+      if (!this._config) {
+        this._config = new NysConfigStore(this._nysFolder);
+        this._savedFilters = await this._config.getSavedFilters();
+      }
+
+      if (!this._chatMemory) {
+        this._chatMemory = new ChatMemoryStore(this._nysFolder);
+      }
+
+      // Model selection from .nys/config.json, shared by all workflow agents
+      if (!this._modelProviders) {
+        this._modelProviders = new ModelProviderFactory(this._config, this._apiKeys);
+        this._configWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this._nysFolder, 'config.json'));
+        const onConfigChange = () => this.reloadModels();
+        this._configWatcher.onDidChange(onConfigChange);
+        this._configWatcher.onDidCreate(onConfigChange);
+        this._configWatcher.onDidDelete(onConfigChange);
+      }
+
+      // Seed the issue templates on first use
+      if (!this._templates) {
+        this._templates = new IssueTemplateStore(this._nysFolder);
+        try {
+          await this._templates.ensureDefaults();
+        } catch (error) {
+          console.error('Failed to create issue templates:', error);
+        }
+      }
+
+      // MCP servers from .nys/config.json, started when an agent first needs a tool
+      if (!this._toolRegistry && this._serverApprovals) {
+        this._toolRegistry = new McpToolRegistry(this._config, this._serverApprovals, workspaceFolders[0].uri.fsPath);
+      }
+
       // Initialize SPARC workflow engine
-      this._sparcEngine = new SPARCWorkflowEngine(workspaceFolders[0].uri);
+      this._sparcEngine = new SPARCWorkflowEngine(workspaceFolders[0].uri, this._toolRegistry, this._modelProviders);
+
+      // Shows proposed fixes in the diff editor and applies the accepted ones
+      if (!this._fixReviewer) {
+        this._fixReviewer = new FixReviewer(workspaceFolders[0].uri);
+      }
+
+      // Live-sync external edits to the issue files
+      if (!this._fileSync) {
+        this._fileSync = new IssueFileSync(this._nysFolder);
+        this._fileSync.onDidChangeIssueFile(change => this.handleIssueFileChange(change));
+        this._fileSync.start();
+      }
+    }
+  }
+
+  public dispose(): void {
+    this._fileSync?.dispose();
+    this._fileSync = null;
+    this._githubClient?.dispose();
+    this._githubClient = null;
+    this._githubSync = null;
+    this._toolRegistry?.dispose();
+    this._toolRegistry = null;
+    this._configWatcher?.dispose();
+    this._configWatcher = null;
+    this._fixReviewer?.dispose();
+    this._fixReviewer = null;
+    // Stops the commands the workflows started
+    for (const controller of this._runningWorkflows.values()) {
+      controller.abort();
     }
+    this._runningWorkflows.clear();
   }
 
   private async loadIssues(): Promise<void> {
@@ -127,15 +293,20 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
       this._issues = [];
       for (const [fileName] of issueFiles) {
         const filePath = vscode.Uri.joinPath(this._nysFolder!, fileName);
-        const content = await vscode.workspace.fs.readFile(filePath);
-        const issue = this.parseIssueFromMarkdown(fileName, content.toString());
+        const content = (await vscode.workspace.fs.readFile(filePath)).toString();
+        this._fileSync?.recordSnapshot(filePath, content);
+        const issue = this.parseIssueFromMarkdown(fileName, content);
         if (issue) {
           this._issues.push(issue);
         }
       }
 
+      // Repair one-sided links from hand edits and re-derive blocked statuses
+      await this.refreshDependencies(syncIssueLinks(this._issues));
+
       // Sort by updated date (newest first)
       this._issues.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+      this._issuesLoaded = true;
 
       this.updateWebview();
     } catch (error) {
@@ -143,138 +314,289 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  private parseIssueFromMarkdown(fileName: string, content: string): Issue | null {
+  /**
+   * Load the issues if the sidebar has not done so yet (API callers may come first)
+   */
+  private async ensureIssuesLoaded(): Promise<void> {
+    if (!this._nysFolder) {
+      await this.initializeNysFolder();
+    }
+    if (!this._issuesLoaded) {
+      await this.loadIssues();
+    }
+  }
+
+  /**
+   * The loaded issue with this id. API callers pass ids that end up in
+   * .nys paths, so anything that is not a known issue is refused up front.
+   */
+  private async requireIssue(issueId: string): Promise<Issue> {
+    await this.ensureIssuesLoaded();
+    const issue = isPlainFileName(issueId) ? this._issues.find(i => i.id === issueId) : undefined;
+    if (!issue) {
+      throw new Error(`Issue ${issueId} not found`);
+    }
+    return issue;
+  }
+
+  /**
+   * All issues, or those matching a query in the sidebar's query syntax
+   */
+  public async getIssues(query?: string): Promise<Issue[]> {
+    await this.ensureIssuesLoaded();
+    if (!query || !query.trim()) {
+      return this._issues;
+    }
+
+    const parsed = parseIssueQuery(query);
+    if (parsed.errors.length > 0) {
+      throw new Error(parsed.errors.join('; '));
+    }
+    if (hasTextTerms(parsed)) {
+      await this.loadArtifactText();
+    }
+    return filterIssues(this._issues, parsed, id => this._artifactText.get(id) || '');
+  }
+
+  /**
+   * Run the SPARC workflow for an issue, as a chat message in the sidebar does
+   */
+  public async runWorkflow(issueId: string, mode: IssueMode, input: string): Promise<SPARCWorkflowState> {
+    const issue = await this.requireIssue(issueId);
+    if (!this._sparcEngine) {
+      throw new Error('SPARC workflow engine is not initialized');
+    }
+    if (this._runningWorkflows.has(issue.id)) {
+      throw new Error(`A workflow is already running for issue ${issue.id}`);
+    }
+
+    const controller = this.startWorkflowRun(issue.id);
     try {
-      const lines = content.split('\n');
-      const id = fileName.replace('.md', '');
-      
-      // Extract metadata from frontmatter or first few lines
-      let title = id;
-      let description = '';
-      let mode: 'design' | 'build' | 'debug' = 'design';
-      let status: 'open' | 'in-progress' | 'completed' | 'blocked' = 'open';
-      let todos: Todo[] = [];
-      let createdAt = new Date();
-      let updatedAt = new Date();
-
-      // Parse frontmatter if present
-      if (content.startsWith('---')) {
-        const frontmatterEnd = content.indexOf('---', 3);
-        if (frontmatterEnd > 0) {
-          const frontmatter = content.substring(3, frontmatterEnd);
-          const metadata = this.parseFrontmatter(frontmatter);
-          title = metadata.title || id;
-          mode = metadata.mode || 'design';
-          status = metadata.status || 'open';
-          createdAt = metadata.createdAt ? new Date(metadata.createdAt) : new Date();
-          updatedAt = metadata.updatedAt ? new Date(metadata.updatedAt) : new Date();
-          description = content.substring(frontmatterEnd + 3).trim();
-        }
-      } else {
-        // Parse first line as title if no frontmatter
-        const firstLine = lines[0];
-        if (firstLine && !firstLine.startsWith('#')) {
-          title = firstLine;
-          description = lines.slice(1).join('\n').trim();
-        } else {
-          description = content;
-        }
-      }
+      return await this._sparcEngine.processIssue(issue.id, mode, input, { ...(await this.getWorkflowOptions(issue)), signal: controller.signal });
+    } finally {
+      this.endWorkflowRun(issue.id, controller);
+    }
+  }
 
-      // Extract TODOs from content
-      todos = this.extractTodosFromContent(content);
+  /**
+   * Stop the workflow running for an issue. Returns false if none is running.
+   */
+  public cancelWorkflow(issueId: string): boolean {
+    const controller = this._runningWorkflows.get(issueId);
+    if (!controller) return false;
 
-      return {
-        id,
-        title,
-        description,
-        mode,
-        status,
-        todos,
-        createdAt,
-        updatedAt,
-        filePath: vscode.Uri.joinPath(this._nysFolder!, fileName).fsPath
-      };
+    console.log(`[IssueView] Cancelling workflow for ${issueId}`);
+    controller.abort();
+    return true;
+  }
+
+  /**
+   * Cancel a running workflow, asking which one if several are running
+   */
+  public async promptCancelWorkflow(): Promise<void> {
+    const running = Array.from(this._runningWorkflows.keys());
+    if (running.length === 0) {
+      vscode.window.showInformationMessage('No workflow is running');
+      return;
+    }
+
+    let issueId: string | undefined = running[0];
+    if (running.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        running.map(id => ({ label: this._issues.find(issue => issue.id === id)?.title || id, description: id, issueId: id })),
+        { placeHolder: 'Select the workflow to cancel' }
+      );
+      issueId = picked?.issueId;
+    }
+
+    if (issueId && this.cancelWorkflow(issueId)) {
+      vscode.window.showInformationMessage('Workflow cancelled. Send another message to resume it.');
+    }
+  }
+
+  public async getWorkflowState(issueId: string): Promise<SPARCWorkflowState | null> {
+    const issue = await this.requireIssue(issueId);
+    return this._sparcEngine ? this._sparcEngine.getWorkflowState(issue.id) : null;
+  }
+
+  /**
+   * Names of the artifact files under .nys/<issueId>/
+   */
+  public async listArtifacts(issueId: string): Promise<string[]> {
+    const issue = await this.requireIssue(issueId);
+    if (!this._nysFolder) return [];
+    try {
+      const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.joinPath(this._nysFolder, issue.id));
+      return entries.filter(([, type]) => type === vscode.FileType.File).map(([name]) => name).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Read an artifact file; `name` may omit the `.md` extension
+   */
+  public async getArtifact(issueId: string, name: string): Promise<string> {
+    if (!isPlainFileName(name)) {
+      throw new Error(`Invalid artifact name "${name}"`);
+    }
+    const artifacts = await this.listArtifacts(issueId);
+    const fileName = artifacts.find(artifact => artifact === name || artifact === `${name}.md`);
+    if (!fileName || !this._nysFolder) {
+      throw new Error(`Artifact "${name}" not found for ${issueId}` + (artifacts.length > 0 ? ` (available: ${artifacts.join(', ')})` : ''));
+    }
+
+    const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this._nysFolder, issueId, fileName));
+    return Buffer.from(content).toString('utf8');
+  }
+
+  private parseIssueFromMarkdown(fileName: string, content: string): Issue | null {
+    try {
+      const id = fileName.replace('.md', '');
+      const filePath = vscode.Uri.joinPath(this._nysFolder!, fileName).fsPath;
+      return parseIssueMarkdown(id, filePath, content);
     } catch (error) {
       console.error(`Failed to parse issue ${fileName}:`, error);
       return null;
     }
   }
 
-  private parseFrontmatter(frontmatter: string): any {
-    const metadata: any = {};
-    const lines = frontmatter.split('\n');
-    
-    for (const line of lines) {
-      const match = line.match(/^(\w+):\s*(.+)$/);
-      if (match) {
-        const [, key, value] = match;
-        metadata[key] = value.trim();
-      }
+  /**
+   * List the templates in `.nys/templates`
+   */
+  public async getIssueTemplates(): Promise<IssueTemplate[]> {
+    if (!this._templates) {
+      await this.initializeNysFolder();
     }
-    
-    return metadata;
+    return this._templates ? this._templates.list() : [];
   }
 
-  private extractTodosFromContent(content: string): Todo[] {
-    const todos: Todo[] = [];
-    const lines = content.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const todoMatch = line.match(/^(\s*)- \[([ x])\]\s*(.+)$/);
-      if (todoMatch) {
-        const [, indent, checked, content] = todoMatch;
-        todos.push({
-          id: `todo-${i}`,
-          content: content.trim(),
-          completed: checked === 'x',
-          createdAt: new Date()
-        });
-      }
+  /**
+   * Ask for a template, title, description and any template placeholders, then create the issue
+   */
+  public async promptCreateIssue(): Promise<void> {
+    const templates = await this.getIssueTemplates();
+
+    let template: IssueTemplate | undefined;
+    if (templates.length > 0) {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: 'Blank issue', description: 'design', detail: 'Start from an empty issue', template: undefined },
+          ...templates.map(t => ({ label: t.name, description: t.mode, detail: t.about, template: t }))
+        ],
+        { placeHolder: 'Choose an issue template' }
+      );
+      if (!picked) return;
+      template = picked.template;
     }
-    
-    return todos;
+
+    const title = await vscode.window.showInputBox({
+      prompt: 'Issue Title',
+      placeHolder: 'Enter a descriptive title for your issue'
+    });
+    if (!title) return;
+
+    const description = await vscode.window.showInputBox({
+      prompt: 'Issue Description',
+      placeHolder: 'Describe the issue, requirements, and design considerations'
+    }) || '';
+
+    const values: Record<string, string> = {};
+    for (const name of template ? template.placeholders : []) {
+      const value = await vscode.window.showInputBox({ prompt: `${template!.name}: ${name}`, placeHolder: name });
+      if (value === undefined) return;
+      values[name] = value;
+    }
+
+    await this.createIssue(title, description, { templateId: template?.id, values });
   }
 
-  public async createIssue(title: string, description: string): Promise<void> {
+  public async createIssue(
+    title: string,
+    description: string,
+    options: { templateId?: string; values?: Record<string, string> } = {}
+  ): Promise<Issue | undefined> {
     try {
+      const issue = await this.addIssue(title, description, options);
+      vscode.window.showInformationMessage(`Created issue: ${issue.title}`);
+      return issue;
+    } catch (error) {
+      console.error('Error creating issue:', error);
+      vscode.window.showErrorMessage(`Failed to create issue: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Create and save an issue, optionally from a template; throws on failure
+   */
+  public async addIssue(
+    title: string,
+    description: string,
+    options: { templateId?: string; values?: Record<string, string> } = {}
+  ): Promise<Issue> {
+    if (!this._nysFolder) {
+      await this.initializeNysFolder();
       if (!this._nysFolder) {
-        await this.initializeNysFolder();
-        if (!this._nysFolder) {
-          vscode.window.showErrorMessage('No workspace folder found');
-          return;
-        }
+        throw new Error('No workspace folder found');
       }
+    }
+    await this.ensureIssuesLoaded();
 
-      const id = `issue-${Date.now()}`;
-      const fileName = `${id}.md`;
-      const filePath = vscode.Uri.joinPath(this._nysFolder, fileName);
-      
-      const issue: Issue = {
-        id,
+    const id = this.newIssueId();
+    const fileName = `${id}.md`;
+    const filePath = vscode.Uri.joinPath(this._nysFolder, fileName);
+    
+    let issue: Issue = {
+      id,
+      title,
+      description,
+      mode: 'design',
+      status: 'open',
+      todos: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      filePath: filePath.fsPath,
+      labels: [],
+      blocks: [],
+      blockedBy: [],
+      relatesTo: [],
+      customFields: {}
+    };
+
+    if (options.templateId) {
+      const template = await this._templates?.get(options.templateId);
+      if (!template) {
+        throw new Error(`Template "${options.templateId}" not found in .nys/templates`);
+      }
+
+      const content = renderIssueTemplate(template, {
+        workspace: vscode.workspace.workspaceFolders?.[0].name || '',
+        ...options.values,
         title,
-        description,
-        mode: 'design',
-        status: 'open',
-        todos: [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        filePath: filePath.fsPath
-      };
-
-      const content = this.generateIssueMarkdown(issue);
-      await vscode.workspace.fs.writeFile(filePath, Buffer.from(content, 'utf8'));
-      
-      this._issues.unshift(issue);
-      this._currentIssue = issue;
-      this.updateWebview();
-      
-      vscode.window.showInformationMessage(`Created issue: ${title}`);
-    } catch (error) {
-      console.error('Error creating issue:', error);
-      vscode.window.showErrorMessage(`Failed to create issue: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        description
+      });
+      issue = parseIssueMarkdown(id, filePath.fsPath, content);
     }
+
+    await this.writeIssueFile(issue);
+    
+    this._issues.unshift(issue);
+    this._currentIssue = issue;
+    this.updateWebview();
+    return issue;
+  }
+
+  /**
+   * A timestamped id no other issue has; the random part keeps two issues
+   * created in the same millisecond apart
+   */
+  private newIssueId(): string {
+    let id: string;
+    do {
+      id = `issue-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
+    } while (this._issues.some(issue => issue.id === id) || (this._nysFolder && fs.existsSync(vscode.Uri.joinPath(this._nysFolder, `${id}.md`).fsPath)));
+    return id;
   }
 
   private async selectIssue(issueId: string): Promise<void> {
@@ -289,45 +611,465 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     if (!this._currentIssue) return;
 
     this._currentIssue.mode = mode;
+    delete this._currentIssue.customFields.mode;
     this._currentIssue.updatedAt = new Date();
     await this.saveIssue(this._currentIssue);
     this.updateWebview();
   }
 
-  private async updateIssue(issueId: string, updates: Partial<Issue>): Promise<void> {
+  public async updateIssue(issueId: string, updates: Partial<Issue>): Promise<Issue | undefined> {
+    await this.ensureIssuesLoaded();
     const issue = this._issues.find(i => i.id === issueId);
-    if (!issue) return;
+    if (!issue) return undefined;
+
+    // Changed on a copy, so a failed save leaves the issue as it is on disk
+    const updated: Issue = { ...issue, ...updates, updatedAt: new Date() };
+    // A value set here replaces one the file had that Mira did not recognize
+    updated.customFields = { ...updated.customFields };
+    for (const key of ['mode', 'status', 'priority'] as const) {
+      if (key in updates) delete updated.customFields[key];
+    }
+    await this.saveIssue(updated);
+    Object.assign(issue, updated);
 
-    Object.assign(issue, updates);
-    issue.updatedAt = new Date();
-    await this.saveIssue(issue);
+    // A status or link change may block or unblock other issues
+    await this.refreshDependencies(syncIssueLinks(this._issues, issue));
+    this.updateWebview();
+    return issue;
+  }
+
+  /**
+   * Link two issues (`fromId` blocks / is blocked by / relates to `toId`)
+   */
+  public async linkIssues(fromId: string, toId: string, kind: IssueLinkKind): Promise<void> {
+    try {
+      const changed = linkIssues(this._issues, fromId, toId, kind);
+      changed.forEach(issue => issue.updatedAt = new Date());
+      await this.refreshDependencies(changed);
+      this.updateWebview();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to link issues: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove every link between two issues
+   */
+  public async unlinkIssues(fromId: string, toId: string): Promise<void> {
+    const changed = unlinkIssues(this._issues, fromId, toId);
+    changed.forEach(issue => issue.updatedAt = new Date());
+    await this.refreshDependencies(changed);
+    this.updateWebview();
+  }
+
+  /**
+   * Filter the sidebar with a query (see storage/issueQuery.ts)
+   */
+  private async setQuery(query: string): Promise<void> {
+    this._query = (query || '').trim();
+
+    // Full-text terms also search the artifact files; re-read them for every new query
+    if (hasTextTerms(parseIssueQuery(this._query))) {
+      await this.loadArtifactText();
+    }
     this.updateWebview();
   }
 
-  private async addTodo(issueId: string, content: string): Promise<void> {
+  /**
+   * Save a query as a named quick view in .nys/config.json
+   */
+  private async saveFilter(query: string): Promise<void> {
+    if (!this._config || !query.trim()) return;
+
+    const existing = this._savedFilters.find(f => f.query === query.trim());
+    const name = await vscode.window.showInputBox({
+      prompt: 'Name for this filter',
+      placeHolder: 'e.g. Backend in progress',
+      value: existing ? existing.name : ''
+    });
+    if (!name) return;
+
+    try {
+      this._savedFilters = await this._config.saveFilter({ name: name.trim(), query: query.trim() });
+      this.updateWebview();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save filter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async deleteFilter(name: string): Promise<void> {
+    if (!this._config) return;
+
+    try {
+      this._savedFilters = await this._config.deleteFilter(name);
+      this.updateWebview();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to delete filter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read the artifact files under .nys/<issueId>/ for full-text search
+   */
+  private async loadArtifactText(): Promise<void> {
+    if (!this._nysFolder) return;
+
+    const artifactText = new Map<string, string>();
+    for (const issue of this._issues) {
+      const folder = vscode.Uri.joinPath(this._nysFolder, issue.id);
+      try {
+        const entries = await vscode.workspace.fs.readDirectory(folder);
+        const parts: string[] = [];
+        for (const [name, type] of entries) {
+          if (type !== vscode.FileType.File) continue;
+          const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, name));
+          parts.push(Buffer.from(content).toString('utf8'));
+        }
+        artifactText.set(issue.id, parts.join('\n'));
+      } catch {
+        // No artifacts yet
+      }
+    }
+    this._artifactText = artifactText;
+  }
+
+  /**
+   * Ids of the issues matching the current query, or null when unfiltered
+   */
+  private getVisibleIssueIds(): { ids: string[] | null; errors: string[] } {
+    if (!this._query) {
+      return { ids: null, errors: [] };
+    }
+
+    const query = parseIssueQuery(this._query);
+    const visible = filterIssues(this._issues, query, id => this._artifactText.get(id) || '');
+    return { ids: visible.map(issue => issue.id), errors: query.errors };
+  }
+
+  /**
+   * Sync an issue (default: the current one) with GitHub, creating the GitHub issue if needed
+   */
+  public async syncWithGitHub(issueId?: string): Promise<void> {
+    const issue = issueId ? this._issues.find(i => i.id === issueId) : this._currentIssue;
+    if (!issue) {
+      vscode.window.showWarningMessage('Select an issue to sync with GitHub');
+      return;
+    }
+    await this.syncIssuesWithGitHub([issue]);
+  }
+
+  /**
+   * Restart the MCP servers from .nys/config.json and show the tools agents can call
+   */
+  public async showMcpTools(): Promise<void> {
+    if (!this._toolRegistry) {
+      await this.initializeNysFolder();
+    }
+    if (!this._toolRegistry) {
+      vscode.window.showErrorMessage('No workspace folder found');
+      return;
+    }
+
+    this._toolRegistry.reload();
+    const tools = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Starting MCP servers…' },
+      () => this._toolRegistry!.listTools()
+    );
+
+    if (tools.length === 0) {
+      vscode.window.showInformationMessage('No MCP tools found. Add servers under "mcpServers" in .nys/config.json.');
+      return;
+    }
+
+    await vscode.window.showQuickPick(
+      tools.map(tool => ({
+        label: `${tool.allowed ? '$(check)' : '$(circle-slash)'} ${tool.qualifiedName}`,
+        description: tool.allowed ? '' : 'blocked by server policy',
+        detail: tool.description
+      })),
+      { placeHolder: `${tools.filter(tool => tool.allowed).length} of ${tools.length} MCP tools available to agents` }
+    );
+  }
+
+  /**
+   * Set, replace or clear the API keys in VS Code secret storage: the
+   * providers' own, and one for each custom endpoint a model uses
+   */
+  public async manageApiKeys(): Promise<void> {
+    if (!this._apiKeys) return;
+    const apiKeys = this._apiKeys;
+
+    const targets: { id: KeyId; label: string }[] = CREDENTIALS.map(info => ({ id: info.id, label: info.label }));
+    const models = this._modelProviders ? await this._modelProviders.listModels() : {};
+    for (const model of Object.values(models)) {
+      const endpoint = model.provider === 'mock' || model.apiKeyEnv ? undefined : customEndpoint(model);
+      if (endpoint && !targets.some(target => target.id === endpointKeyId(endpoint))) {
+        targets.push({ id: endpointKeyId(endpoint), label: endpoint });
+      }
+    }
+
+    const credential = await vscode.window.showQuickPick(
+      await Promise.all(targets.map(async info => ({ label: info.label, description: await apiKeys.describe(info.id), info }))),
+      { placeHolder: 'Select the key to manage' }
+    );
+    if (!credential) return;
+
+    const stored = !!(await apiKeys.getStored(credential.info.id));
+    const action = await vscode.window.showQuickPick(
+      stored
+        ? [{ label: 'Replace', description: 'Rotate to a new key', action: 'set' }, { label: 'Clear', description: 'Remove the stored key', action: 'clear' }]
+        : [{ label: 'Set', description: 'Store a key in secret storage', action: 'set' }],
+      { placeHolder: `${credential.info.label} key: ${credential.description}` }
+    );
+    if (!action) return;
+
+    if (action.action === 'clear') {
+      const confirm = await vscode.window.showWarningMessage(`Clear the stored ${credential.info.label} key?`, { modal: true }, 'Clear');
+      if (confirm !== 'Clear') return;
+      await apiKeys.delete(credential.info.id);
+      vscode.window.showInformationMessage(`${credential.info.label} key cleared`);
+      return;
+    }
+
+    const value = await vscode.window.showInputBox({
+      prompt: `${credential.info.label} key`,
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: input => input.trim() === '' ? 'Enter a key' : /\s/.test(input.trim()) ? 'Keys cannot contain spaces' : undefined
+    });
+    if (value === undefined) return;
+
+    await apiKeys.set(credential.info.id, value);
+    vscode.window.showInformationMessage(`${credential.info.label} key ${stored ? 'replaced' : 'saved'} in secret storage`);
+  }
+
+  /**
+   * Write the built-in prompts to .nys/prompts so the team can edit them
+   */
+  public async createPromptTemplates(): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage('Open a workspace folder to create prompt templates');
+      return;
+    }
+
+    try {
+      const created = await new PromptTemplateStore(workspaceFolder.uri).scaffold();
+      if (created.length === 0) {
+        vscode.window.showInformationMessage('All prompt templates already exist in .nys/prompts');
+        return;
+      }
+      const choice = await vscode.window.showInformationMessage(`Created ${created.length} prompt template(s) in .nys/prompts`, 'Open');
+      if (choice === 'Open') {
+        await vscode.window.showTextDocument(created[0]);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to create prompt templates: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Sync every issue that is already linked to GitHub
+   */
+  public async syncAllWithGitHub(): Promise<void> {
+    const linked = this._issues.filter(i => i.github);
+    if (linked.length === 0) {
+      vscode.window.showInformationMessage('No issues are linked to GitHub yet. Sync an issue to create its GitHub issue.');
+      return;
+    }
+    await this.syncIssuesWithGitHub(linked);
+  }
+
+  private async syncIssuesWithGitHub(issues: Issue[]): Promise<void> {
+    const sync = await this.getGitHubSync();
+    if (!sync) return;
+
+    let repository = '';
+    if (issues.some(i => !i.github)) {
+      repository = await this.getGitHubRepository() || '';
+      if (!repository) return;
+    }
+
+    const summaries: string[] = [];
+    const failures: string[] = [];
+
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Syncing with GitHub' },
+      async progress => {
+        for (const issue of issues) {
+          progress.report({ message: issue.title });
+          try {
+            const result = await sync.sync(issue, repository, (i, field, local, remote) => this.resolveGitHubConflict(i, field, local, remote));
+            await this.saveIssue(issue);
+
+            const ref = `#${issue.github!.number}`;
+            if (result.created) {
+              summaries.push(`created ${ref}`);
+            } else if (result.pushed.length + result.pulled.length + result.newComments > 0) {
+              summaries.push(`${ref}: ${[
+                result.pushed.length > 0 ? `pushed ${result.pushed.join(', ')}` : '',
+                result.pulled.length > 0 ? `pulled ${result.pulled.join(', ')}` : '',
+                result.newComments > 0 ? `${result.newComments} new comment(s)` : ''
+              ].filter(Boolean).join('; ')}`);
+            }
+          } catch (error) {
+            console.error(`[IssueViewProvider] GitHub sync failed for ${issue.id}:`, error);
+            failures.push(`${issue.title}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+    );
+
+    // A pulled close or reopen can block or unblock other issues
+    await this.refreshDependencies();
+    this.updateWebview();
+
+    if (failures.length > 0) {
+      vscode.window.showErrorMessage(`GitHub sync failed for ${failures.join('; ')}`);
+    }
+    if (summaries.length > 0) {
+      vscode.window.showInformationMessage(`GitHub sync: ${summaries.join(', ')}`);
+    } else if (failures.length === 0) {
+      vscode.window.showInformationMessage('GitHub sync: already up to date');
+    }
+  }
+
+  /**
+   * Start the GitHub MCP server configured in .nys/config.json (or the docker
+   * default). The token is handed over only in a trusted workspace, and to a
+   * configured command only once the user has allowed it.
+   */
+  private async getGitHubSync(): Promise<GitHubIssueSync | null> {
+    if (this._githubSync) return this._githubSync;
+
+    if (!this._nysFolder || !this._config) {
+      await this.initializeNysFolder();
+    }
+    if (!this._nysFolder || !this._config) {
+      vscode.window.showErrorMessage('No workspace folder found');
+      return null;
+    }
+
+    if (!vscode.workspace.isTrusted) {
+      vscode.window.showErrorMessage('GitHub sync needs a trusted workspace');
+      return null;
+    }
+
+    this._config.invalidate();
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+    const configured = await this._config.getMcpServer('github');
+    const server = configured ? { ...configured, cwd: configured.cwd || workspaceRoot } : { ...DEFAULT_GITHUB_MCP_SERVER, cwd: workspaceRoot };
+    if (configured && !(this._serverApprovals && await this._serverApprovals.approve('github', server))) {
+      vscode.window.showErrorMessage('GitHub sync needs the github MCP server in .nys/config.json to be allowed');
+      return null;
+    }
+    const env = { ...(server.env || {}) };
+
+    const storedToken = this._apiKeys ? await this._apiKeys.getStored('github') : undefined;
+    if (!env.GITHUB_PERSONAL_ACCESS_TOKEN && storedToken) {
+      env.GITHUB_PERSONAL_ACCESS_TOKEN = storedToken;
+    }
+
+    if (!env.GITHUB_PERSONAL_ACCESS_TOKEN && !process.env.GITHUB_PERSONAL_ACCESS_TOKEN) {
+      const token = await vscode.window.showInputBox({
+        prompt: 'GitHub personal access token for the GitHub MCP server (not saved; use "Mira: Manage API Keys" to store one)',
+        placeHolder: 'Leave empty for servers that do not need a token',
+        password: true,
+        ignoreFocusOut: true
+      });
+      if (token === undefined) return null;
+      if (token) env.GITHUB_PERSONAL_ACCESS_TOKEN = token;
+    }
+
+    this._githubClient = new McpStdioClient('github', { ...server, env });
+    this._githubSync = new GitHubIssueSync(this._githubClient, this._nysFolder);
+    return this._githubSync;
+  }
+
+  /**
+   * The repository new GitHub issues are created in: the `mira.github.repository`
+   * setting, else the workspace's GitHub `origin` remote, else ask
+   */
+  private async getGitHubRepository(): Promise<string | undefined> {
+    const configured = vscode.workspace.getConfiguration('mira').get<string>('github.repository', '').trim();
+    if (configured) return configured;
+
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+    const remoteUrl = await new Promise<string>(resolve => {
+      execFile('git', ['config', '--get', 'remote.origin.url'], { cwd: workspaceRoot }, (error, stdout) => resolve(error ? '' : stdout.trim()));
+    });
+    const match = remoteUrl.match(/github\.com[:/]([\w.-]+)\/([\w.-]+?)(?:\.git)?$/);
+
+    return vscode.window.showInputBox({
+      prompt: 'GitHub repository for new issues (owner/name)',
+      value: match ? `${match[1]}/${match[2]}` : '',
+      validateInput: value => /^[\w.-]+\/[\w.-]+$/.test(value.trim()) ? null : 'Expected owner/name'
+    });
+  }
+
+  private async resolveGitHubConflict(issue: Issue, field: SyncField, local: string, remote: string): Promise<ConflictChoice> {
+    const policy = vscode.workspace.getConfiguration('mira').get<string>('github.conflictPolicy', 'ask');
+    if (policy === 'preferLocal') return 'local';
+    if (policy === 'preferGitHub') return 'remote';
+
+    const preview = (value: string) => value.length > 300 ? `${value.substring(0, 300)}…` : value;
+    const choice = await vscode.window.showWarningMessage(
+      `"${issue.title}": the ${field} changed both in Mira and on GitHub.`,
+      { modal: true, detail: `Mira:\n${preview(local)}\n\nGitHub:\n${preview(remote)}` },
+      'Keep Mira',
+      'Use GitHub'
+    );
+
+    if (choice === 'Keep Mira') return 'local';
+    if (choice === 'Use GitHub') return 'remote';
+    return 'skip';
+  }
+
+  /**
+   * Re-derive the automatic blocked status and save every issue that changed
+   */
+  private async refreshDependencies(changed: Issue[] = []): Promise<void> {
+    const toSave = new Set(changed);
+    for (const issue of applyBlockingStatus(this._issues)) {
+      console.log(`[IssueViewProvider] ${issue.id} is now ${issue.status}`);
+      issue.updatedAt = new Date();
+      toSave.add(issue);
+    }
+
+    for (const issue of toSave) {
+      await this.saveIssue(issue);
+    }
+  }
+
+  public async addTodo(issueId: string, content: string, parentTodoId?: string): Promise<Todo | undefined> {
+    await this.ensureIssuesLoaded();
     const issue = this._issues.find(i => i.id === issueId);
-    if (!issue) return;
+    if (!issue) return undefined;
 
-    const todo: Todo = {
-      id: `todo-${Date.now()}`,
-      content,
-      completed: false,
-      createdAt: new Date()
-    };
+    const todo = createTodo(content);
+    const parent = parentTodoId ? findTodo(issue.todos, parentTodoId) : undefined;
+    if (parentTodoId && !parent) {
+      throw new Error(`Todo ${parentTodoId} not found in issue ${issueId}`);
+    }
 
-    issue.todos.push(todo);
+    if (parent) {
+      parent.children.push(todo);
+      rollUpCompletion(issue.todos);
+    } else {
+      issue.todos.push(todo);
+    }
     issue.updatedAt = new Date();
     await this.saveIssue(issue);
     this.updateWebview();
+    return todo;
   }
 
   private async toggleTodo(issueId: string, todoId: string): Promise<void> {
     const issue = this._issues.find(i => i.id === issueId);
     if (!issue) return;
 
-    const todo = issue.todos.find(t => t.id === todoId);
-    if (todo) {
-      todo.completed = !todo.completed;
+    const todo = findTodo(issue.todos, todoId);
+    if (todo && setTodoCompleted(issue.todos, todoId, !todo.completed)) {
       issue.updatedAt = new Date();
       await this.saveIssue(issue);
       this.updateWebview();
@@ -338,7 +1080,8 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     const issue = this._issues.find(i => i.id === issueId);
     if (!issue) return;
 
-    issue.todos = issue.todos.filter(t => t.id !== todoId);
+    issue.todos = removeTodo(issue.todos, todoId);
+    rollUpCompletion(issue.todos);
     issue.updatedAt = new Date();
     await this.saveIssue(issue);
     this.updateWebview();
@@ -370,6 +1113,70 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     await this.addTodo(issueId, 'Build project and verify output');
   }
 
+  /**
+   * Open a workspace file cited in the chat, at the cited line
+   */
+  private async openLocation(file: string, line: number, column?: number): Promise<void> {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+    if (!root || !file || path.isAbsolute(file) || file.split(/[\\/]/).includes('..')) return;
+
+    let uri = vscode.Uri.joinPath(root, file);
+    try {
+      await vscode.workspace.fs.stat(uri);
+    } catch {
+      // Test runners often print paths relative to a package folder
+      const [match] = await vscode.workspace.findFiles(new vscode.RelativePattern(root, `**/${file}`), '**/node_modules/**', 1);
+      if (!match) {
+        vscode.window.showWarningMessage(`${file} was not found in the workspace`);
+        return;
+      }
+      uri = match;
+    }
+
+    const position = new vscode.Position(Math.max(0, line - 1), Math.max(0, (column || 1) - 1));
+    await vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position), preview: true });
+  }
+
+  /**
+   * Open a proposed fix in the diff editor, with the hunks ticked in the sidebar
+   */
+  private async previewFix(issueId: string, file: string, hunkIds: string[]): Promise<void> {
+    const state = await this.getWorkflowState(issueId);
+    const fix = state?.proposedFixes?.find(proposed => proposed.path === file);
+    if (!fix || !this._fixReviewer) return;
+    await this._fixReviewer.preview(fix, hunkIds);
+  }
+
+  /**
+   * Apply the fix hunks the user accepted and reject the rest, then report
+   * the re-run build and tests. Stop cancels the re-run; applied fixes stay.
+   */
+  private async reviewFixes(issueId: string, hunkIds: string[], comment?: string): Promise<void> {
+    const state = await this.getWorkflowState(issueId);
+    if (!state?.proposedFixes || !this._fixReviewer || !this._sparcEngine) return;
+    if (this._runningWorkflows.has(issueId)) {
+      vscode.window.showWarningMessage('Wait for the running workflow to finish before applying fixes.');
+      return;
+    }
+
+    const controller = this.startWorkflowRun(issueId);
+    let content: string;
+    try {
+      const outcome = await this._fixReviewer.review(state.proposedFixes, hunkIds, comment?.trim() || undefined);
+      const verification = await this._sparcEngine.recordFixReview(issueId, outcome, controller.signal);
+      content = this.formatFixReview(outcome, verification);
+    } catch (error) {
+      content = error instanceof WorkflowCancelledError
+        ? '⏹ **Fix check cancelled.** The applied fixes stay in place; run the build and tests to check them.'
+        : `❌ Failed to apply the fixes: ${error instanceof Error ? error.message : error}`;
+    } finally {
+      this.endWorkflowRun(issueId, controller);
+    }
+
+    await this._chatMemory?.append(issueId, 'assistant', content, { mode: 'debug' });
+    this._view?.webview.postMessage({ type: 'assistantResponse', content });
+  }
+
   public async collectLogs(issueId: string): Promise<void> {
     const issue = this._issues.find(i => i.id === issueId);
     if (!issue) return;
@@ -382,30 +1189,138 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
   }
 
   private async saveIssue(issue: Issue): Promise<void> {
+    const filePath = vscode.Uri.file(issue.filePath);
+
+    // Never clobber a file that changed on disk since we last read it
+    if (this._fileSync) {
+      const { changed, diskContent } = await this._fileSync.hasExternalChange(filePath);
+      if (changed && diskContent !== null) {
+        const shouldWrite = await this.resolveSaveConflict(issue, diskContent);
+        if (!shouldWrite) return;
+      }
+    }
+
+    await this.writeIssueFile(issue);
+  }
+
+  private async writeIssueFile(issue: Issue): Promise<void> {
     const content = this.generateIssueMarkdown(issue);
     const filePath = vscode.Uri.file(issue.filePath);
+    this._fileSync?.recordSnapshot(filePath, content);
     await vscode.workspace.fs.writeFile(filePath, Buffer.from(content, 'utf8'));
   }
 
+  /**
+   * Ask the user how to reconcile an in-memory issue with a newer file on disk.
+   * Updates `issue` in place and returns whether it should be written.
+   */
+  private async resolveSaveConflict(issue: Issue, diskContent: string): Promise<boolean> {
+    const fileName = path.basename(issue.filePath);
+    const filePath = vscode.Uri.file(issue.filePath);
+    const diskIssue = this.parseIssueFromMarkdown(fileName, diskContent);
+    const snapshot = this._fileSync?.getSnapshot(filePath);
+    const baseIssue = snapshot !== undefined ? this.parseIssueFromMarkdown(fileName, snapshot) : null;
+
+    if (!diskIssue) {
+      return true;
+    }
+
+    const merge = baseIssue ? mergeIssues(baseIssue, issue, diskIssue) : null;
+    const mergeLabel = merge && merge.conflicts.length > 0 ? 'Merge (Keep Mine on Conflicts)' : 'Merge';
+    const detail = merge && merge.conflicts.length > 0
+      ? `Both versions changed: ${merge.conflicts.join(', ')}.`
+      : 'The changes do not overlap and can be merged.';
+
+    const options = merge ? [mergeLabel, 'Keep Mine', 'Use File', 'Compare'] : ['Keep Mine', 'Use File', 'Compare'];
+
+    while (true) {
+      const choice = await vscode.window.showWarningMessage(
+        `"${issue.title}" was changed on disk since Mira loaded it.`,
+        { modal: true, detail },
+        ...options
+      );
+
+      if (choice === 'Compare') {
+        const mine = await vscode.workspace.openTextDocument({
+          content: this.generateIssueMarkdown(issue),
+          language: 'markdown'
+        });
+        await vscode.commands.executeCommand('vscode.diff', filePath, mine.uri, `${fileName} (on disk) ↔ Mira`);
+        continue;
+      }
+
+      if (choice === mergeLabel && merge) {
+        Object.assign(issue, merge.merged);
+        return true;
+      }
+
+      if (choice === 'Keep Mine') {
+        return true;
+      }
+
+      if (choice === 'Use File') {
+        Object.assign(issue, diskIssue);
+        this._fileSync?.recordSnapshot(filePath, diskContent);
+        this.updateWebview();
+        return false;
+      }
+
+      // Dismissed: keep the in-memory changes unsaved, ask again on the next save
+      vscode.window.showInformationMessage(`Changes to "${issue.title}" were not saved.`);
+      return false;
+    }
+  }
+
+  /**
+   * Incrementally apply an external change to a single issue file
+   */
+  private async handleIssueFileChange(change: IssueFileChange): Promise<void> {
+    if (!this._fileSync) return;
+
+    const fileName = path.basename(change.uri.fsPath);
+    const id = fileName.replace(/\.md$/, '');
+
+    if (change.kind === 'deleted') {
+      this._fileSync.forgetSnapshot(change.uri);
+      this._issues = this._issues.filter(i => i.id !== id);
+      if (this._currentIssue?.id === id) {
+        this._currentIssue = null;
+      }
+      await this.refreshDependencies(removeIssueLinks(this._issues, id));
+      this.updateWebview();
+      return;
+    }
+
+    const content = await this._fileSync.readDiskContent(change.uri);
+    if (content === null || content === this._fileSync.getSnapshot(change.uri)) {
+      // Gone again, or our own write
+      return;
+    }
+
+    const updated = this.parseIssueFromMarkdown(fileName, content);
+    if (!updated) return;
+
+    this._fileSync.recordSnapshot(change.uri, content);
+
+    let issue = this._issues.find(i => i.id === id);
+    if (issue) {
+      // Update in place so references held by in-flight operations stay valid
+      Object.assign(issue, updated);
+    } else {
+      issue = updated;
+      this._issues.push(issue);
+    }
+
+    // The edited file is authoritative for its own links
+    await this.refreshDependencies(syncIssueLinks(this._issues, issue));
+
+    this._issues.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    console.log(`[IssueViewProvider] Reloaded ${fileName} after external ${change.kind}`);
+    this.updateWebview();
+  }
+
   private generateIssueMarkdown(issue: Issue): string {
-    const frontmatter = [
-      '---',
-      `title: ${issue.title}`,
-      `mode: ${issue.mode}`,
-      `status: ${issue.status}`,
-      `createdAt: ${issue.createdAt.toISOString()}`,
-      `updatedAt: ${issue.updatedAt.toISOString()}`,
-      '---',
-      ''
-    ].join('\n');
-
-    const todosSection = issue.todos.length > 0 
-      ? '\n## TODOs\n\n' + issue.todos.map(todo => 
-          `- [${todo.completed ? 'x' : ' '}] ${todo.content}`
-        ).join('\n') + '\n'
-      : '';
-
-    return frontmatter + issue.description + todosSection;
+    return serializeIssueMarkdown(issue);
   }
 
   private updateWebview(): void {
@@ -413,9 +1328,66 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
       this._view.webview.postMessage({
         type: 'updateData',
         issues: this._issues,
-        currentIssue: this._currentIssue
+        currentIssue: this._currentIssue,
+        dependencyGraph: buildDependencyGraph(this._issues),
+        ...this.getFilterState()
+      });
+    }
+  }
+
+  private getFilterState(): { query: string; visibleIssueIds: string[] | null; queryErrors: string[]; savedFilters: SavedFilter[] } {
+    const { ids, errors } = this.getVisibleIssueIds();
+    return { query: this._query, visibleIssueIds: ids, queryErrors: errors, savedFilters: this._savedFilters };
+  }
+
+  /**
+   * Pick up edits to the models in .nys/config.json and new API keys
+   */
+  public reloadModels(): void {
+    this._modelProviders?.reload();
+    this.sendModelsToWebview();
+  }
+
+  private async sendModelsToWebview(): Promise<void> {
+    if (!this._view || !this._modelProviders) return;
+
+    try {
+      this._view.webview.postMessage({
+        type: 'models',
+        models: Object.keys(await this._modelProviders.listModels()),
+        defaultModel: await this._modelProviders.getDefaultModel()
       });
+    } catch (error) {
+      console.error('Failed to load models:', error);
+    }
+  }
+
+  private async selectModel(name: string): Promise<void> {
+    if (!this._modelProviders) return;
+
+    try {
+      await this._modelProviders.setDefaultModel(name);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to select model: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    await this.sendModelsToWebview();
+  }
+
+  private async sendTemplatesToWebview(): Promise<void> {
+    if (!this._view) return;
+
+    const templates = await this.getIssueTemplates();
+    this._view.webview.postMessage({
+      type: 'issueTemplates',
+      templates: templates.map(t => ({ id: t.id, name: t.name, about: t.about, mode: t.mode, placeholders: t.placeholders }))
+    });
+  }
+
+  private sendDependencyGraph(): void {
+    this._view?.webview.postMessage({
+      type: 'dependencyGraph',
+      dependencyGraph: buildDependencyGraph(this._issues)
+    });
   }
 
   public getHtmlForWebview(webview: vscode.Webview): string {
@@ -423,7 +1395,13 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     const htmlPath = vscode.Uri.joinPath(this._extensionUri, 'src', 'webview', 'chatSidebar.html');
     try {
       const htmlContent = fs.readFileSync(htmlPath.fsPath, 'utf8');
-      return htmlContent;
+      // Diagrams are drawn by the bundled Mermaid, never a CDN copy
+      const mermaidUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'node_modules', 'mermaid', 'dist', 'mermaid.min.js'));
+      const nonce = getNonce();
+      return htmlContent
+        .replace(/{{nonce}}/g, nonce)
+        .replace(/{{cspSource}}/g, webview.cspSource)
+        .replace(/{{mermaidUri}}/g, mermaidUri.toString());
     } catch (error) {
       console.error('Failed to read webview HTML:', error);
       return this.getFallbackHtml(webview);
@@ -1003,7 +1981,7 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
                 case 'updateData':
                     updateIssuesList(message.issues);
                     if (message.currentIssue) {
-                        showIssue(message.currentIssue);
+                        showIssue(message.currentIssue, message.chatHistory || []);
                     }
                     break;
                 case 'assistantResponse':
@@ -1044,7 +2022,13 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
             vscode.postMessage({ type: 'selectIssue', issueId });
         }
 
-        function showIssue(issue) {
+        function showIssue(issue, history) {
+            // Load the saved chat when another issue is shown
+            if (!currentIssue || currentIssue.id !== issue.id) {
+                document.getElementById('chatContent').innerHTML = '';
+                history.forEach(turn => addMessageToChat(turn.role, turn.content));
+            }
+
             currentIssue = issue;
             currentMode = issue.mode;
 
@@ -1074,16 +2058,8 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
         }
 
         function showCreateIssueDialog() {
-            const title = prompt('Issue Title:');
-            if (!title) return;
-            
-            const description = prompt('Issue Description (optional):') || '';
-            
-            vscode.postMessage({ 
-                type: 'createIssue', 
-                title: title, 
-                description: description 
-            });
+            // Template, title and description are picked in VS Code's own quick input
+            vscode.postMessage({ type: 'promptCreateIssue' });
         }
 
         // Chat functionality
@@ -1171,7 +2147,11 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     this._view.webview.postMessage({
       type: 'updateData',
       issues: this._issues,
-      currentIssue: this._currentIssue
+      currentIssue: this._currentIssue,
+      dependencyGraph: buildDependencyGraph(this._issues),
+      chatHistory: this._currentIssue && this._chatMemory ? await this._chatMemory.load(this._currentIssue.id) : [],
+      runningWorkflows: Array.from(this._runningWorkflows.keys()),
+      ...this.getFilterState()
     });
   }
 
@@ -1190,32 +2170,65 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
         return;
       }
 
+      if (this._runningWorkflows.has(currentIssue.id)) {
+        this._view.webview.postMessage({
+          type: 'assistantResponse',
+          content: '⏳ A workflow is already running for this issue. Wait for it to finish or press Stop.'
+        });
+        return;
+      }
+
+      // Earlier turns give the workflow conversational context; the new
+      // turn is saved first so it survives a reload while the workflow runs
+      const stream = this.createWorkflowStream(currentIssue.id);
+      const controller = this.startWorkflowRun(currentIssue.id);
+      const options = { ...(await this.getWorkflowOptions(currentIssue)), onEvent: stream.onEvent, signal: controller.signal };
+      await this._chatMemory?.append(currentIssue.id, 'user', message, { mode });
+
       // Process message based on SPARC workflow mode
       let response: string;
 
-      switch (mode?.toLowerCase()) {
-        case 'design':
-          response = await this.processDesignMode(message, currentIssue);
-          break;
+      try {
+        switch (mode?.toLowerCase()) {
+          case 'design':
+            response = await this.processDesignMode(message, currentIssue, options);
+            break;
 
-        case 'build':
-          response = await this.processBuildMode(message, currentIssue);
-          break;
+          case 'build':
+            response = await this.processBuildMode(message, currentIssue, options);
+            break;
 
-        case 'debug':
-          response = await this.processDebugMode(message, currentIssue);
-          break;
+          case 'debug':
+            response = await this.processDebugMode(message, currentIssue, options);
+            break;
 
-        default:
-          response = `✨ I've received your message: "${message}". Please select a workflow mode (Design, Build, or Debug) to get started.`;
-          break;
+          default:
+            response = `✨ I've received your message: "${message}". Please select a workflow mode (Design, Build, or Debug) to get started.`;
+            break;
+        }
+      } catch (error) {
+        if (!(error instanceof WorkflowCancelledError) && !(error instanceof AIRequestError)) throw error;
+        const state = this._sparcEngine ? await this._sparcEngine.getWorkflowState(currentIssue.id) : null;
+        response = error instanceof AIRequestError
+          ? this.formatRequestFailure(error, state?.currentPhase)
+          : `⏹ **Workflow cancelled**${state ? ` during the ${state.currentPhase} phase` : ''}.\n\nArtifacts from completed phases are saved. Send another message to resume.`;
+      } finally {
+        this.endWorkflowRun(currentIssue.id, controller);
       }
 
+      stream.flush();
+      await this._chatMemory?.append(currentIssue.id, 'assistant', response, { mode });
+
       // Send response to webview
       this._view.webview.postMessage({
         type: 'assistantResponse',
         content: response
       });
+      if (mode?.toLowerCase() === 'design') {
+        await this.postArchitectureDiagrams(currentIssue.id);
+      } else if (mode?.toLowerCase() === 'debug') {
+        await this.postProposedFixes(currentIssue.id);
+      }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -1226,14 +2239,15 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  private async processDesignMode(message: string, issue: Issue): Promise<string> {
+  private async processDesignMode(message: string, issue: Issue, options: ProcessIssueOptions): Promise<string> {
     // Design mode: Analyze requirements, generate specifications, create technical guidelines
     if (this._sparcEngine) {
       try {
-        const workflowState = await this._sparcEngine.processIssue(issue.id, 'design', message);
+        const workflowState = await this._sparcEngine.processIssue(issue.id, 'design', message, options);
         
-        return `🎨 **Design Mode - SPARC Workflow**\n\n**Processing**: "${message}"\n\n**Current Phase**: ${workflowState.currentPhase}\n**Progress**: ${workflowState.progress}%\n\n**Generated Artifacts:**\n${this.formatArtifacts(workflowState.artifacts)}\n\n**Next Steps:**\n${this.getNextSteps(workflowState.currentPhase, workflowState.mode)}`;
+        return `${this.formatMockNotice(workflowState.mockPhases)}🎨 **Design Mode - SPARC Workflow**\n\n**Processing**: "${message}"\n\n**Current Phase**: ${workflowState.currentPhase}\n**Progress**: ${workflowState.progress}%\n\n**Generated Artifacts:**\n${this.formatArtifacts(workflowState.artifacts)}\n\n**Next Steps:**\n${this.getNextSteps(workflowState.currentPhase, workflowState.mode)}${this.formatContextReports(workflowState.contextReports)}`;
       } catch (error) {
+        if (error instanceof WorkflowCancelledError || error instanceof AIRequestError) throw error;
         console.error('SPARC workflow error:', error);
       }
     }
@@ -1242,14 +2256,15 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     return `🎨 **Design Mode Analysis**\n\nI'm analyzing your requirements: "${message}"\n\n**Next Steps:**\n- Extract key features and constraints\n- Generate technical specifications\n- Create architecture guidelines\n- Define dependencies and interfaces\n\n*SPARC workflow engine integration in progress.*`;
   }
 
-  private async processBuildMode(message: string, issue: Issue): Promise<string> {
+  private async processBuildMode(message: string, issue: Issue, options: ProcessIssueOptions): Promise<string> {
     // Build mode: Generate code, create project structure, implement features
     if (this._sparcEngine) {
       try {
-        const workflowState = await this._sparcEngine.processIssue(issue.id, 'build', message);
+        const workflowState = await this._sparcEngine.processIssue(issue.id, 'build', message, options);
         
-        return `🔨 **Build Mode - SPARC Workflow**\n\n**Building**: "${message}"\n\n**Current Phase**: ${workflowState.currentPhase}\n**Progress**: ${workflowState.progress}%\n\n**Generated Artifacts:**\n${this.formatArtifacts(workflowState.artifacts)}\n\n**Implementation Status:**\n${this.getBuildStatus(workflowState.artifacts)}`;
+        return `${this.formatMockNotice(workflowState.mockPhases)}🔨 **Build Mode - SPARC Workflow**\n\n**Building**: "${message}"\n\n**Current Phase**: ${workflowState.currentPhase}\n**Progress**: ${workflowState.progress}%\n\n**Generated Artifacts:**\n${this.formatArtifacts(workflowState.artifacts)}\n\n**Implementation Status:**\n${this.getBuildStatus(workflowState.artifacts, workflowState.testResults)}${this.formatContextReports(workflowState.contextReports)}`;
       } catch (error) {
+        if (error instanceof WorkflowCancelledError || error instanceof AIRequestError) throw error;
         console.error('SPARC workflow error:', error);
       }
     }
@@ -1258,14 +2273,15 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     return `🔨 **Build Mode Implementation**\n\nBuilding: "${message}"\n\n**Implementation Plan:**\n- Generate source code structure\n- Create configuration files\n- Implement core functionality\n- Add tests and documentation\n\n*SPARC workflow engine integration in progress.*`;
   }
 
-  private async processDebugMode(message: string, issue: Issue): Promise<string> {
+  private async processDebugMode(message: string, issue: Issue, options: ProcessIssueOptions): Promise<string> {
     // Debug mode: Identify issues, apply fixes, optimize performance
     if (this._sparcEngine) {
       try {
-        const workflowState = await this._sparcEngine.processIssue(issue.id, 'debug', message);
+        const workflowState = await this._sparcEngine.processIssue(issue.id, 'debug', message, options);
         
-        return `🐛 **Debug Mode - SPARC Workflow**\n\n**Debugging**: "${message}"\n\n**Current Phase**: ${workflowState.currentPhase}\n**Progress**: ${workflowState.progress}%\n\n**Debug Analysis:**\n${this.formatDebugNotes(workflowState.artifacts.notes)}\n\n**Artifacts Status:**\n${this.formatArtifacts(workflowState.artifacts)}`;
+        return `${this.formatMockNotice(workflowState.mockPhases)}🐛 **Debug Mode - SPARC Workflow**\n\n**Debugging**: "${message}"\n\n**Current Phase**: ${workflowState.currentPhase}\n**Progress**: ${workflowState.progress}%\n\n${workflowState.debugEvidence ? `**${summarizeEvidence(workflowState.debugEvidence)}**\n\n` : ''}**Debug Analysis:**\n${this.formatDebugNotes(workflowState.artifacts.notes)}\n\n**Artifacts Status:**\n${this.formatArtifacts(workflowState.artifacts)}${this.formatContextReports(workflowState.contextReports)}`;
       } catch (error) {
+        if (error instanceof WorkflowCancelledError || error instanceof AIRequestError) throw error;
         console.error('SPARC workflow error:', error);
       }
     }
@@ -1274,6 +2290,80 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     return `🐛 **Debug Mode Analysis**\n\nDebugging: "${message}"\n\n**Issue Analysis:**\n- Scanning code for potential problems\n- Checking for performance bottlenecks\n- Validating integration points\n- Reviewing error logs\n\n*SPARC workflow engine integration in progress.*`;
   }
 
+  private startWorkflowRun(issueId: string): AbortController {
+    const controller = new AbortController();
+    this._runningWorkflows.set(issueId, controller);
+    this._view?.webview.postMessage({ type: 'workflowRunning', issueId, running: true });
+    return controller;
+  }
+
+  private endWorkflowRun(issueId: string, controller: AbortController): void {
+    if (this._runningWorkflows.get(issueId) !== controller) return;
+    this._runningWorkflows.delete(issueId);
+    this._view?.webview.postMessage({ type: 'workflowRunning', issueId, running: false });
+  }
+
+  /**
+   * Forward workflow events to the webview as `assistantDelta` messages.
+   * Content deltas are batched so a fast stream does not flood the webview.
+   */
+  private createWorkflowStream(issueId: string): { onEvent: (event: WorkflowEvent) => void; flush: () => void } {
+    let pending: { nodeId: string; content: string } | null = null;
+    let timer: NodeJS.Timeout | null = null;
+
+    const post = (event: WorkflowEvent) => {
+      this._view?.webview.postMessage({ type: 'assistantDelta', issueId, event });
+    };
+
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (pending) {
+        post({ type: 'delta', nodeId: pending.nodeId, content: pending.content });
+        pending = null;
+      }
+    };
+
+    const onEvent = (event: WorkflowEvent) => {
+      if (event.type !== 'delta') {
+        flush();
+        post(event);
+        return;
+      }
+
+      if (pending && pending.nodeId !== event.nodeId) {
+        flush();
+      }
+      pending = pending ? { nodeId: pending.nodeId, content: pending.content + event.content } : { nodeId: event.nodeId, content: event.content };
+      if (!timer) {
+        timer = setTimeout(flush, IssueViewProvider.STREAM_FLUSH_MS);
+      }
+    };
+
+    return { onEvent, flush };
+  }
+
+  /**
+   * Issue context and chat history for a workflow run
+   */
+  private async getWorkflowOptions(issue: Issue): Promise<ProcessIssueOptions> {
+    const history = this._chatMemory ? await this._chatMemory.load(issue.id) : [];
+    return {
+      issueTitle: issue.title,
+      issueDescription: issue.description,
+      assigneeRole: issue.assigneeRole,
+      chatHistory: [...history]
+    };
+  }
+
+  private async clearChat(issueId: string): Promise<void> {
+    if (!this._chatMemory) return;
+    await this._chatMemory.clear(issueId);
+    this.updateWebview();
+  }
+
   private formatArtifacts(artifacts: any): string {
     const artifactList = [];
     if (artifacts.requirements) artifactList.push('✅ Requirements');
@@ -1287,6 +2377,112 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     return artifactList.length > 0 ? artifactList.join('\n') : 'No artifacts generated yet';
   }
 
+  /**
+   * A failed model request, with what the user can do about it
+   */
+  private formatRequestFailure(error: AIRequestError, phase?: string): string {
+    const hints: Record<AIRequestError['kind'], string> = {
+      config: 'Check "models", "defaultModel" and "phaseModels" in `.nys/config.json`.',
+      auth: 'Check the key with **Mira: Manage API Keys**.',
+      badRequest: 'The provider rejected the request; check the model name and settings in `.nys/config.json`.',
+      rateLimit: 'The provider is rate limiting requests. Wait a moment before resuming.',
+      timeout: 'The model did not respond in time. `modelRequests.timeoutMs` in `.nys/config.json` sets the limit.',
+      server: 'The provider had a server error. Try again shortly.',
+      network: 'The provider could not be reached. Check your connection or the model\'s `baseUrl`.',
+      replayMiss: 'Cassette replay only serves recorded responses. Record this request with `"cassettes": { "mode": "record" }` in `.nys/config.json` or `MIRA_CASSETTES=record`.',
+      unknown: 'See the Mira output logs for details.'
+    };
+    const attempts = error.attempts > 1 ? ` (gave up after ${error.attempts} attempts)` : '';
+    return `⚠️ **Model request failed**${phase ? ` during the ${phase} phase` : ''}${attempts}: ${error.message}\n\n${hints[error.kind]}\n\nArtifacts from completed phases are saved. Send another message to resume from this phase.`;
+  }
+
+  /**
+   * Show the issue's architecture diagrams under the reply, with the lines
+   * changed since the diagrams they replaced
+   */
+  private async postArchitectureDiagrams(issueId: string): Promise<void> {
+    const state = this._sparcEngine ? await this._sparcEngine.getWorkflowState(issueId) : null;
+    const diagrams = state?.structuredArtifacts?.architecture?.diagrams;
+    if (!state || !diagrams || !this._view) return;
+
+    const previous = state.previousDiagrams;
+    this._view.webview.postMessage({
+      type: 'architectureDiagrams',
+      issueId,
+      diagrams: DIAGRAM_KINDS.map(({ kind, title }) => ({
+        title,
+        source: diagrams[kind],
+        diff: previous && previous[kind].trim() !== diagrams[kind].trim() ? diffLines(previous[kind], diagrams[kind]) : undefined
+      }))
+    });
+  }
+
+  /**
+   * Offer the latest fix generation's file changes for review under the reply
+   */
+  private async postProposedFixes(issueId: string): Promise<void> {
+    const state = this._sparcEngine ? await this._sparcEngine.getWorkflowState(issueId) : null;
+    const fixes = state?.proposedFixes || [];
+    if (!this._view || !fixes.some(fix => fix.hunks.some(hunk => hunk.status === 'pending'))) return;
+    this._view.webview.postMessage({ type: 'proposedFixes', issueId, fixes });
+  }
+
+  /**
+   * What a fix review changed and how the re-run build and tests went
+   */
+  private formatFixReview(outcome: FixReviewOutcome, verification?: VerificationResult): string {
+    const applied = outcome.fixes.reduce((count, fix) => count + fix.hunks.filter(hunk => hunk.status === 'applied').length, 0);
+    const rejected = outcome.feedback.filter(item => item.reason === 'rejected').length;
+    const conflicts = outcome.feedback.filter(item => item.reason === 'conflict').length;
+
+    let content = outcome.applied.length > 0
+      ? `🔧 **Fixes applied** to ${outcome.applied.map(file => `\`${file}\``).join(', ')}\n\n`
+      : '🔧 **No fixes applied**\n\n';
+    content += [
+      applied && `${applied} hunk(s) applied`,
+      rejected && `${rejected} rejected`,
+      conflicts && `${conflicts} no longer matched the file`
+    ].filter(Boolean).join(', ') + '\n\n';
+
+    if (verification) {
+      if (verification.commands.length === 0) {
+        content += 'No build or test commands from an earlier build to re-run.\n\n';
+      } else {
+        content += `**Check**: ${verification.success ? '✅ Passed' : '❌ Failed'}\n`;
+        content += verification.commands.map(command => `- ${command.success ? '✅' : '❌'} \`${command.command.trim()}\` (${command.duration}ms)`).join('\n') + '\n\n';
+      }
+      if (verification.tests) {
+        const { passed, failed } = verification.tests.counts;
+        content += `**Tests**: ${passed} passed, ${failed} failed\n`;
+        content += verification.tests.cases.filter(test => test.status === 'failed').map(test => `- ❌ ${test.name}`).join('\n');
+        content = content.trimEnd() + '\n\n';
+      }
+    }
+
+    if (outcome.feedback.length > 0) {
+      content += 'The hunks not applied go back to the model with the next debug request.';
+    }
+    return content.trimEnd();
+  }
+
+  /**
+   * A banner for responses that came from the mock provider's fixtures
+   */
+  private formatMockNotice(phases?: string[]): string {
+    if (!phases || phases.length === 0) return '';
+    return `🧪 **Mock mode**: the ${phases.join(', ')} output came from fixtures, not a model. Run **Mira: Manage API Keys** to configure one.\n\n`;
+  }
+
+  /**
+   * What each phase's prompt included, so a missed requirement can be traced
+   * to an artifact that was cut to fit the model
+   */
+  private formatContextReports(reports?: Record<string, ContextReport>): string {
+    const entries = Object.entries(reports || {});
+    if (entries.length === 0) return '';
+    return `\n\n**Context Used:**\n${entries.map(([phase, report]) => `*${phase}*: ${formatContextReport(report)}`).join('\n')}`;
+  }
+
   private getNextSteps(phase: string, _mode: string): string {
     switch (phase) {
       case 'specification':
@@ -1304,10 +2500,17 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  private getBuildStatus(artifacts: any): string {
+  private getBuildStatus(artifacts: any, testResults?: TestRunResult): string {
     const status = [];
     if (artifacts.implementation) status.push('✅ Code generated');
-    if (artifacts.tests) status.push('✅ Tests created');
+    if (testResults?.skipped) {
+      status.push(`⏭️ Tests created, not run: ${testResults.reason}`);
+    } else if (testResults) {
+      const { passed, failed } = testResults.counts;
+      status.push(`${testResults.success ? '✅' : '❌'} Tests run: ${passed} passed, ${failed} failed`);
+    } else if (artifacts.tests) {
+      status.push('✅ Tests created');
+    }
     if (artifacts.notes) status.push('✅ Debug notes updated');
     
     return status.length > 0 ? status.join('\n') : 'Starting build process...';
@@ -1316,13 +2519,18 @@ export class IssueViewProvider implements vscode.WebviewViewProvider {
   private formatDebugNotes(notes?: string): string {
     if (!notes) return 'No debug notes yet';
     
-    // Extract the latest debug entry
-    const lines = notes.split('\n');
-    const latestEntry = lines.slice(-10).join('\n'); // Last 10 lines
-    return latestEntry || 'Debug analysis in progress...';
+    // In full, so each file:line the analysis cites can be opened from the chat
+    return notes.trim() || 'Debug analysis in progress...';
   }
 }
 
+/**
+ * A single path segment: no separators and no `..`
+ */
+function isPlainFileName(name: string): boolean {
+  return typeof name === 'string' && name.length > 0 && !/[\\/]/.test(name) && !name.includes('..');
+}
+
 // Utility for CSP nonce
 function getNonce(): string {
   let text = '';
@@ -0,0 +1,299 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { GitHubLink, Issue, Todo } from '../storage/issueSchema';
+import { parseIssueMarkdown } from '../storage/issueMarkdown';
+import { stringifyFrontmatter } from '../storage/frontmatter';
+import { createTodo } from '../storage/todos';
+import { McpServerConfig, McpStdioClient } from './mcpClient';
+
+/**
+ * GitHub Issue Sync
+ *
+ * Links a `.nys` issue to a GitHub issue through the GitHub MCP server and
+ * keeps the two in step. Pushed: title, description with the todos as a
+ * checklist, and open/closed state. Pulled: the same fields plus new
+ * comments, which are appended to `.nys/<issueId>/github-comments.md`.
+ *
+ * Each sync compares both sides against what they agreed on last time
+ * (stored in the issue's `github` frontmatter). A field changed on one side
+ * is copied to the other; a field changed on both sides is a conflict and is
+ * handed to the caller's resolver.
+ */
+
+// Used when .nys/config.json does not configure `mcpServers.github` (see docker-compose.yml)
+export const DEFAULT_GITHUB_MCP_SERVER: McpServerConfig = {
+  command: 'docker',
+  args: ['run', '-i', '--rm', '-e', 'GITHUB_PERSONAL_ACCESS_TOKEN', 'ghcr.io/github/github-mcp-server', 'stdio']
+};
+
+export type SyncField = 'title' | 'body' | 'state';
+
+export type ConflictChoice = 'local' | 'remote' | 'skip';
+
+export type ConflictResolver = (issue: Issue, field: SyncField, local: string, remote: string) => Promise<ConflictChoice>;
+
+export interface GitHubSyncResult {
+  created: boolean;
+  pushed: SyncField[];
+  pulled: SyncField[];
+  skipped: SyncField[];
+  newComments: number;
+}
+
+interface RemoteIssue {
+  number: number;
+  html_url?: string;
+  title: string;
+  body?: string | null;
+  state: string;
+}
+
+interface RemoteComment {
+  id: number;
+  body?: string;
+  html_url?: string;
+  created_at?: string;
+  user?: { login?: string };
+}
+
+const ISSUE_MARKER_PATTERN = /\n*<!--\s*mira:issue\s+[^>]*-->\s*$/;
+
+/**
+ * Render the GitHub issue body: description plus the todos as a plain checklist
+ */
+export function renderGitHubBody(issue: Issue): string {
+  const parts = [issue.description.trim()];
+  if (issue.todos.length > 0) {
+    parts.push(`## TODOs\n\n${renderChecklist(issue.todos).join('\n')}`);
+  }
+  parts.push(`<!-- mira:issue ${issue.id} -->`);
+  return parts.filter(part => part.length > 0).join('\n\n');
+}
+
+/**
+ * GitHub only knows open and closed
+ */
+export function toGitHubState(issue: Issue): 'open' | 'closed' {
+  return issue.status === 'completed' ? 'closed' : 'open';
+}
+
+export function hashBody(body: string | null | undefined): string {
+  const normalized = (body || '').replace(/\r\n/g, '\n').replace(ISSUE_MARKER_PATTERN, '').trim();
+  return crypto.createHash('sha1').update(normalized).digest('hex');
+}
+
+export function parseRepository(repository: string): { owner: string; repo: string } {
+  const match = repository.trim().match(/^([\w.-]+)\/([\w.-]+)$/);
+  if (!match) {
+    throw new Error(`Invalid GitHub repository "${repository}" (expected owner/name)`);
+  }
+  return { owner: match[1], repo: match[2] };
+}
+
+export class GitHubIssueSync {
+  constructor(private readonly client: McpStdioClient, private readonly nysFolder: vscode.Uri) {}
+
+  /**
+   * Sync one issue, creating the GitHub issue if it is not linked yet.
+   * Updates `issue` in place; the caller saves it.
+   */
+  async sync(issue: Issue, repository: string, resolveConflict: ConflictResolver): Promise<GitHubSyncResult> {
+    if (!issue.github) {
+      return this.createRemote(issue, repository);
+    }
+
+    const link = issue.github;
+    const { owner, repo } = parseRepository(link.repository);
+    const remote = await this.client.callToolJson<RemoteIssue>('get_issue', { owner, repo, issue_number: link.number });
+
+    const result: GitHubSyncResult = { created: false, pushed: [], pulled: [], skipped: [], newComments: 0 };
+    const remoteState = remote.state === 'closed' ? 'closed' : 'open';
+
+    const fields: { field: SyncField; local: string; remote: string; base?: string; localKey: string; remoteKey: string }[] = [
+      { field: 'title', local: issue.title, remote: remote.title, base: link.syncedTitle, localKey: issue.title, remoteKey: remote.title },
+      {
+        field: 'body',
+        local: renderGitHubBody(issue),
+        remote: remote.body || '',
+        base: link.syncedBodyHash,
+        localKey: hashBody(renderGitHubBody(issue)),
+        remoteKey: hashBody(remote.body)
+      },
+      { field: 'state', local: toGitHubState(issue), remote: remoteState, base: link.syncedState, localKey: toGitHubState(issue), remoteKey: remoteState }
+    ];
+
+    for (const { field, local, remote: remoteValue, base, localKey, remoteKey } of fields) {
+      if (localKey === remoteKey) continue;
+
+      const localChanged = localKey !== base;
+      const remoteChanged = remoteKey !== base;
+
+      let choice: ConflictChoice;
+      if (localChanged && remoteChanged) {
+        choice = await resolveConflict(issue, field, local, remoteValue);
+      } else {
+        choice = remoteChanged ? 'remote' : 'local';
+      }
+
+      if (choice === 'local') result.pushed.push(field);
+      else if (choice === 'remote') result.pulled.push(field);
+      else result.skipped.push(field);
+    }
+
+    // Pull first, so a pulled body is pushed back in Mira's normalized form
+    if (result.pulled.includes('title')) issue.title = remote.title;
+    if (result.pulled.includes('body')) this.applyRemoteBody(issue, remote.body || '');
+    if (result.pulled.includes('state')) {
+      if (remoteState === 'closed') {
+        issue.status = 'completed';
+      } else if (issue.status === 'completed') {
+        issue.status = 'open';
+      }
+    }
+    if (result.pulled.length > 0) {
+      issue.updatedAt = new Date();
+    }
+
+    const update: Record<string, unknown> = {};
+    if (result.pushed.includes('title')) update.title = issue.title;
+    if (result.pushed.includes('state')) update.state = toGitHubState(issue);
+    if (result.pushed.includes('body') || (result.pulled.includes('body') && hashBody(renderGitHubBody(issue)) !== hashBody(remote.body))) {
+      update.body = renderGitHubBody(issue);
+    }
+    if (Object.keys(update).length > 0) {
+      await this.client.callToolJson('update_issue', { owner, repo, issue_number: link.number, ...update });
+    }
+
+    result.newComments = await this.pullComments(issue, owner, repo);
+
+    // Skipped fields keep their old base so the conflict comes up again next time
+    issue.github = {
+      ...link,
+      url: remote.html_url || link.url,
+      syncedAt: new Date().toISOString(),
+      syncedTitle: result.skipped.includes('title') ? link.syncedTitle : issue.title,
+      syncedBodyHash: result.skipped.includes('body') ? link.syncedBodyHash : hashBody(renderGitHubBody(issue)),
+      syncedState: result.skipped.includes('state') ? link.syncedState : toGitHubState(issue),
+      lastCommentId: issue.github?.lastCommentId
+    };
+
+    console.log(`[GitHubSync] ${issue.id} ↔ ${link.repository}#${link.number}: pushed [${result.pushed}], pulled [${result.pulled}], skipped [${result.skipped}], ${result.newComments} new comment(s)`);
+    return result;
+  }
+
+  private async createRemote(issue: Issue, repository: string): Promise<GitHubSyncResult> {
+    const { owner, repo } = parseRepository(repository);
+    const body = renderGitHubBody(issue);
+
+    const created = await this.client.callToolJson<RemoteIssue>('create_issue', {
+      owner,
+      repo,
+      title: issue.title,
+      body,
+      ...(issue.labels.length > 0 ? { labels: issue.labels } : {})
+    });
+
+    // New issues start open on GitHub
+    const state = toGitHubState(issue);
+    if (state === 'closed') {
+      await this.client.callToolJson('update_issue', { owner, repo, issue_number: created.number, state });
+    }
+
+    const link: GitHubLink = {
+      repository: `${owner}/${repo}`,
+      number: created.number,
+      url: created.html_url,
+      syncedAt: new Date().toISOString(),
+      syncedTitle: issue.title,
+      syncedBodyHash: hashBody(body),
+      syncedState: state
+    };
+    issue.github = link;
+
+    console.log(`[GitHubSync] Created ${link.repository}#${link.number} for ${issue.id}`);
+    return { created: true, pushed: ['title', 'body', 'state'], pulled: [], skipped: [], newComments: 0 };
+  }
+
+  /**
+   * Replace the description and todos with the GitHub body, keeping the
+   * metadata of todos whose text did not change
+   */
+  private applyRemoteBody(issue: Issue, body: string): void {
+    const cleaned = body.replace(/\r\n/g, '\n').replace(ISSUE_MARKER_PATTERN, '');
+    const parsed = parseIssueMarkdown(issue.id, issue.filePath, stringifyFrontmatter({}, cleaned));
+
+    const localByContent = new Map<string, Todo>();
+    const index = (todos: Todo[]) => todos.forEach(todo => {
+      if (!localByContent.has(todo.content)) localByContent.set(todo.content, todo);
+      index(todo.children || []);
+    });
+    index(issue.todos);
+
+    issue.description = parsed.description;
+    issue.todos = adoptTodos(parsed.todos, localByContent);
+  }
+
+  /**
+   * Append comments newer than the last sync to the issue's comments artifact
+   */
+  private async pullComments(issue: Issue, owner: string, repo: string): Promise<number> {
+    const link = issue.github!;
+    const comments = await this.client.callToolJson<RemoteComment[]>('get_issue_comments', { owner, repo, issue_number: link.number });
+    const lastSeen = link.lastCommentId || 0;
+    const fresh = (Array.isArray(comments) ? comments : [])
+      .filter(comment => comment.id > lastSeen)
+      .sort((a, b) => a.id - b.id);
+
+    if (fresh.length === 0) {
+      return 0;
+    }
+
+    const folder = vscode.Uri.joinPath(this.nysFolder, issue.id);
+    const file = vscode.Uri.joinPath(folder, 'github-comments.md');
+    let existing = '';
+    try {
+      existing = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+    } catch {
+      existing = `# GitHub comments on ${link.repository}#${link.number}\n`;
+      await vscode.workspace.fs.createDirectory(folder);
+    }
+
+    const entries = fresh.map(comment => {
+      const author = comment.user?.login || 'unknown';
+      const when = comment.created_at || '';
+      const url = comment.html_url ? ` ([link](${comment.html_url}))` : '';
+      return `\n## ${author} — ${when}${url}\n\n${(comment.body || '').trim()}\n`;
+    });
+
+    await vscode.workspace.fs.writeFile(file, Buffer.from(existing + entries.join(''), 'utf8'));
+    issue.github = { ...link, lastCommentId: fresh[fresh.length - 1].id };
+    return fresh.length;
+  }
+}
+
+function renderChecklist(todos: Todo[], depth: number = 0): string[] {
+  const lines: string[] = [];
+  for (const todo of todos) {
+    lines.push(`${'  '.repeat(depth)}- [${todo.completed ? 'x' : ' '}] ${todo.content}`);
+    lines.push(...renderChecklist(todo.children || [], depth + 1));
+  }
+  return lines;
+}
+
+/**
+ * Reuse the local todo (id, timestamps, owner) for every remote item with the same text
+ */
+function adoptTodos(remote: Todo[], localByContent: Map<string, Todo>): Todo[] {
+  return remote.map(remoteTodo => {
+    const local = localByContent.get(remoteTodo.content);
+    localByContent.delete(remoteTodo.content);
+
+    const todo: Todo = local ? { ...local } : createTodo(remoteTodo.content);
+    if (todo.completed !== remoteTodo.completed) {
+      todo.completed = remoteTodo.completed;
+      todo.completedAt = remoteTodo.completed ? new Date() : undefined;
+    }
+    todo.children = adoptTodos(remoteTodo.children, localByContent);
+    return todo;
+  });
+}
@@ -0,0 +1,271 @@
+import { spawn, ChildProcess } from 'child_process';
+
+/**
+ * MCP Client
+ *
+ * Minimal Model Context Protocol client over stdio. The server is spawned as
+ * a child process and spoken to with newline-delimited JSON-RPC 2.0 messages
+ * on stdin/stdout (stderr is only logged). Supports the handshake, listing
+ * tools and calling tools, which is all Mira needs from an MCP server.
+ * A tool call can be aborted with an AbortSignal; the server is told with
+ * a `notifications/cancelled` message and any late reply is dropped.
+ */
+
+export interface McpServerConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  // Tool policy, enforced by McpToolRegistry (exact names or `*` globs; deny wins)
+  allowTools?: string[];
+  denyTools?: string[];
+  disabled?: boolean;
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+export interface McpContent {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+export interface McpToolResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+export class McpError extends Error {
+  constructor(message: string, public readonly code?: number, public readonly data?: unknown) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const PROTOCOL_VERSION = '2024-11-05';
+
+export class McpStdioClient {
+  private process: ChildProcess | null = null;
+  private starting: Promise<void> | null = null;
+  private nextId = 1;
+  private buffer = '';
+  private pending: Map<number, PendingRequest> = new Map();
+
+  constructor(
+    public readonly name: string,
+    private readonly config: McpServerConfig,
+    private readonly requestTimeoutMs: number = 30000
+  ) {}
+
+  /**
+   * Spawn the server and perform the MCP handshake (idempotent)
+   */
+  start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.spawnAndInitialize().catch(error => {
+        this.dispose();
+        throw error;
+      });
+    }
+    return this.starting;
+  }
+
+  get isRunning(): boolean {
+    return this.process !== null;
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    await this.start();
+    const result = await this.request('tools/list', {});
+    return Array.isArray(result?.tools) ? result.tools : [];
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpToolResult> {
+    await this.start();
+    const result = await this.request('tools/call', { name, arguments: args }, signal);
+    return {
+      content: Array.isArray(result?.content) ? result.content : [],
+      isError: result?.isError === true
+    };
+  }
+
+  /**
+   * Call a tool whose text content is JSON (as the GitHub MCP server's tools are)
+   */
+  async callToolJson<T = any>(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const result = await this.callTool(name, args, signal);
+    const text = result.content.filter(item => item.type === 'text').map(item => item.text || '').join('');
+
+    if (result.isError) {
+      throw new McpError(`${this.name}: ${name} failed: ${text || 'unknown error'}`);
+    }
+
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new McpError(`${this.name}: ${name} returned non-JSON content: ${text.substring(0, 200)}`);
+    }
+  }
+
+  dispose(): void {
+    for (const [, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new McpError(`${this.name}: connection closed`));
+    }
+    this.pending.clear();
+
+    if (this.process) {
+      this.process.removeAllListeners();
+      this.process.kill();
+      this.process = null;
+    }
+    this.starting = null;
+    this.buffer = '';
+  }
+
+  private async spawnAndInitialize(): Promise<void> {
+    console.log(`[McpClient] Starting ${this.name}: ${this.config.command} ${(this.config.args || []).join(' ')}`);
+
+    const child = spawn(this.config.command, this.config.args || [], {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...(this.config.env || {}) },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    this.process = child;
+
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => this.handleData(chunk));
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (chunk: string) => console.log(`[McpClient] ${this.name} stderr:`, chunk.trimEnd()));
+
+    child.on('error', error => this.handleExit(new McpError(`${this.name}: failed to start: ${error.message}`)));
+    child.on('exit', code => this.handleExit(new McpError(`${this.name}: server exited with code ${code}`)));
+
+    await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'mira', version: '1.0.0' }
+    });
+    this.notify('notifications/initialized', {});
+    console.log(`[McpClient] ${this.name} initialized`);
+  }
+
+  private request(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<any> {
+    const child = this.process;
+    if (!child || !child.stdin) {
+      return Promise.reject(new McpError(`${this.name}: not connected`));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        if (!this.pending.delete(id)) return;
+        clearTimeout(timer);
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Aborted by the client' });
+        reject(abortError());
+      };
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        signal?.removeEventListener('abort', abort);
+        reject(new McpError(`${this.name}: ${method} timed out after ${this.requestTimeoutMs}ms`));
+      }, this.requestTimeoutMs);
+
+      this.pending.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', abort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', abort);
+          reject(error);
+        },
+        timer
+      });
+      signal?.addEventListener('abort', abort);
+      child.stdin!.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+  }
+
+  private notify(method: string, params: Record<string, unknown>): void {
+    this.process?.stdin?.write(JSON.stringify({ jsonrpc: '2.0', method, params }) + '\n');
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.substring(0, newline).trim();
+      this.buffer = this.buffer.substring(newline + 1);
+      if (line) {
+        this.handleMessage(line);
+      }
+    }
+  }
+
+  private handleMessage(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      console.warn(`[McpClient] ${this.name} sent a non-JSON line:`, line.substring(0, 200));
+      return;
+    }
+
+    // Server-initiated requests and notifications are not supported
+    if (message.id === undefined || message.id === null || message.method) {
+      if (message.method && message.id !== undefined) {
+        this.process?.stdin?.write(JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: -32601, message: `Method not supported by client: ${message.method}` }
+        }) + '\n');
+      }
+      return;
+    }
+
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(request.timer);
+
+    if (message.error) {
+      request.reject(new McpError(`${this.name}: ${message.error.message}`, message.error.code, message.error.data));
+    } else {
+      request.resolve(message.result);
+    }
+  }
+
+  private handleExit(error: McpError): void {
+    if (!this.process) return;
+    console.warn('[McpClient]', error.message);
+    this.process = null;
+    this.starting = null;
+
+    for (const [, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+function abortError(): Error {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,211 @@
+import * as net from 'net';
+import * as crypto from 'crypto';
+import { McpContent, McpToolResult } from './mcpClient';
+
+/**
+ * MCP Server
+ *
+ * Minimal Model Context Protocol server, the counterpart of McpStdioClient.
+ * Speaks newline-delimited JSON-RPC 2.0 over any pair of streams and
+ * implements the handshake, `tools/list` and `tools/call`.
+ *
+ * `listen()` serves it on a localhost TCP socket. Socket clients must send
+ * the server's token as their first line before any JSON-RPC message; the
+ * stdio bridge (`out/mcp/stdioBridge.js`) does this for MCP clients that can
+ * only launch stdio servers.
+ */
+
+export interface McpServerTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  // The return value is sent as JSON text content; a thrown error becomes an
+  // `isError` result, except InvalidParamsError, which fails the call itself
+  handler: (args: Record<string, any>) => Promise<unknown>;
+}
+
+interface JsonRpcMessage {
+  jsonrpc?: string;
+  id?: number | string | null;
+  method?: string;
+  params?: any;
+}
+
+const PROTOCOL_VERSION = '2024-11-05';
+
+/**
+ * Arguments a tool cannot accept; the client gets a JSON-RPC invalid-params error
+ */
+export class InvalidParamsError extends Error {
+  readonly code = -32602;
+}
+
+export class McpServer {
+  private tools: Map<string, McpServerTool> = new Map();
+  private socketServer: net.Server | null = null;
+  private sockets: Set<net.Socket> = new Set();
+  public readonly token = crypto.randomBytes(24).toString('hex');
+
+  constructor(private readonly name: string, private readonly version: string = '1.0.0') {}
+
+  registerTool(tool: McpServerTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  get port(): number | null {
+    const address = this.socketServer?.address();
+    return address && typeof address === 'object' ? address.port : null;
+  }
+
+  /**
+   * Serve one client over a pair of streams (stdio, or an accepted socket).
+   * Returns a function that stops reading.
+   */
+  connect(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): () => void {
+    let buffer = '';
+    const onData = (chunk: Buffer | string) => {
+      buffer += chunk.toString();
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.substring(0, newline).trim();
+        buffer = buffer.substring(newline + 1);
+        if (line) {
+          this.handleLine(line).then(response => {
+            if (response) output.write(JSON.stringify(response) + '\n');
+          });
+        }
+      }
+    };
+
+    input.on('data', onData);
+    return () => input.removeListener('data', onData);
+  }
+
+  /**
+   * Listen on 127.0.0.1 (port 0 picks a free port); resolves with the port
+   */
+  listen(port: number = 0): Promise<number> {
+    if (this.socketServer) {
+      return Promise.resolve(this.port!);
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = net.createServer(socket => this.acceptSocket(socket));
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => {
+        server.removeListener('error', reject);
+        this.socketServer = server;
+        console.log(`[McpServer] ${this.name} listening on 127.0.0.1:${this.port}`);
+        resolve(this.port!);
+      });
+    });
+  }
+
+  close(): void {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+    this.socketServer?.close();
+    this.socketServer = null;
+  }
+
+  /**
+   * Handle one JSON-RPC line; resolves with the response, or null for notifications
+   */
+  async handleLine(line: string): Promise<object | null> {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+    }
+
+    // Notifications (e.g. notifications/initialized) get no response
+    if (message.id === undefined || message.id === null) {
+      return null;
+    }
+
+    try {
+      const result = await this.handleRequest(message.method || '', message.params || {});
+      return { jsonrpc: '2.0', id: message.id, result };
+    } catch (error) {
+      const code = error instanceof Error && 'code' in error && typeof error.code === 'number' ? error.code : -32603;
+      return { jsonrpc: '2.0', id: message.id, error: { code, message: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  private async handleRequest(method: string, params: any): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return {
+          protocolVersion: typeof params.protocolVersion === 'string' ? params.protocolVersion : PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: this.name, version: this.version }
+        };
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: Array.from(this.tools.values()).map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+        };
+      case 'tools/call':
+        return this.callTool(params.name, params.arguments || {});
+      default:
+        throw Object.assign(new Error(`Method not found: ${method}`), { code: -32601 });
+    }
+  }
+
+  private async callTool(name: string, args: Record<string, any>): Promise<McpToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw Object.assign(new Error(`Unknown tool: ${name}`), { code: -32602 });
+    }
+
+    const missing = ((tool.inputSchema.required as string[] | undefined) || []).filter(key => args[key] === undefined);
+    if (missing.length > 0) {
+      return errorResult(`Missing required parameter: ${missing.join(', ')}`);
+    }
+
+    try {
+      const result = await tool.handler(args);
+      const content: McpContent[] = [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result, null, 2) }];
+      return { content };
+    } catch (error) {
+      if (error instanceof InvalidParamsError) throw error;
+      console.warn(`[McpServer] ${name} failed:`, error instanceof Error ? error.message : error);
+      return errorResult(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private acceptSocket(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.setEncoding('utf8');
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', error => console.warn('[McpServer] Socket error:', error.message));
+
+    // The first line must be the token; everything after it is JSON-RPC
+    let pending = '';
+    const onAuth = (chunk: string) => {
+      pending += chunk;
+      const newline = pending.indexOf('\n');
+      if (newline === -1) return;
+
+      socket.removeListener('data', onAuth);
+      if (pending.substring(0, newline).trim() !== this.token) {
+        console.warn('[McpServer] Rejected a socket client with a wrong token');
+        socket.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Invalid token' } }) + '\n');
+        return;
+      }
+
+      this.connect(socket, socket);
+      const rest = pending.substring(newline + 1);
+      if (rest) socket.emit('data', rest);
+    };
+    socket.on('data', onAuth);
+  }
+}
+
+function errorResult(message: string): McpToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
@@ -0,0 +1,291 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IssueViewProvider } from '../issueViewProvider';
+import { Issue, IssueMode, ISSUE_MODES, ISSUE_PRIORITIES, ISSUE_STATUSES, Todo } from '../storage/issueSchema';
+import { findTodo } from '../storage/todos';
+import { InvalidParamsError, McpServer } from './mcpServer';
+import { CONNECTION_FILE, McpServerConnectionInfo } from './stdioBridge';
+
+/**
+ * Mira MCP Server
+ *
+ * Exposes the issues and SPARC workflows of the open workspace to other
+ * agents and scripts as MCP tools. The tools call the same IssueViewProvider
+ * methods as the sidebar, so changes show up in the sidebar and in the
+ * `.nys` files immediately.
+ *
+ * The server listens on a localhost socket and writes its port and token to
+ * `.nys/mcp-server.json` (removed again on stop). Stdio MCP clients connect
+ * through `out/mcp/stdioBridge.js`.
+ */
+
+const UPDATABLE_FIELDS = ['title', 'description', 'status', 'mode', 'priority', 'labels', 'assigneeRole', 'estimate', 'dueDate'];
+const STRING_FIELDS = ['title', 'description', 'assigneeRole', 'estimate', 'dueDate'];
+
+export class MiraMcpServer {
+  private server: McpServer | null = null;
+
+  constructor(private readonly provider: IssueViewProvider, private readonly extensionUri: vscode.Uri) {}
+
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  /**
+   * Start listening (idempotent); resolves with the port
+   */
+  async start(port: number = 0): Promise<number> {
+    if (this.server) {
+      return this.server.port!;
+    }
+
+    const nysFolder = this.getNysFolder();
+    if (!nysFolder) {
+      throw new Error('No workspace folder found');
+    }
+
+    const server = new McpServer('mira');
+    this.registerTools(server);
+    const actualPort = await server.listen(port);
+
+    const info: McpServerConnectionInfo = { port: actualPort, token: server.token, pid: process.pid, startedAt: new Date().toISOString() };
+    await vscode.workspace.fs.createDirectory(nysFolder);
+    await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(nysFolder, CONNECTION_FILE), Buffer.from(JSON.stringify(info, null, 2), 'utf8'));
+
+    this.server = server;
+    return actualPort;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    this.server.close();
+    this.server = null;
+
+    const nysFolder = this.getNysFolder();
+    if (nysFolder) {
+      try {
+        await vscode.workspace.fs.delete(vscode.Uri.joinPath(nysFolder, CONNECTION_FILE));
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  /**
+   * The `mcpServers` entry an MCP client needs to launch Mira over stdio
+   */
+  getClientConfig(): Record<string, unknown> {
+    const workspace = vscode.workspace.workspaceFolders?.[0].uri.fsPath || '';
+    return {
+      mira: {
+        command: 'node',
+        args: [path.join(this.extensionUri.fsPath, 'out', 'mcp', 'stdioBridge.js'), '--workspace', workspace]
+      }
+    };
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+
+  private getNysFolder(): vscode.Uri | null {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    return workspaceFolders && workspaceFolders.length > 0 ? vscode.Uri.joinPath(workspaceFolders[0].uri, '.nys') : null;
+  }
+
+  private registerTools(server: McpServer): void {
+    server.registerTool({
+      name: 'list_issues',
+      description: 'List Mira issues, optionally filtered with the sidebar query syntax (e.g. "status:open label:backend updated:<7d")',
+      inputSchema: {
+        type: 'object',
+        properties: { query: { type: 'string', description: 'Issue query; empty lists all issues' } }
+      },
+      handler: async args => (await this.provider.getIssues(args.query)).map(summarizeIssue)
+    });
+
+    server.registerTool({
+      name: 'create_issue',
+      description: 'Create a Mira issue, optionally from a template in .nys/templates',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          template: { type: 'string', description: 'Template id, e.g. "bug"' },
+          values: { type: 'object', description: 'Template placeholder values', additionalProperties: { type: 'string' } }
+        },
+        required: ['title']
+      },
+      handler: async args => this.provider.addIssue(String(args.title), String(args.description || ''), {
+        templateId: args.template,
+        values: args.values
+      })
+    });
+
+    server.registerTool({
+      name: 'update_issue',
+      description: `Update fields of a Mira issue (${UPDATABLE_FIELDS.join(', ')})`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueId: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          status: { type: 'string', enum: ISSUE_STATUSES },
+          mode: { type: 'string', enum: ISSUE_MODES },
+          priority: { type: 'string', enum: ISSUE_PRIORITIES },
+          labels: { type: 'array', items: { type: 'string' } },
+          assigneeRole: { type: 'string' },
+          estimate: { type: 'string' },
+          dueDate: { type: 'string', description: 'YYYY-MM-DD' }
+        },
+        required: ['issueId']
+      },
+      handler: async args => {
+        const updates = validateUpdates(args);
+        return requireFound(await this.provider.updateIssue(args.issueId, updates), args.issueId);
+      }
+    });
+
+    server.registerTool({
+      name: 'add_todo',
+      description: 'Add a todo to a Mira issue, optionally as a subtask of another todo',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueId: { type: 'string' },
+          content: { type: 'string' },
+          parentTodoId: { type: 'string' }
+        },
+        required: ['issueId', 'content']
+      },
+      handler: async args => {
+        if (args.parentTodoId !== undefined) {
+          const issue = (await this.provider.getIssues()).find(candidate => candidate.id === args.issueId);
+          if (typeof args.parentTodoId !== 'string' || (issue && !findTodo(issue.todos, args.parentTodoId))) {
+            throw new InvalidParamsError(`Todo "${args.parentTodoId}" not found in issue ${args.issueId}`);
+          }
+        }
+        return requireFound<Todo>(await this.provider.addTodo(args.issueId, String(args.content), args.parentTodoId), args.issueId);
+      }
+    });
+
+    server.registerTool({
+      name: 'run_workflow',
+      description: 'Run the SPARC workflow for an issue in design, build or debug mode, like a chat message in the Mira sidebar',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueId: { type: 'string' },
+          mode: { type: 'string', enum: ISSUE_MODES },
+          input: { type: 'string', description: 'The request for the workflow agents' }
+        },
+        required: ['issueId', 'mode', 'input']
+      },
+      handler: async args => {
+        if (!ISSUE_MODES.includes(args.mode)) {
+          throw new Error(`Invalid mode "${args.mode}" (use ${ISSUE_MODES.join(', ')})`);
+        }
+        const state = await this.provider.runWorkflow(args.issueId, args.mode as IssueMode, String(args.input));
+        return { ...state, artifacts: await this.provider.listArtifacts(args.issueId) };
+      }
+    });
+
+    server.registerTool({
+      name: 'get_workflow_status',
+      description: 'Current SPARC phase, progress and artifact files of an issue',
+      inputSchema: {
+        type: 'object',
+        properties: { issueId: { type: 'string' } },
+        required: ['issueId']
+      },
+      handler: async args => {
+        const state = await this.provider.getWorkflowState(args.issueId);
+        const artifacts = await this.provider.listArtifacts(args.issueId);
+        if (!state) {
+          return { issueId: args.issueId, started: false, artifacts };
+        }
+        return { ...state, started: true, artifacts };
+      }
+    });
+
+    server.registerTool({
+      name: 'get_artifact',
+      description: 'Read an artifact of an issue from .nys/<issueId>/ (e.g. requirements, architecture, implementation)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          issueId: { type: 'string' },
+          name: { type: 'string', description: 'Artifact file name; ".md" may be omitted' }
+        },
+        required: ['issueId', 'name']
+      },
+      handler: async args => this.provider.getArtifact(args.issueId, String(args.name))
+    });
+  }
+}
+
+function summarizeIssue(issue: Issue): Record<string, unknown> {
+  return {
+    id: issue.id,
+    title: issue.title,
+    status: issue.status,
+    mode: issue.mode,
+    priority: issue.priority,
+    labels: issue.labels,
+    blockedBy: issue.blockedBy,
+    openTodos: countOpenTodos(issue.todos),
+    updatedAt: issue.updatedAt
+  };
+}
+
+function countOpenTodos(todos: Todo[]): number {
+  return todos.reduce((count, todo) => count + (todo.completed ? 0 : 1) + countOpenTodos(todo.children || []), 0);
+}
+
+/**
+ * The fields to change, each checked against its type; throws before
+ * anything is changed
+ */
+function validateUpdates(args: Record<string, any>): Partial<Issue> {
+  const updates: Record<string, unknown> = {};
+  for (const field of UPDATABLE_FIELDS) {
+    if (args[field] !== undefined) updates[field] = args[field];
+  }
+
+  for (const field of STRING_FIELDS) {
+    if (updates[field] !== undefined && typeof updates[field] !== 'string') {
+      throw new InvalidParamsError(`${field} must be a string`);
+    }
+  }
+  if (typeof updates.title === 'string' && updates.title.trim() === '') {
+    throw new InvalidParamsError('title cannot be empty');
+  }
+  if (typeof updates.dueDate === 'string' && !/^\d{4}-\d{2}-\d{2}$/.test(updates.dueDate)) {
+    throw new InvalidParamsError(`Invalid dueDate "${updates.dueDate}" (use YYYY-MM-DD)`);
+  }
+
+  const allowed: Record<string, string[]> = { status: ISSUE_STATUSES, mode: ISSUE_MODES, priority: ISSUE_PRIORITIES };
+  for (const [field, values] of Object.entries(allowed)) {
+    if (updates[field] !== undefined && !values.includes(updates[field] as string)) {
+      throw new InvalidParamsError(`Invalid ${field} "${updates[field]}" (use ${values.join(', ')})`);
+    }
+  }
+  if (updates.labels !== undefined && (!Array.isArray(updates.labels) || updates.labels.some(label => typeof label !== 'string'))) {
+    throw new InvalidParamsError('labels must be an array of strings');
+  }
+  if (Object.keys(updates).length === 0) {
+    throw new InvalidParamsError(`Nothing to update (fields: ${UPDATABLE_FIELDS.join(', ')})`);
+  }
+
+  return updates as Partial<Issue>;
+}
+
+function requireFound<T>(value: T | undefined, issueId: string): T {
+  if (value === undefined) {
+    throw new Error(`Issue ${issueId} not found`);
+  }
+  return value;
+}
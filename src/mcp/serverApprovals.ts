@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { McpServerConfig } from './mcpClient';
+
+/**
+ * MCP Server Approvals
+ *
+ * The `mcpServers` in `.nys/config.json` come with the repository, so
+ * opening a repository must not be enough to run the commands it names.
+ * A server is only started in a trusted workspace, and only after the user
+ * has allowed its exact command line once. Approvals are kept in the
+ * extension's global state, never in the workspace.
+ */
+
+const APPROVALS_KEY = 'mira.approvedMcpServers';
+
+export class McpServerApprovals {
+  constructor(private readonly state: vscode.Memento) {}
+
+  /**
+   * Whether `server` may be started, asking the user the first time. Pass
+   * the config as it will run, with its working folder filled in.
+   */
+  async approve(name: string, server: McpServerConfig): Promise<boolean> {
+    if (!vscode.workspace.isTrusted) {
+      console.warn(`[McpServerApprovals] Not starting MCP server "${name}" in an untrusted workspace`);
+      return false;
+    }
+
+    const key = approvalKey(server);
+    if (this.approved().includes(key)) return true;
+
+    const env = Object.keys(server.env || {});
+    const choice = await vscode.window.showWarningMessage(
+      `Start the MCP server "${name}" from .nys/config.json?`,
+      {
+        modal: true,
+        detail: `It runs: ${commandLine(server)}${server.cwd ? `\nin ${server.cwd}` : ''}${env.length > 0 ? `\nwith ${env.join(', ')} set` : ''}\n\nOnly allow commands you trust. Mira remembers this command line.`
+      },
+      'Allow'
+    );
+    if (choice !== 'Allow') {
+      console.warn(`[McpServerApprovals] MCP server "${name}" was not allowed`);
+      return false;
+    }
+
+    await this.state.update(APPROVALS_KEY, [...this.approved(), key]);
+    return true;
+  }
+
+  private approved(): string[] {
+    const approved = this.state.get<unknown>(APPROVALS_KEY);
+    return Array.isArray(approved) ? approved.filter((key): key is string => typeof key === 'string') : [];
+  }
+}
+
+/**
+ * Everything that decides what actually runs: a changed argument, working
+ * folder or environment needs a new approval. Hashed, so no env values are
+ * stored.
+ */
+function approvalKey(server: McpServerConfig): string {
+  const env = Object.entries(server.env || {}).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify([server.command, server.args || [], server.cwd || '', env])).digest('hex');
+}
+
+function commandLine(server: McpServerConfig): string {
+  return [server.command, ...(server.args || [])].map(part => /\s/.test(part) ? JSON.stringify(part) : part).join(' ');
+}
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+
+/**
+ * Mira MCP stdio bridge
+ *
+ * Lets MCP clients that launch stdio servers talk to the Mira MCP server
+ * running inside VS Code. Reads the port and token the extension wrote to
+ * `<workspace>/.nys/mcp-server.json`, connects, and pipes stdin/stdout to
+ * the socket:
+ *
+ *   node <extension>/out/mcp/stdioBridge.js --workspace /path/to/project
+ *
+ * The workspace defaults to `MIRA_WORKSPACE`, then the current directory.
+ */
+
+export interface McpServerConnectionInfo {
+  port: number;
+  token: string;
+  pid: number;
+  startedAt: string;
+}
+
+export const CONNECTION_FILE = 'mcp-server.json';
+
+function workspaceArg(argv: string[]): string {
+  const index = argv.indexOf('--workspace');
+  if (index !== -1 && argv[index + 1]) {
+    return argv[index + 1];
+  }
+  return process.env.MIRA_WORKSPACE || process.cwd();
+}
+
+function main(): void {
+  const workspace = path.resolve(workspaceArg(process.argv.slice(2)));
+  const infoPath = path.join(workspace, '.nys', CONNECTION_FILE);
+
+  let info: McpServerConnectionInfo;
+  try {
+    info = JSON.parse(fs.readFileSync(infoPath, 'utf8'));
+  } catch {
+    process.stderr.write(`mira-mcp: ${infoPath} not found. Start the server in VS Code with "Mira: Start MCP Server".\n`);
+    process.exit(1);
+    return;
+  }
+
+  const socket = net.connect(info.port, '127.0.0.1', () => {
+    socket.write(info.token + '\n');
+    process.stdin.pipe(socket);
+  });
+  socket.pipe(process.stdout);
+
+  socket.on('error', error => {
+    process.stderr.write(`mira-mcp: cannot reach the Mira MCP server on port ${info.port}: ${error.message}\n`);
+    process.exit(1);
+  });
+  socket.on('close', () => process.exit(0));
+  process.stdin.on('end', () => socket.end());
+}
+
+if (require.main === module) {
+  main();
+}
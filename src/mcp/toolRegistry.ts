@@ -0,0 +1,265 @@
+import { NysConfigStore } from '../config/nysConfig';
+import { McpServerConfig, McpStdioClient, McpToolResult } from './mcpClient';
+import { McpServerApprovals } from './serverApprovals';
+
+/**
+ * MCP Tool Registry
+ *
+ * Launches the stdio MCP servers listed under `mcpServers` in
+ * `.nys/config.json`, discovers their tools and invokes them for the workflow
+ * agents. Each server may restrict what agents can reach:
+ *
+ *   "mcpServers": {
+ *     "github": { "command": "docker", "args": [...], "allowTools": ["get_*", "list_*"] },
+ *     "fs": { "command": "npx", "args": [...], "denyTools": ["write_file", "move_file"] }
+ *   }
+ *
+ * Without `allowTools` every tool is allowed; `denyTools` always wins. Servers
+ * are started on first use, and only in a trusted workspace once the user
+ * has allowed their command (see serverApprovals.ts). A server that is not
+ * allowed or fails to start is skipped.
+ */
+
+export interface RegisteredTool {
+  server: string;
+  name: string;
+  // `server/name`, the form agents use in TOOL_CALL blocks
+  qualifiedName: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  allowed: boolean;
+}
+
+export interface ToolInvocation {
+  server?: string;
+  tool: string;
+  parameters: Record<string, unknown>;
+  result: any;
+  startedAt: Date;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface ToolCallRequest {
+  tool: string;
+  params: Record<string, unknown>;
+}
+
+const TOOL_CALL_BLOCK_PATTERN = /```\s*TOOL_CALL[^\n]*\n([\s\S]*?)```/g;
+
+/**
+ * Extract the TOOL_CALL code blocks (`{"tool": "...", "params": {...}}`) from a model response
+ */
+export function parseToolCalls(content: string): ToolCallRequest[] {
+  const calls: ToolCallRequest[] = [];
+
+  TOOL_CALL_BLOCK_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOOL_CALL_BLOCK_PATTERN.exec(content)) !== null) {
+    try {
+      const parsed = JSON.parse(match[1].trim());
+      if (parsed && typeof parsed.tool === 'string') {
+        const params = parsed.params && typeof parsed.params === 'object' && !Array.isArray(parsed.params) ? parsed.params : {};
+        calls.push({ tool: parsed.tool, params });
+      }
+    } catch {
+      console.warn('[ToolRegistry] Ignoring malformed TOOL_CALL block:', match[1].substring(0, 200));
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Whether a server's allow/deny lists let agents call `tool`
+ */
+export function isToolAllowed(config: McpServerConfig, tool: string): boolean {
+  const matches = (patterns?: string[]) => Array.isArray(patterns) && patterns.some(pattern => globMatch(pattern, tool));
+
+  if (matches(config.denyTools)) return false;
+  if (Array.isArray(config.allowTools)) return matches(config.allowTools);
+  return true;
+}
+
+export class McpToolRegistry {
+  private clients: Map<string, McpStdioClient> = new Map();
+  private servers: Map<string, McpServerConfig> | null = null;
+  private tools: RegisteredTool[] | null = null;
+  private discovering: Promise<RegisteredTool[]> | null = null;
+
+  constructor(private readonly config: NysConfigStore, private readonly approvals: McpServerApprovals, private readonly workspaceRoot?: string) {}
+
+  /**
+   * All tools of the enabled servers, including the ones the policy blocks
+   */
+  listTools(): Promise<RegisteredTool[]> {
+    if (this.tools) return Promise.resolve(this.tools);
+    if (!this.discovering) {
+      this.discovering = this.discoverTools().then(tools => {
+        this.tools = tools;
+        this.discovering = null;
+        return tools;
+      }, error => {
+        this.discovering = null;
+        throw error;
+      });
+    }
+    return this.discovering;
+  }
+
+  /**
+   * The tools agents may call
+   */
+  async listAllowedTools(): Promise<RegisteredTool[]> {
+    return (await this.listTools()).filter(tool => tool.allowed);
+  }
+
+  /**
+   * Call a tool by `server/tool`, or by bare name when only one server has it.
+   * Never throws: failures, including policy denials and an abort through
+   * `signal`, come back as an unsuccessful invocation.
+   */
+  async invoke(toolName: string, parameters: Record<string, unknown>, signal?: AbortSignal): Promise<ToolInvocation> {
+    const startedAt = new Date();
+    const invocation = (fields: Partial<ToolInvocation>): ToolInvocation => ({
+      tool: toolName,
+      parameters,
+      result: null,
+      startedAt,
+      durationMs: Date.now() - startedAt.getTime(),
+      success: false,
+      ...fields
+    });
+
+    let tool: RegisteredTool;
+    try {
+      tool = await this.resolveTool(toolName);
+    } catch (error) {
+      return invocation({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (!tool.allowed) {
+      console.warn(`[ToolRegistry] Blocked call to ${tool.qualifiedName} by server policy`);
+      return invocation({ server: tool.server, tool: tool.name, error: `Tool "${tool.qualifiedName}" is not allowed by the ${tool.server} server policy` });
+    }
+
+    try {
+      const result = await this.clients.get(tool.server)!.callTool(tool.name, parameters, signal);
+      const text = toolResultText(result);
+      const done = invocation({
+        server: tool.server,
+        tool: tool.name,
+        result: parseJsonOrText(text),
+        success: !result.isError,
+        error: result.isError ? text || 'unknown error' : undefined
+      });
+      console.log(`[ToolRegistry] ${tool.qualifiedName} ${done.success ? 'succeeded' : 'failed'} in ${done.durationMs}ms`);
+      return done;
+    } catch (error) {
+      return invocation({ server: tool.server, tool: tool.name, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Stop every server and forget the discovered tools, so the next call
+   * re-reads `.nys/config.json`
+   */
+  reload(): void {
+    this.dispose();
+    this.config.invalidate();
+  }
+
+  dispose(): void {
+    for (const client of this.clients.values()) {
+      client.dispose();
+    }
+    this.clients.clear();
+    this.servers = null;
+    this.tools = null;
+  }
+
+  private async resolveTool(toolName: string): Promise<RegisteredTool> {
+    const tools = await this.listTools();
+    const slash = toolName.indexOf('/');
+
+    if (slash !== -1) {
+      const server = toolName.substring(0, slash);
+      const name = toolName.substring(slash + 1);
+      const tool = tools.find(t => t.server === server && t.name === name);
+      if (!tool) {
+        throw new Error(this.servers?.has(server) ? `Server "${server}" has no tool "${name}"` : `Unknown MCP server "${server}"`);
+      }
+      return tool;
+    }
+
+    const candidates = tools.filter(t => t.name === toolName);
+    if (candidates.length === 0) {
+      throw new Error(`Unknown tool "${toolName}"`);
+    }
+    if (candidates.length > 1) {
+      throw new Error(`Tool "${toolName}" is ambiguous, use one of: ${candidates.map(t => t.qualifiedName).join(', ')}`);
+    }
+    return candidates[0];
+  }
+
+  private async discoverTools(): Promise<RegisteredTool[]> {
+    const config = await this.config.load();
+    const configured = config.mcpServers && typeof config.mcpServers === 'object' ? config.mcpServers : {};
+
+    this.servers = new Map();
+    for (const [name, server] of Object.entries(configured)) {
+      if (server && typeof server.command === 'string' && !server.disabled) {
+        this.servers.set(name, server);
+      }
+    }
+
+    const tools: RegisteredTool[] = [];
+    for (const [name, server] of this.servers) {
+      let client = this.clients.get(name);
+      if (!client) {
+        const launch = { ...server, cwd: server.cwd || this.workspaceRoot };
+        if (!(await this.approvals.approve(name, launch))) continue;
+        client = new McpStdioClient(name, launch);
+        this.clients.set(name, client);
+      }
+
+      try {
+        for (const tool of await client.listTools()) {
+          tools.push({
+            server: name,
+            name: tool.name,
+            qualifiedName: `${name}/${tool.name}`,
+            description: tool.description,
+            inputSchema: tool.inputSchema,
+            allowed: isToolAllowed(server, tool.name)
+          });
+        }
+      } catch (error) {
+        console.error(`[ToolRegistry] Failed to list tools of ${name}:`, error instanceof Error ? error.message : error);
+        client.dispose();
+        this.clients.delete(name);
+      }
+    }
+
+    console.log(`[ToolRegistry] Discovered ${tools.length} tool(s) on ${this.clients.size} server(s)`);
+    return tools;
+  }
+}
+
+function toolResultText(result: McpToolResult): string {
+  return result.content.filter(item => item.type === 'text').map(item => item.text || '').join('');
+}
+
+function parseJsonOrText(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function globMatch(pattern: string, value: string): boolean {
+  const regex = new RegExp('^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+  return regex.test(value);
+}
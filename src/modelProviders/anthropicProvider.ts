@@ -0,0 +1,152 @@
+import { CompletionRequest, CompletionResult, ModelConfig, ModelMessage, ModelProvider } from './modelProviderInterface';
+import { AIRequestError, errorForStatus } from './requestPolicy';
+
+/**
+ * Anthropic Provider
+ *
+ * Claude models through the Anthropic Messages API, called over plain HTTP.
+ * Streaming reads the server-sent events of `"stream": true` responses.
+ */
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+
+// Errors sent mid-stream, which have no HTTP status
+const STREAM_ERROR_KINDS: Record<string, AIRequestError['kind']> = {
+  overloaded_error: 'server',
+  api_error: 'server',
+  rate_limit_error: 'rateLimit',
+  authentication_error: 'auth',
+  invalid_request_error: 'badRequest'
+};
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+export class AnthropicProvider implements ModelProvider {
+  readonly kind = 'anthropic' as const;
+  readonly model: string;
+
+  constructor(private readonly config: ModelConfig, private readonly apiKey: string | undefined) {
+    this.model = config.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const body = {
+      model: this.model,
+      max_tokens: request.maxTokens ?? this.config.maxTokens ?? 2000,
+      temperature: request.temperature ?? this.config.temperature ?? 0,
+      ...(system ? { system } : {}),
+      messages,
+      stream: !!request.onToken
+    };
+
+    const baseUrl = (this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'anthropic-version': API_VERSION,
+        ...(this.apiKey ? { 'x-api-key': this.apiKey } : {}),
+        ...(this.config.headers || {})
+      },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw errorForStatus(response.status, `Anthropic API error ${response.status}: ${text.substring(0, 500)}`, response.headers);
+    }
+
+    if (!request.onToken || !response.body) {
+      const data = await response.json();
+      const content = (data.content || [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+      return { content, model: data.model || this.model, usage: toUsage(data.usage) };
+    }
+
+    return this.readStream(response.body, request.onToken);
+  }
+
+  private async readStream(body: ReadableStream<Uint8Array>, onToken: (delta: string) => void): Promise<CompletionResult> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let model = this.model;
+    const usage: AnthropicUsage = {};
+
+    const handleEvent = (data: string) => {
+      const event = JSON.parse(data);
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          Object.assign(usage, event.message?.usage);
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            content += event.delta.text;
+            onToken(event.delta.text);
+          }
+          break;
+        case 'message_delta':
+          Object.assign(usage, event.usage);
+          break;
+        case 'error':
+          throw new AIRequestError(`Anthropic stream error: ${event.error?.message || data}`, STREAM_ERROR_KINDS[event.error?.type] || 'unknown');
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.substring(0, newline).trim();
+        buffer = buffer.substring(newline + 1);
+        if (line.startsWith('data:')) {
+          handleEvent(line.substring(5).trim());
+        }
+      }
+    }
+
+    return { content, model, usage: toUsage(usage) };
+  }
+}
+
+/**
+ * The Messages API takes the system prompt separately and needs the turns
+ * to alternate, starting with the user
+ */
+function toAnthropicMessages(input: ModelMessage[]): { system: string; messages: { role: 'user' | 'assistant'; content: string }[] } {
+  const system = input.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+  const messages: { role: 'user' | 'assistant'; content: string }[] = [];
+
+  for (const message of input) {
+    if (message.role === 'system') continue;
+    if (messages.length === 0 && message.role === 'assistant') continue;
+
+    const last = messages[messages.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      messages.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return { system, messages };
+}
+
+function toUsage(usage?: AnthropicUsage): CompletionResult['usage'] {
+  return usage && usage.input_tokens !== undefined
+    ? { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens || 0 }
+    : undefined;
+}
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { CompletionRequest, CompletionResult, ModelConfig, ModelMessage, ModelProvider, ModelProviderKind } from './modelProviderInterface';
+import { AIRequestError } from './requestPolicy';
+
+/**
+ * Model Cassettes
+ *
+ * Records model calls to `.nys/cassettes/` and plays them back, so whole
+ * workflows can run deterministically without network access or API keys,
+ * e.g. on CI. Each request/response pair is one JSON file named after a hash
+ * of the normalized prompt. Set the mode in `.nys/config.json`:
+ *
+ *   "cassettes": { "mode": "record" }
+ *
+ * or with the MIRA_CASSETTES environment variable (`record`, `replay` or
+ * `off`), which wins over the config. In replay mode a request without a
+ * recording fails instead of reaching the model.
+ */
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export const CASSETTE_MODES: CassetteMode[] = ['off', 'record', 'replay'];
+
+export interface CassetteConfig {
+  mode?: CassetteMode;
+  // Relative to .nys; defaults to "cassettes"
+  folder?: string;
+}
+
+export interface CassetteEntry {
+  key: string;
+  model: string;
+  recordedAt: string;
+  request: { messages: ModelMessage[] };
+  response: CompletionResult;
+}
+
+// Values that change from run to run and would otherwise change the key
+const VOLATILE_PATTERNS: [RegExp, string][] = [
+  [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g, '<time>'],
+  [/\b1\d{12}\b/g, '<id>']
+];
+
+/**
+ * The prompt as the key sees it: line endings, trailing spaces and blank
+ * line runs evened out, timestamps, Date.now() ids and the workspace path
+ * replaced by placeholders
+ */
+export function normalizePrompt(messages: ModelMessage[], workspacePath?: string): string {
+  return messages.map(message => {
+    let content = message.content.replace(/\r\n/g, '\n');
+    if (workspacePath) {
+      content = content.split(workspacePath).join('<workspace>');
+    }
+    for (const [pattern, placeholder] of VOLATILE_PATTERNS) {
+      content = content.replace(pattern, placeholder);
+    }
+    content = content.split('\n').map(line => line.trimEnd()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    return `${message.role}:\n${content}`;
+  }).join('\n\n');
+}
+
+export function cassetteKey(messages: ModelMessage[], workspacePath?: string): string {
+  return createHash('sha256').update(normalizePrompt(messages, workspacePath)).digest('hex');
+}
+
+/**
+ * Reads and writes the recordings in one cassette folder
+ */
+export class CassetteStore {
+  constructor(readonly folder: vscode.Uri, private readonly workspacePath?: string) {}
+
+  key(messages: ModelMessage[]): string {
+    return cassetteKey(messages, this.workspacePath);
+  }
+
+  async get(key: string): Promise<CassetteEntry | undefined> {
+    try {
+      const content = await vscode.workspace.fs.readFile(this.entryUri(key));
+      return JSON.parse(Buffer.from(content).toString('utf8'));
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError)) {
+        console.warn(`[Cassettes] Ignoring unreadable recording ${key}:`, error instanceof Error ? error.message : error);
+      }
+      return undefined;
+    }
+  }
+
+  async put(entry: CassetteEntry): Promise<void> {
+    await vscode.workspace.fs.createDirectory(this.folder);
+    await vscode.workspace.fs.writeFile(this.entryUri(entry.key), Buffer.from(JSON.stringify(entry, null, 2) + '\n', 'utf8'));
+  }
+
+  private entryUri(key: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.folder, `${key}.json`);
+  }
+}
+
+/**
+ * Passes calls on to another provider and saves each successful response
+ */
+export class RecordingModelProvider implements ModelProvider {
+  readonly kind: ModelProviderKind;
+  readonly model: string;
+
+  constructor(private readonly inner: ModelProvider, private readonly store: CassetteStore) {
+    this.kind = inner.kind;
+    this.model = inner.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const result = await this.inner.complete(request);
+    const key = this.store.key(request.messages);
+    try {
+      await this.store.put({ key, model: this.model, recordedAt: new Date().toISOString(), request: { messages: request.messages }, response: result });
+      console.log(`[Cassettes] Recorded ${key.substring(0, 12)} (${this.model})`);
+    } catch (error) {
+      // A failed recording should not fail the run
+      console.error(`[Cassettes] Failed to record ${key.substring(0, 12)}:`, error);
+    }
+    return result;
+  }
+}
+
+/**
+ * Answers from the recordings only; never calls the model
+ */
+export class ReplayModelProvider implements ModelProvider {
+  readonly kind: ModelProviderKind;
+  readonly model: string;
+
+  constructor(model: ModelConfig, private readonly store: CassetteStore) {
+    this.kind = model.provider;
+    this.model = model.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const key = this.store.key(request.messages);
+    const entry = await this.store.get(key);
+    if (!entry) {
+      throw new AIRequestError(`No recorded response for this request (${key.substring(0, 12)}) in ${this.store.folder.fsPath}`, 'replayMiss');
+    }
+    if (request.signal?.aborted) {
+      const error = new Error('Request aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+
+    console.log(`[Cassettes] Replayed ${key.substring(0, 12)}`);
+    request.onToken?.(entry.response.content);
+    return entry.response;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Default Mock Fixtures
+ *
+ * What the mock provider answers when no model is configured and the
+ * workspace has no fixture for the phase. Phases with an artifact schema get
+ * JSON that passes it, so the whole graph runs; the implementation is a small
+ * multi-file Node.js program.
+ */
+
+const json = (data: unknown) => '```json\n' + JSON.stringify(data, null, 2) + '\n```';
+
+const requirements = {
+  summary: 'Mock specification: a command line tool that greets a user by name.',
+  requirements: [
+    {
+      id: 'REQ-1',
+      title: 'Greet by name',
+      description: 'The tool prints a greeting for the name given on the command line.',
+      type: 'functional',
+      priority: 'must',
+      acceptanceCriteria: ['Running it with "Ada" prints "Hello, Ada!"']
+    },
+    {
+      id: 'REQ-2',
+      title: 'Default name',
+      description: 'Without a name the tool greets "world".',
+      type: 'functional',
+      priority: 'should',
+      acceptanceCriteria: ['Running it without arguments prints "Hello, world!"']
+    }
+  ],
+  constraints: ['Node.js, no dependencies']
+};
+
+export const DEFAULT_MOCK_FIXTURES: Record<string, Record<string, string>> = {
+  design: {
+    specification: json(requirements),
+
+    pseudocode: json({
+      summary: 'Mock pseudocode: read the name, build the greeting, print it.',
+      modules: [
+        { name: 'greet', purpose: 'Build the greeting text', pseudocode: 'FUNCTION greet(name)\n  IF name is empty THEN name = "world"\n  RETURN "Hello, " + name + "!"\nEND', requirements: ['REQ-1', 'REQ-2'] },
+        { name: 'main', purpose: 'Command line entry point', pseudocode: 'name = first command line argument\nPRINT greet(name)', requirements: ['REQ-1'] }
+      ]
+    }),
+
+    architecture: json({
+      summary: 'Mock architecture: a pure greeting module behind a thin command line entry point.',
+      components: [
+        { name: 'Greeter', responsibility: 'Builds greetings', requirements: ['REQ-1', 'REQ-2'] },
+        { name: 'CLI', responsibility: 'Reads arguments and prints output', dependsOn: ['Greeter'], requirements: ['REQ-1'] }
+      ],
+      interfaces: [
+        { name: 'greet', provider: 'Greeter', consumers: ['CLI'], description: 'Returns the greeting for a name.', signature: 'greet(name?: string): string' }
+      ],
+      decisions: [{ decision: 'No dependencies', rationale: 'The tool is small enough for the standard library.' }],
+      diagrams: {
+        component: 'flowchart LR\n  CLI -->|greet| Greeter',
+        sequence: 'sequenceDiagram\n  actor User\n  User->>CLI: greeter Ada\n  CLI->>Greeter: greet("Ada")\n  Greeter-->>CLI: Hello, Ada!\n  CLI-->>User: Hello, Ada!',
+        dataFlow: 'flowchart LR\n  Args[Command line arguments] --> CLI\n  CLI -->|name| Greeter\n  Greeter -->|greeting| CLI\n  CLI --> Stdout[Standard output]'
+      }
+    }),
+
+    refinement: json({
+      ...requirements,
+      summary: 'Mock refined specification: the greeting requirements with the command line contract spelled out.',
+      constraints: [...requirements.constraints, 'The greeting is the only output, followed by a newline']
+    }),
+
+    diagrams: json({
+      component: 'flowchart LR\n  CLI -->|greet| Greeter',
+      sequence: 'sequenceDiagram\n  actor User\n  User->>CLI: greeter Ada\n  CLI->>Greeter: greet("Ada")\n  Greeter-->>CLI: Hello, Ada!\n  CLI-->>User: Hello, Ada! and a newline',
+      dataFlow: 'flowchart LR\n  Args[Command line arguments] --> CLI\n  CLI -->|name| Greeter\n  Greeter -->|greeting| CLI\n  CLI -->|greeting and newline| Stdout[Standard output]'
+    }),
+
+    completion: '# Design Complete (mock)\n\nRequirements, pseudocode and architecture are ready for the build phase.'
+  },
+
+  build: {
+    implementation: json({
+      summary: 'Mock implementation of the greeting tool.',
+      files: [
+        {
+          path: 'package.json',
+          language: 'json',
+          content: '{\n  "name": "greeter",\n  "version": "1.0.0",\n  "scripts": { "start": "node src/index.js", "test": "jest" },\n  "devDependencies": { "jest": "^29.7.0" }\n}\n'
+        },
+        {
+          path: 'src/greet.js',
+          language: 'javascript',
+          content: 'function greet(name) {\n  return `Hello, ${name || \'world\'}!`;\n}\n\nmodule.exports = { greet };\n',
+          description: 'Greeter'
+        },
+        {
+          path: 'src/index.js',
+          language: 'javascript',
+          content: 'const { greet } = require(\'./greet\');\n\nconsole.log(greet(process.argv[2]));\n',
+          description: 'CLI'
+        }
+      ],
+      setup: ['npm install', 'npm start -- Ada']
+    }),
+
+    testing: json({
+      summary: 'Mock tests: the greeting with and without a name.',
+      files: [
+        {
+          path: 'test/greet.test.js',
+          language: 'javascript',
+          content: 'const { greet } = require(\'../src/greet\');\n\ntest(\'greets by name\', () => {\n  expect(greet(\'Ada\')).toBe(\'Hello, Ada!\');\n});\n\ntest(\'greets the world without a name\', () => {\n  expect(greet()).toBe(\'Hello, world!\');\n});\n',
+          requirements: ['REQ-1', 'REQ-2']
+        }
+      ]
+    })
+  },
+
+  debug: {
+    analysis: '# Analysis (mock)\n\nNo problems found: the mock provider does not inspect code.',
+
+    fix_generation: json({
+      summary: 'Mock fixes: no changes, as the mock provider does not inspect code.',
+      patches: []
+    })
+  }
+};
+
+export const FALLBACK_MOCK_FIXTURE = '# Mock Response\n\nThe mock provider has no fixture for this phase.';
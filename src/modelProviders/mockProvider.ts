@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { DEFAULT_MOCK_FIXTURES, FALLBACK_MOCK_FIXTURE } from './defaultMockFixtures';
+import { CompletionRequest, CompletionResult, ModelConfig, ModelProvider, ModelProviderKind } from './modelProviderInterface';
+
+/**
+ * Mock Provider
+ *
+ * Answers from fixtures instead of a model. It is used when no model has an
+ * API key, and can be selected like any model with `"provider": "mock"`.
+ * Each mode and phase answers with `.nys/fixtures/<mode>/<phase>.md` if the
+ * workspace has it, else with a built-in fixture. A fixture is the raw model
+ * response, so phases with an artifact schema need a ```json block.
+ *
+ * Settings in `.nys/config.json`:
+ *
+ *   "mock": { "fixtures": "fixtures", "allowExecution": false }
+ *
+ * Code from the mock is only written and run when `allowExecution` is true.
+ */
+
+export interface MockSettings {
+  // Relative to .nys; defaults to "fixtures"
+  fixtures?: string;
+  // Let the build phase write and run code from fixtures
+  allowExecution?: boolean;
+}
+
+export class MockModelProvider implements ModelProvider {
+  readonly kind: ModelProviderKind = 'mock';
+  readonly model: string;
+
+  constructor(model: ModelConfig, private readonly fixturesFolder: vscode.Uri | null) {
+    this.model = model.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const mode = request.mode || '';
+    const phase = request.phase || '';
+    const content = (await this.loadFixture(mode, phase)) ?? DEFAULT_MOCK_FIXTURES[mode]?.[phase] ?? FALLBACK_MOCK_FIXTURE;
+
+    if (request.signal?.aborted) {
+      const error = new Error('Request aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+    request.onToken?.(content);
+    return { content, model: this.model };
+  }
+
+  private async loadFixture(mode: string, phase: string): Promise<string | undefined> {
+    if (!this.fixturesFolder || !mode || !phase) return undefined;
+    try {
+      const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.fixturesFolder, mode, `${phase}.md`));
+      return Buffer.from(content).toString('utf8');
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import { ApiKeyStore, CREDENTIALS, endpointKeyId } from '../config/apiKeys';
+import { NysConfigStore } from '../config/nysConfig';
+import { AnthropicProvider } from './anthropicProvider';
+import { CASSETTE_MODES, CassetteConfig, CassetteMode, CassetteStore, RecordingModelProvider, ReplayModelProvider } from './cassettes';
+import { MockModelProvider, MockSettings } from './mockProvider';
+import { MODEL_PROVIDER_KINDS, ModelConfig, ModelProvider, ModelProviderKind } from './modelProviderInterface';
+import { OpenAIProvider } from './openAiProvider';
+import { ConcurrencyLimiter, DEFAULT_REQUEST_POLICY, RequestPolicy, RetryingModelProvider } from './requestPolicy';
+
+/**
+ * Model Provider Factory
+ *
+ * Picks the model for each SPARC phase from `.nys/config.json`:
+ *
+ *   "models": {
+ *     "gpt-4o": { "provider": "openai", "model": "gpt-4o" },
+ *     "local-lite": { "provider": "openai-compatible", "baseUrl": "http://localhost:11434/v1", "model": "llama3.2" }
+ *   },
+ *   "defaultModel": "gpt-4o",
+ *   "phaseModels": { "implementation": "local-lite" }
+ *
+ * Without a config the built-in "gpt-4" model is used, as before. Providers
+ * are created on first use and re-created when their config entry changes.
+ * With cassettes on, calls are recorded or replayed (see cassettes.ts).
+ *
+ * The config is shared through the repository, so `baseUrl`, `endpoint` and
+ * `apiKeyEnv` only take effect in a trusted workspace, and a stored provider
+ * key is only sent to that provider's own host (see apiKeys.ts).
+ */
+
+export const BUILTIN_MODELS: Record<string, ModelConfig> = {
+  'gpt-4': { provider: 'openai', model: 'gpt-4' }
+};
+
+export const DEFAULT_MODEL = 'gpt-4';
+
+export class ModelProviderFactory {
+  private providers: Map<string, { key: string; provider: ModelProvider }> = new Map();
+  // Shared by every phase, so parallel work cannot exceed the provider's limits
+  private readonly limiter = new ConcurrencyLimiter(DEFAULT_REQUEST_POLICY.maxConcurrent);
+
+  constructor(private readonly config: NysConfigStore | null, private readonly apiKeys: ApiKeyStore | null = null) {}
+
+  /**
+   * Built-in and configured models, by name
+   */
+  async listModels(): Promise<Record<string, ModelConfig>> {
+    const config = this.config ? await this.config.load() : {};
+    const models: Record<string, ModelConfig> = { ...BUILTIN_MODELS };
+
+    const configured = config.models && typeof config.models === 'object' ? config.models : {};
+    for (const [name, model] of Object.entries(configured)) {
+      if (model && MODEL_PROVIDER_KINDS.includes(model.provider) && typeof model.model === 'string') {
+        models[name] = model;
+      } else {
+        console.warn(`[ModelProviders] Ignoring model "${name}": needs "provider" (${MODEL_PROVIDER_KINDS.join(', ')}) and "model"`);
+      }
+    }
+
+    return models;
+  }
+
+  async getDefaultModel(): Promise<string> {
+    const config = this.config ? await this.config.load() : {};
+    return typeof config.defaultModel === 'string' ? config.defaultModel : DEFAULT_MODEL;
+  }
+
+  /**
+   * The model name for a phase: its phaseModels entry, else the default
+   */
+  async resolveModelName(phase?: string): Promise<string> {
+    const config = this.config ? await this.config.load() : {};
+    const phaseModels = config.phaseModels && typeof config.phaseModels === 'object' ? config.phaseModels : {};
+    const name: unknown = phase ? phaseModels[phase] : undefined;
+    return typeof name === 'string' ? name : this.getDefaultModel();
+  }
+
+  /**
+   * The model name and config for a phase
+   */
+  async resolveModel(phase?: string): Promise<{ name: string; config: ModelConfig }> {
+    const name = await this.resolveModelName(phase);
+    const config = (await this.listModels())[name];
+    if (!config) {
+      throw new Error(`Model "${name}" is not defined under "models" in .nys/config.json`);
+    }
+    return { name, config };
+  }
+
+  /**
+   * Retry and timeout settings for a model: its own entry, then "modelRequests"
+   */
+  async getRequestPolicy(model: ModelConfig): Promise<RequestPolicy> {
+    const config = this.config ? await this.config.load() : {};
+    const workspace = config.modelRequests && typeof config.modelRequests === 'object' ? config.modelRequests : {};
+    const pick = (...values: unknown[]) => values.find(value => typeof value === 'number' && value >= 0) as number | undefined;
+    return {
+      maxRetries: pick(model.maxRetries, workspace.maxRetries) ?? DEFAULT_REQUEST_POLICY.maxRetries,
+      timeoutMs: pick(model.timeoutMs, workspace.timeoutMs) ?? DEFAULT_REQUEST_POLICY.timeoutMs,
+      maxConcurrent: pick(workspace.maxConcurrent) || DEFAULT_REQUEST_POLICY.maxConcurrent
+    };
+  }
+
+  /**
+   * The provider for a phase, with retries, timeouts and the concurrency
+   * limit applied, or null when its API key is not set
+   */
+  async getProvider(phase?: string): Promise<ModelProvider | null> {
+    const { name, config: model } = await this.resolveModel(phase);
+
+    // Replay needs neither a key nor the network
+    const cassettes = await this.getCassettes();
+    if (cassettes && cassettes.mode === 'replay') {
+      return new ReplayModelProvider(model, cassettes.store);
+    }
+
+    if (!vscode.workspace.isTrusted && (model.baseUrl || model.endpoint || model.apiKeyEnv)) {
+      throw new Error(`Model "${name}" sets a custom endpoint or apiKeyEnv, which only take effect in a trusted workspace`);
+    }
+
+    const apiKey = await resolveApiKey(model, this.apiKeys);
+    if (!apiKey && needsApiKey(model)) {
+      console.warn(`[ModelProviders] No API key for model "${name}" (${model.provider})`);
+      return null;
+    }
+
+    const policy = await this.getRequestPolicy(model);
+    this.limiter.setLimit(policy.maxConcurrent);
+
+    const key = JSON.stringify([model, apiKey]);
+    let cached = this.providers.get(name);
+    if (!cached || cached.key !== key) {
+      const fixtures = model.provider === 'mock' ? (await this.getMockSettings()).fixtures : null;
+      cached = { key, provider: createModelProvider(model, apiKey, fixtures) };
+      this.providers.set(name, cached);
+      console.log(`[ModelProviders] Using ${model.provider} model ${model.model} ("${name}")${phase ? ` for ${phase}` : ''}`);
+    }
+
+    const provider = new RetryingModelProvider(cached.provider, policy, this.limiter);
+    return cassettes && cassettes.mode === 'record' ? new RecordingModelProvider(provider, cassettes.store) : provider;
+  }
+
+  /**
+   * The provider for when no model has an API key
+   */
+  async getMockProvider(): Promise<ModelProvider> {
+    return new MockModelProvider({ provider: 'mock', model: 'mock' }, (await this.getMockSettings()).fixtures);
+  }
+
+  /**
+   * The mock provider's fixtures folder, and whether its code may be run
+   */
+  async getMockSettings(): Promise<{ fixtures: vscode.Uri | null; allowExecution: boolean }> {
+    if (!this.config) return { fixtures: null, allowExecution: false };
+    const config = await this.config.load();
+    const settings: MockSettings = config.mock && typeof config.mock === 'object' ? config.mock : {};
+    return {
+      fixtures: vscode.Uri.joinPath(this.config.nysFolder, typeof settings.fixtures === 'string' ? settings.fixtures : 'fixtures'),
+      allowExecution: settings.allowExecution === true
+    };
+  }
+
+  /**
+   * The cassette mode, from MIRA_CASSETTES or "cassettes" in the config, and
+   * the folder it uses; null when cassettes are off
+   */
+  async getCassettes(): Promise<{ mode: CassetteMode; store: CassetteStore } | null> {
+    if (!this.config) return null;
+    const config = await this.config.load();
+    const settings: CassetteConfig = config.cassettes && typeof config.cassettes === 'object' ? config.cassettes : {};
+
+    const envMode = process.env.MIRA_CASSETTES;
+    const mode = envMode && CASSETTE_MODES.includes(envMode as CassetteMode) ? envMode as CassetteMode : settings.mode;
+    if (envMode && mode !== envMode) {
+      console.warn(`[ModelProviders] Ignoring MIRA_CASSETTES="${envMode}": use ${CASSETTE_MODES.join(', ')}`);
+    }
+    if (!mode || mode === 'off') return null;
+
+    const folder = vscode.Uri.joinPath(this.config.nysFolder, typeof settings.folder === 'string' ? settings.folder : 'cassettes');
+    return { mode, store: new CassetteStore(folder, vscode.Uri.joinPath(this.config.nysFolder, '..').fsPath) };
+  }
+
+  /**
+   * Make a model the workspace default
+   */
+  async setDefaultModel(name: string): Promise<void> {
+    if (!this.config) {
+      throw new Error('No workspace folder found');
+    }
+    if (!(await this.listModels())[name]) {
+      throw new Error(`Unknown model "${name}"`);
+    }
+    await this.config.update(config => {
+      config.defaultModel = name;
+    });
+  }
+
+  /**
+   * Re-read the config and keys on the next request
+   */
+  reload(): void {
+    this.config?.invalidate();
+    this.providers.clear();
+  }
+}
+
+export function createModelProvider(model: ModelConfig, apiKey: string | undefined, fixtures: vscode.Uri | null = null): ModelProvider {
+  switch (model.provider) {
+    case 'mock':
+      return new MockModelProvider(model, fixtures);
+    case 'anthropic':
+      return new AnthropicProvider(model, apiKey);
+    case 'openai':
+    case 'azure':
+    case 'openai-compatible':
+      return new OpenAIProvider(model, apiKey);
+  }
+}
+
+// The hosts each provider's stored key may be sent to
+const PROVIDER_HOSTS: Partial<Record<ModelProviderKind, RegExp>> = {
+  openai: /^api\.openai\.com$/,
+  anthropic: /^api\.anthropic\.com$/,
+  azure: /\.(openai|cognitiveservices)\.azure\.com$/
+};
+
+/**
+ * The origin a model's requests go to when that is not its provider's own
+ * host, e.g. a local server; undefined for the provider's API itself
+ */
+export function customEndpoint(model: ModelConfig): string | undefined {
+  const url = model.provider === 'azure' ? model.endpoint || model.baseUrl : model.baseUrl;
+  const hosts = PROVIDER_HOSTS[model.provider];
+  if (!url) {
+    // Without one the SDK's default (or the user's environment) decides; an
+    // OpenAI-compatible model then gets no key at all
+    return model.provider === 'openai-compatible' ? '' : undefined;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  return hosts && parsed.protocol === 'https:' && hosts.test(parsed.hostname) ? undefined : parsed.origin;
+}
+
+/**
+ * The API key from `apiKeyEnv`, else the key stored for a custom endpoint,
+ * else the provider's key in secret storage or its usual environment
+ * variables
+ */
+export async function resolveApiKey(model: ModelConfig, apiKeys: ApiKeyStore | null): Promise<string | undefined> {
+  if (model.apiKeyEnv) {
+    return process.env[model.apiKeyEnv] || undefined;
+  }
+  if (model.provider === 'mock') {
+    return undefined;
+  }
+
+  const endpoint = customEndpoint(model);
+  if (endpoint !== undefined || model.provider === 'openai-compatible') {
+    return endpoint && apiKeys ? apiKeys.getStored(endpointKeyId(endpoint)) : undefined;
+  }
+  if (apiKeys) {
+    return apiKeys.get(model.provider);
+  }
+
+  const info = CREDENTIALS.find(credential => credential.id === model.provider);
+  for (const name of info ? info.envVars : []) {
+    if (process.env[name]) {
+      return process.env[name];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Hosted APIs need a key; servers at a custom baseUrl may not
+ */
+function needsApiKey(model: ModelConfig): boolean {
+  return model.provider !== 'openai-compatible' && model.provider !== 'mock' && !model.baseUrl;
+}
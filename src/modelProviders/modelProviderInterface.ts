@@ -0,0 +1,75 @@
+/**
+ * Model Providers
+ *
+ * The interface AIService uses to talk to an LLM, so the workflow does not
+ * depend on one vendor's SDK. A provider turns a list of chat messages into
+ * a completion, optionally streaming the content as it is generated.
+ */
+
+// 'mock' answers from fixtures, see mockProvider.ts
+export type ModelProviderKind = 'openai' | 'azure' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export const MODEL_PROVIDER_KINDS: ModelProviderKind[] = ['openai', 'azure', 'anthropic', 'openai-compatible', 'mock'];
+
+/**
+ * A named model in `.nys/config.json` under "models". API keys are never
+ * stored here; `apiKeyEnv` names the environment variable to read instead.
+ */
+export interface ModelConfig {
+  provider: ModelProviderKind;
+  model: string;
+  // Endpoint for OpenAI-compatible servers (e.g. http://localhost:11434/v1) or another Anthropic/OpenAI host
+  baseUrl?: string;
+  // Azure OpenAI resource endpoint, deployment and API version
+  endpoint?: string;
+  deployment?: string;
+  apiVersion?: string;
+  apiKeyEnv?: string;
+  // Override the workspace's "modelRequests" policy for this model
+  maxRetries?: number;
+  timeoutMs?: number;
+  temperature?: number;
+  maxTokens?: number;
+  // Prompt plus response tokens the model accepts; known models have a default
+  contextWindow?: number;
+  headers?: Record<string, string>;
+}
+
+export interface ModelMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ModelMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Receives content deltas; the full content is still returned
+  onToken?: (delta: string) => void;
+  // Called before a failed attempt is retried; streamed content starts over
+  onRetry?: (retry: RetryInfo) => void;
+  signal?: AbortSignal;
+  // The SPARC mode and phase asking, for providers that answer by phase
+  mode?: string;
+  phase?: string;
+}
+
+export interface RetryInfo {
+  // The attempt about to start, from 2 up to maxAttempts
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface ModelProvider {
+  readonly kind: ModelProviderKind;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
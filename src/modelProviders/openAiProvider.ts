@@ -0,0 +1,69 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { CompletionRequest, CompletionResult, ModelConfig, ModelProvider, ModelProviderKind } from './modelProviderInterface';
+
+/**
+ * OpenAI Provider
+ *
+ * Chat completions through the OpenAI SDK. Covers api.openai.com, Azure
+ * OpenAI deployments, and any server that speaks the OpenAI chat API at
+ * `baseUrl` (Ollama, llama.cpp, vLLM, LM Studio, ...).
+ */
+
+export class OpenAIProvider implements ModelProvider {
+  readonly kind: ModelProviderKind;
+  readonly model: string;
+  private readonly client: OpenAI;
+
+  constructor(private readonly config: ModelConfig, apiKey: string | undefined) {
+    this.kind = config.provider;
+    this.model = config.model;
+
+    if (config.provider === 'azure') {
+      this.client = new AzureOpenAI({
+        apiKey,
+        endpoint: config.endpoint || config.baseUrl,
+        deployment: config.deployment || config.model,
+        apiVersion: config.apiVersion,
+        defaultHeaders: config.headers,
+        // Retries follow the workspace's request policy instead
+        maxRetries: 0
+      });
+    } else {
+      this.client = new OpenAI({
+        // Local servers usually take no key, but the SDK requires one
+        apiKey: apiKey || 'local',
+        baseURL: config.baseUrl,
+        defaultHeaders: config.headers,
+        maxRetries: 0
+      });
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const params = {
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? this.config.temperature ?? 0,
+      max_tokens: request.maxTokens ?? this.config.maxTokens ?? 2000
+    };
+
+    if (request.onToken) {
+      const onToken = request.onToken;
+      const stream = this.client.chat.completions.stream(params, { signal: request.signal });
+      stream.on('content', delta => onToken(delta));
+      const completion = await stream.finalChatCompletion();
+      return this.toResult(completion);
+    }
+
+    const completion = await this.client.chat.completions.create(params, { signal: request.signal });
+    return this.toResult(completion);
+  }
+
+  private toResult(completion: OpenAI.Chat.ChatCompletion): CompletionResult {
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model || this.model,
+      usage: completion.usage ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens } : undefined
+    };
+  }
+}
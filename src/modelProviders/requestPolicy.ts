@@ -0,0 +1,289 @@
+import { CompletionRequest, CompletionResult, ModelProvider, ModelProviderKind } from './modelProviderInterface';
+
+/**
+ * Model Request Policy
+ *
+ * Retries, timeouts and a concurrency limit around every model call. Rate
+ * limits and transient server or network errors are retried with
+ * exponential backoff and jitter, never sooner than the server's
+ * Retry-After. A request that still fails ends in an AIRequestError, which
+ * the workflow reports in chat rather than answering with placeholder text.
+ *
+ * Defaults can be changed in `.nys/config.json`:
+ *
+ *   "modelRequests": { "maxRetries": 3, "timeoutMs": 60000, "maxConcurrent": 2 }
+ *
+ * and `maxRetries` and `timeoutMs` per model entry.
+ */
+
+export interface RequestPolicy {
+  // Extra attempts after the first for retryable failures
+  maxRetries: number;
+  // Longest wait for a response; while streaming, for the next token
+  timeoutMs: number;
+  // Model calls in flight at once across the workspace
+  maxConcurrent: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  maxRetries: 3,
+  timeoutMs: 60000,
+  maxConcurrent: 2
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// A longer Retry-After is reported instead of waited out
+const MAX_RETRY_AFTER_MS = 60000;
+
+// replayMiss: cassette replay has no recording for the request
+export type AIRequestErrorKind = 'config' | 'auth' | 'badRequest' | 'rateLimit' | 'timeout' | 'server' | 'network' | 'replayMiss' | 'unknown';
+
+const RETRYABLE_KINDS: AIRequestErrorKind[] = ['rateLimit', 'timeout', 'server', 'network'];
+
+export class AIRequestError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  // Filled in by the policy when it gives up
+  attempts = 1;
+  model?: string;
+
+  constructor(message: string, readonly kind: AIRequestErrorKind, details: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * The error for a failed HTTP response, with Retry-After when the server sent one
+ */
+export function errorForStatus(status: number, message: string, headers?: { get(name: string): string | null }): AIRequestError {
+  const retryAfterMs = headers ? parseRetryAfter(headers) : undefined;
+  let kind: AIRequestErrorKind;
+  if (status === 401 || status === 403) {
+    kind = 'auth';
+  } else if (status === 408) {
+    kind = 'timeout';
+  } else if (status === 429) {
+    kind = 'rateLimit';
+  } else if (status === 409 || status >= 500) {
+    kind = 'server';
+  } else {
+    kind = 'badRequest';
+  }
+  return new AIRequestError(message, kind, { status, retryAfterMs });
+}
+
+/**
+ * Retry-After as milliseconds: OpenAI's `retry-after-ms`, or the standard
+ * header in seconds or as an HTTP date
+ */
+export function parseRetryAfter(headers: { get(name: string): string | null }): number | undefined {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (milliseconds > 0) return milliseconds;
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Limits how many model calls run at once; the rest wait in order
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(private limit: number) {}
+
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, limit);
+    this.next();
+  }
+
+  /**
+   * Wait for a slot; the returned function frees it
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', abort);
+        this.active++;
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          this.active--;
+          this.next();
+        });
+      };
+      const abort = () => {
+        const index = this.waiting.indexOf(start);
+        if (index !== -1) this.waiting.splice(index, 1);
+        reject(abortError());
+      };
+
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      signal?.addEventListener('abort', abort);
+      this.waiting.push(start);
+      this.next();
+    });
+  }
+
+  private next(): void {
+    while (this.active < this.limit && this.waiting.length > 0) {
+      this.waiting.shift()!();
+    }
+  }
+}
+
+/**
+ * Applies a RequestPolicy to another provider's calls
+ */
+export class RetryingModelProvider implements ModelProvider {
+  readonly kind: ModelProviderKind;
+  readonly model: string;
+
+  constructor(private readonly inner: ModelProvider, private readonly policy: RequestPolicy, private readonly limiter: ConcurrencyLimiter) {
+    this.kind = inner.kind;
+    this.model = inner.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const maxAttempts = this.policy.maxRetries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.attempt(request);
+      } catch (error) {
+        // Cancellation is the caller's to report
+        if (request.signal?.aborted) throw error;
+
+        const failure = toRequestError(error);
+        failure.attempts = attempt;
+        failure.model = this.model;
+        if (!failure.retryable || attempt >= maxAttempts || (failure.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) {
+          console.error(`[ModelRequests] ${this.model} failed after ${attempt} attempt(s): ${failure.kind}${failure.status ? ` ${failure.status}` : ''}`);
+          throw failure;
+        }
+
+        const delayMs = backoffDelay(attempt, failure.retryAfterMs);
+        console.warn(`[ModelRequests] ${this.model} attempt ${attempt} failed (${failure.kind}${failure.status ? ` ${failure.status}` : ''}); retrying in ${delayMs}ms`);
+        request.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason: failure.message });
+        await sleep(delayMs, request.signal);
+      }
+    }
+  }
+
+  /**
+   * One call, holding a concurrency slot, aborted when it times out
+   */
+  private async attempt(request: CompletionRequest): Promise<CompletionResult> {
+    const release = await this.limiter.acquire(request.signal);
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    request.signal?.addEventListener('abort', cancel);
+
+    let timedOut = false;
+    let timer: NodeJS.Timeout | null = null;
+    const restartTimer = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.policy.timeoutMs);
+    };
+    restartTimer();
+
+    const onToken = request.onToken;
+    try {
+      return await this.inner.complete({
+        ...request,
+        signal: controller.signal,
+        onToken: onToken ? delta => {
+          restartTimer();
+          onToken(delta);
+        } : undefined
+      });
+    } catch (error) {
+      if (timedOut) {
+        const limit = this.policy.timeoutMs >= 1000 ? `${Math.round(this.policy.timeoutMs / 1000)}s` : `${this.policy.timeoutMs}ms`;
+        throw new AIRequestError(`No response from ${this.model} within ${limit}`, 'timeout');
+      }
+      throw error;
+    } finally {
+      if (timer) clearTimeout(timer);
+      request.signal?.removeEventListener('abort', cancel);
+      release();
+    }
+  }
+}
+
+/**
+ * Errors from the provider SDKs and fetch as AIRequestErrors
+ */
+export function toRequestError(error: unknown): AIRequestError {
+  if (error instanceof AIRequestError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const details = error as { name?: string; status?: unknown; headers?: unknown };
+  if (typeof details.status === 'number') {
+    const headers = details.headers && typeof (details.headers as Headers).get === 'function' ? details.headers as Headers : undefined;
+    return errorForStatus(details.status, message, headers);
+  }
+  if (details.name === 'APIConnectionTimeoutError') {
+    return new AIRequestError(message, 'timeout');
+  }
+  // The OpenAI SDK's connection errors, and fetch's TypeError("fetch failed")
+  if (details.name === 'APIConnectionError' || (error instanceof TypeError && /fetch failed|network/i.test(message))) {
+    return new AIRequestError(message, 'network');
+  }
+  return new AIRequestError(message, 'unknown');
+}
+
+/**
+ * Exponential backoff with jitter, and at least the server's Retry-After
+ */
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt - 1));
+  const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  return retryAfterMs !== undefined ? Math.max(delay, Math.ceil(retryAfterMs)) : delay;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const abort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort);
+  });
+}
+
+function abortError(): Error {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,86 @@
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenEncoding, TiktokenModel } from 'js-tiktoken';
+import { ModelConfig } from './modelProviderInterface';
+
+/**
+ * Token Counter
+ *
+ * Counts tokens the way the selected model does, so prompts can be fitted
+ * to its context window. OpenAI models use their own tiktoken encoding.
+ * Claude and local models have no tokenizer available here; they are
+ * counted with cl100k_base plus a safety margin.
+ */
+
+// Context windows of well-known models, first match wins; `contextWindow` in the model config overrides these
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^claude/, 200000],
+  [/^gpt-4-32k/, 32768],
+  [/^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-4-1106|gpt-4-0125|gpt-5|o\d)/, 128000],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5-turbo/, 16385]
+];
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 2000;
+const APPROXIMATE_MARGIN = 1.1;
+
+// Building an encoding parses its rank table, so each is built once
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+export class TokenCounter {
+  readonly contextWindow: number;
+  readonly maxOutputTokens: number;
+  private readonly encoding: Tiktoken;
+  private readonly margin: number;
+
+  constructor(model: ModelConfig) {
+    this.contextWindow = model.contextWindow || contextWindowFor(model.model);
+    this.maxOutputTokens = model.maxTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+
+    const exact = model.provider === 'openai' || model.provider === 'azure' ? encodingNameFor(model.model) : null;
+    this.encoding = loadEncoding(exact || (/^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model.model) ? 'o200k_base' : 'cl100k_base'));
+    this.margin = exact ? 1 : APPROXIMATE_MARGIN;
+  }
+
+  /**
+   * Tokens available for the prompt once the response is reserved
+   */
+  get inputBudget(): number {
+    return Math.max(0, this.contextWindow - this.maxOutputTokens);
+  }
+
+  count(text: string): number {
+    if (!text) return 0;
+    return Math.ceil(this.encoding.encode(text, 'all').length * this.margin);
+  }
+
+  /**
+   * The start of `text`, at most `tokens` tokens long
+   */
+  truncate(text: string, tokens: number): string {
+    const encoded = this.encoding.encode(text, 'all');
+    const limit = Math.floor(tokens / this.margin);
+    return encoded.length <= limit ? text : this.encoding.decode(encoded.slice(0, Math.max(0, limit)));
+  }
+}
+
+function contextWindowFor(model: string): number {
+  const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+function encodingNameFor(model: string): TiktokenEncoding | null {
+  try {
+    return getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    return null;
+  }
+}
+
+function loadEncoding(name: TiktokenEncoding): Tiktoken {
+  let encoding = encodings.get(name);
+  if (!encoding) {
+    encoding = getEncoding(name);
+    encodings.set(name, encoding);
+  }
+  return encoding;
+}
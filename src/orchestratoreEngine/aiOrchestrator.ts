@@ -8,9 +8,8 @@ import { GraphNodeState, AgentAction, Decision, ToolCall } from './graphNodes';
  * decisions about workflow progression, agent coordination, and state management.
  */
 
+// Retries and timeouts of model calls are set per workspace; see RequestPolicy
 export interface OrchestratorConfig {
-  maxRetries: number;
-  timeoutMs: number;
   enableParallelExecution: boolean;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
 }
@@ -38,8 +37,6 @@ export class AIOrchestrator {
   
   constructor(config: Partial<OrchestratorConfig> = {}) {
     this.config = {
-      maxRetries: 3,
-      timeoutMs: 30000,
       enableParallelExecution: true,
       logLevel: 'info',
       ...config
@@ -275,17 +272,17 @@ export class AIOrchestrator {
         nextNode: 'testing',
         reasoning: 'Test suite needed to ensure code quality',
         confidence: 0.85,
-        alternatives: ['documentation'],
+        alternatives: ['analysis'],
         estimatedTime: 300000
       };
     }
     
     return {
-      nextNode: 'documentation',
-      reasoning: 'Documentation needed to complete build phase',
+      nextNode: 'analysis',
+      reasoning: 'Build complete; test results ready for debug analysis',
       confidence: 0.8,
-      alternatives: ['analysis'],
-      estimatedTime: 240000
+      alternatives: ['implementation'],
+      estimatedTime: 300000
     };
   }
   
@@ -1,5 +1,15 @@
-import OpenAI from 'openai';
 import * as vscode from 'vscode';
+import { NysConfigStore } from '../config/nysConfig';
+import { ModelProviderFactory } from '../modelProviders/modelProviderFactory';
+import { ModelConfig, ModelMessage, ModelProvider, RetryInfo } from '../modelProviders/modelProviderInterface';
+import { AIRequestError, toRequestError } from '../modelProviders/requestPolicy';
+import { TokenCounter } from '../modelProviders/tokenCounter';
+import { parseToolCalls } from '../mcp/toolRegistry';
+import { ArtifactSchema, getArtifactSchema, parseArtifact, StructuredArtifacts } from './artifactSchemas';
+import { throwIfCancelled } from './cancellation';
+import { BuiltContext, BuiltItem, ContextBuilder, ContextReport } from './contextBuilder';
+import { defaultPromptTemplate } from './defaultPromptTemplates';
+import { PromptTemplateStore, PromptVariables, renderPromptTemplate } from './promptTemplates';
 
 /**
  * AI Service for SPARC Workflow Engine
@@ -17,6 +27,15 @@ export interface AIRequest {
     issueDescription?: string;
     existingArtifacts?: any;
     previousDecisions?: any[];
+    // The issue's assignee role, for prompt templates
+    assigneeRole?: string;
+    // The framework the testing phase's tests are run with
+    testFramework?: string;
+    availableTools?: { name: string; description?: string; inputSchema?: any }[];
+    toolResults?: { tool: string; success: boolean; result?: any; error?: string }[];
+    chatHistory?: { role: 'user' | 'assistant' | 'system'; content: string }[];
+    // Code and documents found for the request, most relevant first
+    retrievedContext?: { source: string; content: string; relevance?: number }[];
   };
 }
 
@@ -26,100 +45,148 @@ export interface AIResponse {
   reasoning?: string;
   nextSteps?: string[];
   artifacts?: any;
+  // What the prompt included
+  context?: ContextReport;
+  // The validated data, for phases with an artifact schema
+  structured?: StructuredArtifacts;
+  // How the response fared against the phase's schema
+  validation?: { valid: boolean; repaired: boolean; errors: string[] };
+  // Set when the mock provider answered instead of a model
+  mock?: { allowExecution: boolean };
 }
 
 export class AIService {
-  private openai: OpenAI | null = null;
-  private isInitialized: boolean = false;
+  // Room for the section headings around the budgeted context
+  private static readonly PROMPT_MARGIN_TOKENS = 100;
   
-  constructor() {
-    this.initializeOpenAI();
+  // Confidence follows how well the response matched its schema
+  private static readonly CONFIDENCE = { valid: 0.9, repaired: 0.75, unstructured: 0.6, invalid: 0.3 };
+  
+  /**
+   * `providers` picks the model per phase and `prompts` supplies the system
+   * prompts; by default both come from the first workspace folder's .nys
+   */
+  constructor(
+    private readonly providers: ModelProviderFactory = AIService.createDefaultProviders(),
+    private readonly prompts: PromptTemplateStore | null = AIService.createDefaultPrompts()
+  ) {}
+  
+  private static createDefaultProviders(): ModelProviderFactory {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return new ModelProviderFactory(workspaceFolder ? new NysConfigStore(vscode.Uri.joinPath(workspaceFolder.uri, '.nys')) : null);
   }
   
-  private initializeOpenAI(): void {
-    try {
-      // Get API key from VS Code settings first, then environment variables
-      const config = vscode.workspace.getConfiguration('mira');
-      const vscodeApiKey = config.get<string>('openaiApiKey');
-      const envApiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_KEY;
-      
-      // Debug logging
-      console.log('[AIService] Debug - VS Code config:', {
-        hasConfig: !!config,
-        vscodeApiKey: vscodeApiKey ? `${vscodeApiKey.substring(0, 8)}...` : 'null',
-        vscodeApiKeyLength: vscodeApiKey ? vscodeApiKey.length : 0,
-        envApiKey: envApiKey ? `${envApiKey.substring(0, 8)}...` : 'null',
-        envApiKeyLength: envApiKey ? envApiKey.length : 0
-      });
-      
-      const apiKey = vscodeApiKey || envApiKey;
-      
-      if (apiKey && apiKey.trim() !== '') {
-        this.openai = new OpenAI({
-          apiKey: apiKey,
-        });
-        this.isInitialized = true;
-        console.log('[AIService] OpenAI initialized successfully with VS Code configuration');
-        console.log('[AIService] Debug - Using API key from:', vscodeApiKey ? 'VS Code Settings' : 'Environment Variable');
-      } else {
-        console.warn('[AIService] OpenAI API key not found in VS Code settings or environment variables');
-        console.warn('[AIService] Please set "mira.openaiApiKey" in VS Code settings or set OPENAI_API_KEY environment variable');
-        console.warn('[AIService] Debug - VS Code key empty:', !vscodeApiKey || vscodeApiKey.trim() === '');
-        console.warn('[AIService] Debug - Environment key empty:', !envApiKey || envApiKey.trim() === '');
-        this.isInitialized = false;
-      }
-    } catch (error) {
-      console.error('[AIService] Failed to initialize OpenAI:', error);
-      this.isInitialized = false;
-    }
+  private static createDefaultPrompts(): PromptTemplateStore | null {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return workspaceFolder ? new PromptTemplateStore(workspaceFolder.uri) : null;
   }
   
   /**
-   * Process a request using AI based on the current mode and phase
+   * Process a request using AI based on the current mode and phase.
+   * With `onToken`, the completion is streamed and each content delta is
+   * passed on as it arrives; the full response is still returned at the end.
+   * Aborting `signal` cancels the request with a WorkflowCancelledError.
+   * A request that fails after its retries (`onRetry` hears about each one)
+   * throws an AIRequestError. When no model has an API key the mock
+   * provider answers from its fixtures, and the response is marked `mock`.
+   * Phases with an artifact schema ask for JSON; the response content is
+   * then the markdown rendered from the validated data.
    */
-  async processRequest(request: AIRequest): Promise<AIResponse> {
+  async processRequest(request: AIRequest, onToken?: (delta: string) => void, signal?: AbortSignal, onRetry?: (retry: RetryInfo) => void): Promise<AIResponse> {
+    throwIfCancelled(signal);
+    
+    let provider: ModelProvider | null = null;
+    let model: { name: string; config: ModelConfig } | null = null;
+    try {
+      model = await this.providers.resolveModel(request.phase);
+      provider = await this.providers.getProvider(request.phase);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('[AIService] Model configuration error:', message);
+      throw new AIRequestError(message, 'config');
+    }
+    
     console.log('[AIService] Debug - processRequest called with:', {
-      isInitialized: this.isInitialized,
-      hasOpenAI: !!this.openai,
+      provider: provider ? `${provider.kind}/${provider.model}` : null,
       mode: request.mode,
-      phase: request.phase
+      phase: request.phase,
+      streaming: !!onToken
     });
     
-    if (!this.isInitialized || !this.openai) {
-      console.log('[AIService] Debug - Using mock response because AI not initialized');
-      return this.getMockResponse(request);
+    if (!provider || !model) {
+      console.log('[AIService] Debug - Using the mock provider because no model is available');
+      provider = await this.providers.getMockProvider();
+      model = { name: 'mock', config: { provider: 'mock', model: provider.model } };
     }
+    const mock = provider.kind === 'mock' ? { allowExecution: (await this.providers.getMockSettings()).allowExecution } : undefined;
     
     try {
-      const prompt = this.buildPrompt(request);
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: this.getSystemPrompt(request.mode, request.phase)
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0,
-        max_tokens: 2000
+      const schema = getArtifactSchema(request.phase);
+      const systemPrompt = await this.getSystemPrompt(request);
+      const context = this.buildContext(request, systemPrompt, model);
+      const messages: ModelMessage[] = [
+        {
+          role: 'system',
+          content: systemPrompt
+        },
+        ...context.history,
+        {
+          role: 'user',
+          content: this.buildPrompt(request, context)
+        }
+      ];
+      const result = await provider.complete({
+        messages,
+        onToken,
+        onRetry,
+        signal,
+        mode: request.mode,
+        phase: request.phase
       });
       
-      const content = response.choices[0]?.message?.content || '';
-      return this.parseAIResponse(content, request);
+      // A tool call is answered before the phase's artifact is due
+      if (!schema || (request.context?.availableTools && parseToolCalls(result.content).length > 0)) {
+        return { ...this.parseAIResponse(result.content, request), context: context.report, mock };
+      }
+      return { ...await this.parseStructuredResponse(result.content, request, schema, provider, messages, onToken, signal, onRetry), context: context.report, mock };
     } catch (error) {
-      console.error('[AIService] AI request failed:', error);
-      return this.getMockResponse(request);
+      // An aborted request is a cancellation, not a failure
+      throwIfCancelled(signal);
+      const failure = toRequestError(error);
+      console.error(`[AIService] AI request failed (${failure.kind}):`, failure.message);
+      throw failure;
     }
   }
   
   /**
-   * Build the prompt for the AI request
+   * Fit the issue description, artifacts, earlier chat turns (so follow-ups
+   * like "now add pagination" have context), retrieved code and tool results
+   * into the model's context window
    */
-  private buildPrompt(request: AIRequest): string {
+  private buildContext(request: AIRequest, systemPrompt: string, model: { name: string; config: ModelConfig }): BuiltContext {
+    const builder = new ContextBuilder(new TokenCounter(model.config), model.name);
+    const context = request.context;
+    const reserved = builder.count(systemPrompt) + builder.count(this.buildPrompt(request)) + AIService.PROMPT_MARGIN_TOKENS;
+    
+    return builder.build({
+      query: `${request.userInput} ${context?.issueTitle || ''}`,
+      phase: request.phase,
+      issueDescription: context?.issueDescription,
+      artifacts: context?.existingArtifacts,
+      chatHistory: context?.chatHistory,
+      retrieved: context?.retrievedContext,
+      toolResults: (context?.toolResults || []).map(toolResult => ({
+        tool: toolResult.tool,
+        content: toolResult.success ? JSON.stringify(toolResult.result) || '' : `ERROR: ${toolResult.error}`
+      }))
+    }, reserved);
+  }
+  
+  /**
+   * Build the prompt for the AI request. Without `built` only the parts
+   * that are always sent in full are included.
+   */
+  private buildPrompt(request: AIRequest, built?: BuiltContext): string {
     const { userInput, mode, phase, context } = request;
     
     let prompt = `User Request: "${userInput}"\n\n`;
@@ -130,165 +197,153 @@ export class AIService {
       prompt += `Issue Title: ${context.issueTitle}\n`;
     }
     
-    if (context?.issueDescription) {
-      prompt += `Issue Description: ${context.issueDescription}\n\n`;
+    if (built?.issueDescription) {
+      prompt += `Issue Description${this.describeFit(built.issueDescription)}: ${built.issueDescription.content}\n\n`;
     }
     
-    if (context?.existingArtifacts) {
+    if (built && built.artifacts.length > 0) {
       prompt += `Existing Artifacts:\n`;
-      for (const [key, value] of Object.entries(context.existingArtifacts)) {
-        if (value) {
-          prompt += `- ${key}: ${(value as string).substring(0, 200)}...\n`;
-        }
+      for (const artifact of built.artifacts) {
+        prompt += `\n### ${artifact.name}${this.describeFit(artifact)}\n${artifact.content}\n`;
       }
       prompt += '\n';
     }
     
+    if (built && built.retrieved.length > 0) {
+      prompt += `Retrieved Context:\n`;
+      for (const item of built.retrieved) {
+        prompt += `\n### ${item.name}${this.describeFit(item)}\n${item.content}\n`;
+      }
+      prompt += '\n';
+    }
+    
+    if (context?.availableTools && context.availableTools.length > 0) {
+      prompt += `Available Tools:\n`;
+      for (const tool of context.availableTools) {
+        prompt += `- ${tool.name}${tool.description ? `: ${tool.description}` : ''}\n`;
+        if (tool.inputSchema) {
+          prompt += `  parameters: ${JSON.stringify(tool.inputSchema)}\n`;
+        }
+      }
+      prompt += `\nWhen invoking a tool, return structured JSON in a single codeblock labeled TOOL_CALL: {"tool":"name","params":{...}} so the host can execute it. `;
+      prompt += `Only call a tool when you need its result; otherwise answer directly.\n\n`;
+    }
+    
+    if (built && built.toolResults.length > 0) {
+      prompt += `Tool Results:\n`;
+      for (const toolResult of built.toolResults) {
+        prompt += `- ${toolResult.name}${this.describeFit(toolResult)}: ${toolResult.content}\n`;
+      }
+      prompt += `\nUse these results to complete the task.\n\n`;
+    }
+    
     return prompt;
   }
   
   /**
-   * Get system prompt based on mode and phase
+   * Tells the model when it is seeing part of a text
    */
-  private getSystemPrompt(_mode: 'design' | 'build' | 'debug', phase: string): string {
-    const basePrompt = `You are an expert software development assistant working within the SPARC workflow framework. 
-    SPARC stands for Specification → Pseudocode → Architecture → Refinement → Completion.
-    
-    You must provide accurate, specific responses based on the user's actual request.
-    Always consider the programming language, framework, and specific requirements mentioned by the user.`;
-    
-    switch (_mode) {
-      case 'design':
-        return this.getDesignSystemPrompt(basePrompt, phase);
-      case 'build':
-        return this.getBuildSystemPrompt(basePrompt, phase);
-      case 'debug':
-        return this.getDebugSystemPrompt(basePrompt, phase);
+  private describeFit(item: BuiltItem): string {
+    switch (item.status) {
+      case 'chunked':
+        return ' (excerpts)';
+      case 'summarized':
+        return ' (outline)';
       default:
-        return basePrompt;
+        return '';
     }
   }
   
-  private getDesignSystemPrompt(basePrompt: string, phase: string): string {
-    switch (phase) {
-      case 'specification':
-        return `${basePrompt}
-        
-        You are in DESIGN mode, SPECIFICATION phase. Your task is to:
-        1. Analyze the user's request carefully
-        2. Extract specific requirements based on what they actually asked for
-        3. Create a detailed requirements specification
-        4. Focus on the exact programming language, framework, and functionality requested
-        5. be specific to the user's request
-        
-        Respond with a comprehensive requirements specification that matches the user's actual request.`;
-        
-      case 'pseudocode':
-        return `${basePrompt}
-        
-        You are in DESIGN mode, PSEUDOCODE phase. Your task is to:
-        1. Create pseudocode based on the requirements and user's specific request
-        2. Use the programming language and approach the user mentioned
-        3. Break down the logic into clear, implementable steps
-        4. Be specific to the user's request, not generic
-        
-        Respond with detailed pseudocode that matches the user's actual requirements.`;
-        
-      case 'architecture':
-        return `${basePrompt}
-        
-        You are in DESIGN mode, ARCHITECTURE phase. Your task is to:
-        1. Design system architecture based on the user's specific request
-        2. Consider the programming language, framework, and tools mentioned
-        3. Create appropriate architectural patterns for the specific use case
-        4. Provide implementation guidelines specific to the user's request
-        
-        Respond with architecture design and guidelines tailored to the user's actual needs.`;
-        
-      case 'refinement':
-        return `${basePrompt}
-        
-        You are in DESIGN mode, REFINEMENT phase. Your task is to:
-        1. Refine the requirements based on architectural decisions
-        2. Add technical details specific to the user's request
-        3. Clarify implementation specifics
-        4. Ensure the design is ready for implementation
-        
-        Respond with refined requirements that are specific to the user's actual request.`;
-        
-      case 'completion':
-        return `${basePrompt}
-        
-        You are in DESIGN mode, COMPLETION phase. Your task is to:
-        1. Summarize the completed design phase
-        2. Highlight key decisions made for the user's specific request
-        3. Provide clear next steps for implementation
-        4. Ensure the design is complete and ready for build phase
-        
-        Respond with a completion summary specific to the user's request.`;
-        
-      default:
-        return basePrompt;
+  /**
+   * The system prompt for the request's mode and phase: the workspace's
+   * template or the built-in one, plus the JSON format for phases with an
+   * artifact schema
+   */
+  private async getSystemPrompt(request: AIRequest): Promise<string> {
+    const variables: PromptVariables = {
+      mode: request.mode,
+      phase: request.phase,
+      userInput: request.userInput,
+      issueTitle: request.context?.issueTitle,
+      issueDescription: request.context?.issueDescription,
+      role: request.context?.assigneeRole,
+      testFramework: request.context?.testFramework,
+      artifacts: request.context?.existingArtifacts
+    };
+    // Without a workspace there are no templates, and only the testing prompt has a variable
+    let prompt = this.prompts
+      ? await this.prompts.render(variables)
+      : renderPromptTemplate(defaultPromptTemplate(request.mode, request.phase), { testFramework: variables.testFramework || '' });
+    
+    const schema = getArtifactSchema(request.phase);
+    if (schema) {
+      prompt += `\n\nFormat your answer as a single JSON object in a \`\`\`json code block, with no other text. ` +
+        `It must match this JSON Schema:\n${JSON.stringify(schema.schema)}`;
     }
+    return prompt;
   }
   
-  private getBuildSystemPrompt(basePrompt: string, phase: string): string {
-    switch (phase) {
-      case 'implementation':
-        return `${basePrompt}
-        
-        You are in BUILD mode, IMPLEMENTATION phase. Your task is to:
-        1. Generate actual code based on the user's specific request
-        2. Use the exact programming language, framework, and approach the user mentioned
-        3. Create working, runnable code that matches their requirements
-        4. Include proper imports, dependencies, and setup instructions
-        5. Do NOT use generic templates - write code for their specific request
-        
-        Respond with complete, working code that implements exactly what the user requested.`;
-        
-      case 'testing':
-        return `${basePrompt}
-        
-        You are in BUILD mode, TESTING phase. Your task is to:
-        1. Create appropriate tests for the user's specific implementation
-        2. Use testing frameworks suitable for their programming language
-        3. Write comprehensive test cases that cover the functionality they requested
-        4. Include setup instructions for running the tests
-        
-        Respond with test code and instructions specific to the user's implementation.`;
-        
-      default:
-        return basePrompt;
+  /**
+   * Validate a response against the phase's schema. Invalid output is sent
+   * back once with the errors for the model to correct; if that fails too
+   * the prose is kept, with low confidence.
+   */
+  private async parseStructuredResponse(
+    content: string,
+    request: AIRequest,
+    schema: ArtifactSchema<any>,
+    provider: ModelProvider,
+    messages: ModelMessage[],
+    onToken?: (delta: string) => void,
+    signal?: AbortSignal,
+    onRetry?: (retry: RetryInfo) => void
+  ): Promise<AIResponse> {
+    let parsed = parseArtifact(content, schema);
+    let repaired = false;
+    
+    if (parsed.errors.length > 0) {
+      console.warn(`[AIService] ${request.phase} response failed validation:`, parsed.errors);
+      onRetry?.({ attempt: 2, maxAttempts: 2, delayMs: 0, reason: `Response did not match the ${schema.artifact} schema: ${parsed.errors[0]}` });
+      
+      // The repair continues the original conversation, so the model still
+      // sees the request it was answering (and providers that need the
+      // turns to start with the user get them in that order)
+      const repairMessages: ModelMessage[] = [
+        ...messages,
+        { role: 'assistant', content },
+        { role: 'user', content: this.buildRepairPrompt(parsed.errors) }
+      ];
+      const repair = await provider.complete({ messages: repairMessages, onToken, onRetry, signal, mode: request.mode, phase: request.phase });
+      const reparsed = parseArtifact(repair.content, schema);
+      if (reparsed.errors.length === 0) {
+        parsed = reparsed;
+        repaired = true;
+      } else {
+        console.warn(`[AIService] ${request.phase} response still invalid after repair:`, reparsed.errors);
+      }
     }
+    
+    if (!parsed.data || !parsed.markdown) {
+      return {
+        ...this.parseAIResponse(content, request),
+        confidence: AIService.CONFIDENCE.invalid,
+        validation: { valid: false, repaired: false, errors: parsed.errors }
+      };
+    }
+    
+    return {
+      ...this.parseAIResponse(parsed.markdown, request),
+      confidence: repaired ? AIService.CONFIDENCE.repaired : AIService.CONFIDENCE.valid,
+      structured: parsed.data,
+      validation: { valid: true, repaired, errors: [] }
+    };
   }
   
-  private getDebugSystemPrompt(basePrompt: string, phase: string): string {
-    switch (phase) {
-      case 'analysis':
-        return `${basePrompt}
-        
-        You are in DEBUG mode, ANALYSIS phase. Your task is to:
-        1. Analyze the user's code or issue description
-        2. Identify specific problems related to their request
-        3. Provide detailed analysis of issues found
-        4. Focus on the programming language and framework they're using
-        
-        Respond with a detailed analysis of issues specific to the user's code.`;
-        
-      case 'fix_generation':
-        return `${basePrompt}
-        
-        You are in DEBUG mode, FIX GENERATION phase. Your task is to:
-        1. Generate specific fixes for the issues identified
-        2. Provide corrected code that addresses the problems
-        3. Explain the changes and why they fix the issues
-        4. Ensure the fixes are appropriate for their programming language and framework
-        
-        Respond with specific fixes and explanations for the user's code issues.`;
-        
-      default:
-        return basePrompt;
-    }
+  private buildRepairPrompt(errors: string[]): string {
+    const listed = errors.slice(0, 20).map(error => `- ${error}`).join('\n');
+    const more = errors.length > 20 ? `\n- ...and ${errors.length - 20} more` : '';
+    return `Your response does not match the required JSON schema:\n${listed}${more}\n\n` +
+      `Respond again with the corrected JSON object only, in a single \`\`\`json code block. Keep the content you already wrote where it is valid.`;
   }
   
   /**
@@ -297,7 +352,7 @@ export class AIService {
   private parseAIResponse(content: string, request: AIRequest): AIResponse {
     return {
       content: content,
-      confidence: 0.9,
+      confidence: AIService.CONFIDENCE.unstructured,
       reasoning: `Generated response for ${request.mode} mode, ${request.phase} phase`,
       nextSteps: this.generateNextSteps(request.mode, request.phase),
       artifacts: this.extractArtifacts(content, request)
@@ -374,85 +429,13 @@ export class AIService {
   }
   
   /**
-   * Get mock response when AI is not available
+   * Whether the default model has an API key (or needs none)
    */
-  private getMockResponse(request: AIRequest): AIResponse {
-    const { userInput, mode, phase } = request;
-    
-    let mockContent = '';
-    
-    switch (mode) {
-      case 'design':
-        if (phase === 'specification') {
-          mockContent = `# Requirements Specification\n\nBased on your request: "${userInput}"\n\n## Functional Requirements\n- Implement the specific functionality you requested\n- Use appropriate programming language and framework\n- Follow best practices for the technology stack\n\n## Non-Functional Requirements\n- Code should be maintainable and well-documented\n- Performance should meet typical standards\n- Security considerations should be addressed\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
-        } else if (phase === 'pseudocode') {
-          mockContent = `# Pseudocode\n\nBased on your request: "${userInput}"\n\n\`\`\`\nBEGIN\n  INITIALIZE environment\n  IMPLEMENT requested functionality\n  HANDLE edge cases\n  RETURN results\nEND\n\`\`\`\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
-        } else if (phase === 'architecture') {
-          mockContent = `# System Architecture\n\nBased on your request: "${userInput}"\n\n## Architecture Overview\n- Design appropriate for your specific use case\n- Use recommended patterns for your technology stack\n- Consider scalability and maintainability\n\n## Implementation Guidelines\n- Follow language-specific best practices\n- Use appropriate design patterns\n- Ensure proper error handling\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
-        } else {
-          mockContent = `# ${phase.charAt(0).toUpperCase() + phase.slice(1)} Phase\n\nBased on your request: "${userInput}"\n\nThis phase will be completed with AI assistance once the OpenAI API key is configured.\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
-        }
-        break;
-        
-      case 'build':
-        if (phase === 'implementation') {
-          mockContent = `# Implementation\n\nBased on your request: "${userInput}"\n\n\`\`\`\n// Your implementation will be generated here\n// This is a placeholder - configure OpenAI API key for actual code generation\n\`\`\`\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
-        } else if (phase === 'testing') {
-          mockContent = `# Test Suite\n\nBased on your request: "${userInput}"\n\n\`\`\`\n// Your tests will be generated here\n// This is a placeholder - configure OpenAI API key for actual test generation\n\`\`\`\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
-        } else {
-          mockContent = `# ${phase.charAt(0).toUpperCase() + phase.slice(1)} Phase\n\nBased on your request: "${userInput}"\n\nThis phase will be completed with AI assistance once the OpenAI API key is configured.\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
-        }
-        break;
-        
-      case 'debug':
-        mockContent = `# Debug Analysis\n\nBased on your request: "${userInput}"\n\n## Issues Found\n- Analysis will be performed with AI assistance\n- Specific fixes will be generated\n- Code improvements will be suggested\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
-        break;
-        
-      default:
-        mockContent = `# Response\n\nBased on your request: "${userInput}"\n\nThis response will be generated with AI assistance once the OpenAI API key is configured.\n\n*Note: This is a mock response. Configure OpenAI API key for AI-generated content.*`;
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await this.providers.getProvider()) !== null;
+    } catch {
+      return false;
     }
-    
-    return {
-      content: mockContent,
-      confidence: 0.5,
-      reasoning: 'Mock response - OpenAI API key not configured',
-      nextSteps: this.generateNextSteps(mode, phase),
-      artifacts: this.extractArtifacts(mockContent, request)
-    };
-  }
-  
-  /**
-   * Refresh API key from VS Code settings
-   */
-  refreshApiKey(): void {
-    console.log('[AIService] Refreshing API key from VS Code settings...');
-    console.log('[AIService] Debug - Current status before refresh:', this.getStatus());
-    this.initializeOpenAI();
-    console.log('[AIService] Debug - Status after refresh:', this.getStatus());
-  }
-  
-  /**
-   * Check if AI service is properly initialized
-   */
-  isAvailable(): boolean {
-    return this.isInitialized;
-  }
-  
-  /**
-   * Get service status
-   */
-  getStatus(): { initialized: boolean; hasApiKey: boolean; source: string } {
-    const config = vscode.workspace.getConfiguration('mira');
-    const vscodeApiKey = config.get<string>('openaiApiKey');
-    const envApiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_KEY;
-    
-    const hasVSCodeKey = !!(vscodeApiKey && vscodeApiKey.trim() !== '');
-    const hasEnvKey = !!envApiKey;
-    
-    return {
-      initialized: this.isInitialized,
-      hasApiKey: hasVSCodeKey || hasEnvKey,
-      source: hasVSCodeKey ? 'VS Code Settings' : hasEnvKey ? 'Environment Variable' : 'None'
-    };
   }
 }
@@ -0,0 +1,607 @@
+import { ArchitectureDiagrams, DIAGRAM_KINDS, validateMermaid } from './mermaid';
+import { parseUnifiedDiff } from './patches';
+
+/**
+ * Artifact Schemas
+ *
+ * The JSON each SPARC phase asks the model for: requirements with ids and
+ * acceptance criteria, pseudocode modules, architecture components and
+ * interfaces, implementation and test files with paths, and fixes as
+ * unified diffs. Responses are
+ * checked against these schemas, and the markdown artifacts are rendered
+ * from the validated data, so later phases can read fields instead of prose.
+ *
+ * The schemas use a small subset of JSON Schema, enough to describe the
+ * shape to the model and to validate what comes back.
+ */
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minItems?: number;
+  minLength?: number;
+}
+
+export interface Requirement {
+  id: string;
+  title: string;
+  description: string;
+  type: 'functional' | 'non-functional';
+  priority: 'must' | 'should' | 'could';
+  acceptanceCriteria: string[];
+}
+
+export interface RequirementsArtifact {
+  summary: string;
+  requirements: Requirement[];
+  constraints?: string[];
+  openQuestions?: string[];
+}
+
+export interface PseudocodeModule {
+  name: string;
+  purpose: string;
+  pseudocode: string;
+  // Requirement ids the module covers
+  requirements?: string[];
+}
+
+export interface PseudocodeArtifact {
+  summary: string;
+  modules: PseudocodeModule[];
+}
+
+export interface ArchitectureComponent {
+  name: string;
+  responsibility: string;
+  dependsOn?: string[];
+  requirements?: string[];
+}
+
+export interface ArchitectureInterface {
+  name: string;
+  // Component that implements the interface
+  provider: string;
+  consumers?: string[];
+  description: string;
+  signature?: string;
+}
+
+export interface ArchitectureArtifact {
+  summary: string;
+  components: ArchitectureComponent[];
+  interfaces: ArchitectureInterface[];
+  decisions?: { decision: string; rationale: string }[];
+  diagrams: ArchitectureDiagrams;
+}
+
+export interface ImplementationFile {
+  // Relative to the workspace root
+  path: string;
+  language: string;
+  content: string;
+  description?: string;
+}
+
+export interface ImplementationArtifact {
+  summary: string;
+  files: ImplementationFile[];
+  setup?: string[];
+}
+
+export interface TestFile {
+  // Relative to the workspace root
+  path: string;
+  language: string;
+  content: string;
+  // Requirement ids the tests cover
+  requirements?: string[];
+}
+
+export interface TestsArtifact {
+  summary: string;
+  files: TestFile[];
+}
+
+export interface FilePatch {
+  // Relative to the workspace root
+  path: string;
+  description: string;
+  // Unified diff hunks against the file as it is now
+  diff: string;
+}
+
+export interface FixesArtifact {
+  summary: string;
+  // Empty when nothing needs fixing
+  patches: FilePatch[];
+}
+
+/**
+ * Validated phase output, by the artifact it fills
+ */
+export interface StructuredArtifacts {
+  requirements?: RequirementsArtifact;
+  pseudocode?: PseudocodeArtifact;
+  architecture?: ArchitectureArtifact;
+  implementation?: ImplementationArtifact;
+  tests?: TestsArtifact;
+  fixes?: FixesArtifact;
+  // Only in responses of the diagrams phase, which are merged into the architecture
+  diagrams?: ArchitectureDiagrams;
+}
+
+export type StructuredArtifactKey = keyof StructuredArtifacts;
+
+export interface ArtifactSchema<T> {
+  artifact: StructuredArtifactKey;
+  schema: JsonSchema;
+  // Checks the schema cannot express, such as references between fields
+  check?(data: T): string[];
+  render(data: T): string;
+}
+
+const text = (description?: string): JsonSchema => ({ type: 'string', minLength: 1, description });
+const textList = (description?: string): JsonSchema => ({ type: 'array', items: text(), description });
+
+const REQUIREMENTS_SCHEMA: ArtifactSchema<RequirementsArtifact> = {
+  artifact: 'requirements',
+  schema: {
+    type: 'object',
+    required: ['summary', 'requirements'],
+    properties: {
+      summary: text('What is being built, in two or three sentences'),
+      requirements: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['id', 'title', 'description', 'type', 'priority', 'acceptanceCriteria'],
+          properties: {
+            id: text('Unique id such as REQ-1'),
+            title: text(),
+            description: text(),
+            type: { type: 'string', enum: ['functional', 'non-functional'] },
+            priority: { type: 'string', enum: ['must', 'should', 'could'] },
+            acceptanceCriteria: { ...textList('Testable conditions for the requirement to be met'), minItems: 1 }
+          }
+        }
+      },
+      constraints: textList(),
+      openQuestions: textList('Anything the request leaves unclear')
+    }
+  },
+  check: data => duplicates(data.requirements.map(requirement => requirement.id), 'requirement id'),
+  render: data => {
+    let markdown = `# Requirements Specification\n\n${data.summary}\n\n`;
+    for (const type of ['functional', 'non-functional']) {
+      const requirements = data.requirements.filter(requirement => requirement.type === type);
+      if (requirements.length === 0) continue;
+      markdown += `## ${type === 'functional' ? 'Functional' : 'Non-Functional'} Requirements\n\n`;
+      for (const requirement of requirements) {
+        markdown += `### ${requirement.id}: ${requirement.title} (${requirement.priority})\n\n${requirement.description}\n\n`;
+        markdown += `**Acceptance Criteria**\n${requirement.acceptanceCriteria.map(criterion => `- [ ] ${criterion}`).join('\n')}\n\n`;
+      }
+    }
+    markdown += renderList('Constraints', data.constraints);
+    markdown += renderList('Open Questions', data.openQuestions);
+    return markdown.trimEnd();
+  }
+};
+
+const PSEUDOCODE_SCHEMA: ArtifactSchema<PseudocodeArtifact> = {
+  artifact: 'pseudocode',
+  schema: {
+    type: 'object',
+    required: ['summary', 'modules'],
+    properties: {
+      summary: text('The overall approach'),
+      modules: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['name', 'purpose', 'pseudocode'],
+          properties: {
+            name: text(),
+            purpose: text(),
+            pseudocode: text('Step-by-step pseudocode, one statement per line'),
+            requirements: textList('Ids of the requirements this module covers')
+          }
+        }
+      }
+    }
+  },
+  render: data => {
+    let markdown = `# Pseudocode\n\n${data.summary}\n\n`;
+    for (const module of data.modules) {
+      markdown += `## ${module.name}\n\n${module.purpose}\n\n`;
+      if (module.requirements && module.requirements.length > 0) {
+        markdown += `Covers: ${module.requirements.join(', ')}\n\n`;
+      }
+      markdown += `${fence(module.pseudocode)}\n\n`;
+    }
+    return markdown.trimEnd();
+  }
+};
+
+const DIAGRAMS: JsonSchema = {
+  type: 'object',
+  description: 'Mermaid source without code fences',
+  required: ['component', 'sequence', 'dataFlow'],
+  properties: {
+    component: text('A "flowchart" of the components and their dependencies, using the component names'),
+    sequence: text('A "sequenceDiagram" of the main request or user flow through the components'),
+    dataFlow: text('A "flowchart" of how data moves between components, stores and external systems')
+  }
+};
+
+const ARCHITECTURE_SCHEMA: ArtifactSchema<ArchitectureArtifact> = {
+  artifact: 'architecture',
+  schema: {
+    type: 'object',
+    required: ['summary', 'components', 'interfaces', 'diagrams'],
+    properties: {
+      summary: text('The architecture in a few sentences'),
+      components: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['name', 'responsibility'],
+          properties: {
+            name: text(),
+            responsibility: text(),
+            dependsOn: textList('Names of other components it uses'),
+            requirements: textList('Ids of the requirements it covers')
+          }
+        }
+      },
+      interfaces: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'provider', 'description'],
+          properties: {
+            name: text(),
+            provider: text('Name of the component that implements it'),
+            consumers: textList('Names of the components that call it'),
+            description: text(),
+            signature: text('Function signatures, endpoint or message format')
+          }
+        }
+      },
+      decisions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['decision', 'rationale'],
+          properties: { decision: text(), rationale: text() }
+        }
+      },
+      diagrams: DIAGRAMS
+    }
+  },
+  check: data => {
+    const names = data.components.map(component => component.name);
+    const errors = duplicates(names, 'component name');
+    const known = (reference: string, where: string) => {
+      if (!names.includes(reference)) errors.push(`${where} refers to unknown component "${reference}"`);
+    };
+    data.components.forEach(component => (component.dependsOn || []).forEach(name => known(name, `Component "${component.name}"`)));
+    data.interfaces.forEach(item => [item.provider, ...(item.consumers || [])].forEach(name => known(name, `Interface "${item.name}"`)));
+    return [...errors, ...diagramErrors(data.diagrams, '$.diagrams')];
+  },
+  render: data => {
+    let markdown = `# System Architecture\n\n${data.summary}\n\n## Components\n\n`;
+    for (const component of data.components) {
+      markdown += `### ${component.name}\n\n${component.responsibility}\n\n`;
+      if (component.dependsOn && component.dependsOn.length > 0) {
+        markdown += `Depends on: ${component.dependsOn.join(', ')}\n\n`;
+      }
+      if (component.requirements && component.requirements.length > 0) {
+        markdown += `Covers: ${component.requirements.join(', ')}\n\n`;
+      }
+    }
+    if (data.interfaces.length > 0) {
+      markdown += `## Interfaces\n\n`;
+      for (const item of data.interfaces) {
+        const consumers = item.consumers && item.consumers.length > 0 ? `, used by ${item.consumers.join(', ')}` : '';
+        markdown += `### ${item.name}\n\nProvided by ${item.provider}${consumers}. ${item.description}\n\n`;
+        if (item.signature) {
+          markdown += `${fence(item.signature)}\n\n`;
+        }
+      }
+    }
+    if (data.decisions && data.decisions.length > 0) {
+      markdown += `## Decisions\n\n${data.decisions.map(item => `- **${item.decision}**: ${item.rationale}`).join('\n')}\n\n`;
+    }
+    markdown += renderDiagrams(data.diagrams);
+    return markdown.trimEnd();
+  }
+};
+
+// Redraws the architecture's diagrams after the requirements change
+const DIAGRAMS_SCHEMA: ArtifactSchema<ArchitectureDiagrams> = {
+  artifact: 'diagrams',
+  schema: DIAGRAMS,
+  check: data => diagramErrors(data, '$'),
+  render: data => `# Architecture Diagrams\n\n${renderDiagrams(data)}`.trimEnd()
+};
+
+const IMPLEMENTATION_SCHEMA: ArtifactSchema<ImplementationArtifact> = {
+  artifact: 'implementation',
+  schema: {
+    type: 'object',
+    required: ['summary', 'files'],
+    properties: {
+      summary: text('What was implemented and how'),
+      files: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['path', 'language', 'content'],
+          properties: {
+            path: text('Relative to the project root, e.g. src/main.rs'),
+            language: text('e.g. typescript, python, rust'),
+            content: { type: 'string', description: 'The complete file contents' },
+            description: text()
+          }
+        }
+      },
+      setup: textList('Commands or steps needed before the code runs')
+    }
+  },
+  check: data => filePathErrors(data.files.map(file => file.path)),
+  render: data => {
+    let markdown = `# Implementation\n\n${data.summary}\n\n`;
+    for (const file of data.files) {
+      markdown += `## \`${file.path}\`\n\n${file.description ? `${file.description}\n\n` : ''}${fence(file.content, file.language)}\n\n`;
+    }
+    markdown += renderList('Setup', data.setup);
+    return markdown.trimEnd();
+  }
+};
+
+const TESTS_SCHEMA: ArtifactSchema<TestsArtifact> = {
+  artifact: 'tests',
+  schema: {
+    type: 'object',
+    required: ['summary', 'files'],
+    properties: {
+      summary: text('What the tests cover'),
+      files: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['path', 'language', 'content'],
+          properties: {
+            path: text('Relative to the project root, where the test framework finds it'),
+            language: text(),
+            content: { type: 'string', description: 'The complete test file' },
+            requirements: textList('Ids of the requirements the tests check')
+          }
+        }
+      }
+    }
+  },
+  check: data => {
+    const errors = filePathErrors(data.files.map(file => file.path));
+    // Test paths are passed to the runner on a command line
+    for (const file of data.files.filter(file => /["`$\\]/.test(file.path))) {
+      errors.push(`File path "${file.path}" must not contain quotes, backticks, $ or backslashes`);
+    }
+    return errors;
+  },
+  render: data => {
+    let markdown = `# Tests\n\n${data.summary}\n\n`;
+    for (const file of data.files) {
+      const covers = file.requirements && file.requirements.length > 0 ? `Covers ${file.requirements.join(', ')}\n\n` : '';
+      markdown += `## \`${file.path}\`\n\n${covers}${fence(file.content, file.language)}\n\n`;
+    }
+    return markdown.trimEnd();
+  }
+};
+
+const FIXES_SCHEMA: ArtifactSchema<FixesArtifact> = {
+  artifact: 'fixes',
+  schema: {
+    type: 'object',
+    required: ['summary', 'patches'],
+    properties: {
+      summary: text('The problems fixed and how'),
+      patches: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['path', 'description', 'diff'],
+          properties: {
+            path: text('Relative to the project root; a new file if it does not exist'),
+            description: text('What the change fixes, citing path:line'),
+            diff: text('Unified diff hunks for this file, each starting with "@@ -line,count +line,count @@", with 3 lines of unchanged context')
+          }
+        }
+      }
+    }
+  },
+  check: data => {
+    const errors = filePathErrors(data.patches.map(patch => patch.path));
+    data.patches.forEach((patch, index) => {
+      errors.push(...parseUnifiedDiff(patch.diff).errors.map(error => `$.patches[${index}].diff: ${error}`));
+    });
+    return errors;
+  },
+  render: data => {
+    let markdown = `# Fixes\n\n${data.summary}\n\n`;
+    for (const patch of data.patches) {
+      markdown += `## \`${patch.path}\`\n\n${patch.description}\n\n${fence(patch.diff, 'diff')}\n\n`;
+    }
+    return markdown.trimEnd();
+  }
+};
+
+const PHASE_SCHEMAS: Record<string, ArtifactSchema<any>> = {
+  specification: REQUIREMENTS_SCHEMA,
+  pseudocode: PSEUDOCODE_SCHEMA,
+  architecture: ARCHITECTURE_SCHEMA,
+  // Refinement rewrites the requirements
+  refinement: REQUIREMENTS_SCHEMA,
+  diagrams: DIAGRAMS_SCHEMA,
+  implementation: IMPLEMENTATION_SCHEMA,
+  testing: TESTS_SCHEMA,
+  fix_generation: FIXES_SCHEMA
+};
+
+/**
+ * Render the architecture's markdown from its data, e.g. after its
+ * diagrams were redrawn
+ */
+export function renderArchitecture(data: ArchitectureArtifact): string {
+  return ARCHITECTURE_SCHEMA.render(data);
+}
+
+/**
+ * The schema a phase's response must match; phases without one answer in prose
+ */
+export function getArtifactSchema(phase: string): ArtifactSchema<any> | undefined {
+  return PHASE_SCHEMAS[phase];
+}
+
+export interface ParsedArtifact {
+  data?: StructuredArtifacts;
+  markdown?: string;
+  errors: string[];
+}
+
+/**
+ * Parse and validate a response against a phase schema. On success the
+ * data comes back with its rendered markdown; otherwise the errors, worded
+ * so they can be sent back to the model.
+ */
+export function parseArtifact(content: string, schema: ArtifactSchema<any>): ParsedArtifact {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(content));
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors = validateSchema(value, schema.schema, '$');
+  if (errors.length === 0 && schema.check) {
+    errors.push(...schema.check(value));
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { data: { [schema.artifact]: value }, markdown: schema.render(value), errors };
+}
+
+/**
+ * Where a value breaks the schema, as "$.path: problem" messages
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key}: is required`);
+        }
+      }
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(...validateSchema(record[key], property, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path}: expected an array`];
+      }
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: needs at least ${schema.minItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+      }
+      return errors;
+    }
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path}: expected a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: must be one of ${schema.enum.map(option => `"${option}"`).join(', ')}`];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [`${path}: must not be empty`];
+      }
+      return [];
+    default:
+      return typeof value === schema.type ? [] : [`${path}: expected a ${schema.type}`];
+  }
+}
+
+/**
+ * The JSON in a response: its ```json block if it has one, else the
+ * outermost braces
+ */
+function extractJson(content: string): string {
+  const block = /```(?:json)?\s*\n([\s\S]*?)\n```/.exec(content);
+  if (block && block[1].trim().startsWith('{')) {
+    return block[1];
+  }
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start !== -1 && end > start ? content.substring(start, end + 1) : content;
+}
+
+function duplicates(values: string[], label: string): string[] {
+  return values
+    .filter((value, index) => values.indexOf(value) !== index)
+    .map(value => `Duplicate ${label} "${value}"`);
+}
+
+function filePathErrors(paths: string[]): string[] {
+  const errors = duplicates(paths, 'file path');
+  for (const path of paths) {
+    if (/^([\\/]|[a-zA-Z]:)/.test(path) || path.split(/[\\/]/).includes('..')) {
+      errors.push(`File path "${path}" must be relative to the project root`);
+    }
+  }
+  return errors;
+}
+
+function diagramErrors(diagrams: ArchitectureDiagrams, path: string): string[] {
+  return DIAGRAM_KINDS.map(({ kind, syntax }) => validateMermaid(diagrams[kind], syntax).map(error => `${path}.${kind}: ${error}`))
+    .reduce((all, errors) => all.concat(errors), []);
+}
+
+function renderDiagrams(diagrams: ArchitectureDiagrams): string {
+  return `## Diagrams\n\n${DIAGRAM_KINDS.map(({ kind, title }) => `### ${title}\n\n${fence(diagrams[kind], 'mermaid')}\n\n`).join('')}`;
+}
+
+function renderList(title: string, items?: string[]): string {
+  return items && items.length > 0 ? `## ${title}\n\n${items.map(item => `- ${item}`).join('\n')}\n\n` : '';
+}
+
+/**
+ * A code fence long enough not to be closed by backticks in the content
+ */
+function fence(content: string, language: string = ''): string {
+  const runs = content.match(/`{3,}/g) || [];
+  const ticks = '`'.repeat(Math.max(3, ...runs.map(run => run.length + 1)));
+  return `${ticks}${language}\n${content.replace(/\n+$/, '')}\n${ticks}`;
+}
@@ -0,0 +1,25 @@
+/**
+ * Workflow Cancellation
+ *
+ * A run is cancelled through the AbortSignal in its NodeExecutionContext.
+ * AI requests, MCP tool rounds and child processes check the signal and
+ * throw WorkflowCancelledError, which the workflow turns into a resumable
+ * checkpoint instead of a failure.
+ */
+
+export class WorkflowCancelledError extends Error {
+  constructor(message: string = 'Workflow cancelled') {
+    super(message);
+    this.name = 'WorkflowCancelledError';
+  }
+}
+
+export function isCancelled(signal?: AbortSignal): boolean {
+  return !!signal && signal.aborted;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (isCancelled(signal)) {
+    throw new WorkflowCancelledError();
+  }
+}
@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { spawn, ChildProcess } from 'child_process';
+import { isCancelled, throwIfCancelled, WorkflowCancelledError } from './cancellation';
+import { parseTestOutput, TestRunResult } from './testResults';
 
 /**
  * Code Execution Engine for SPARC Workflow
@@ -13,6 +15,11 @@ import { spawn, ChildProcess } from 'child_process';
  * - Managing the full coding assistant workflow
  */
 
+// Output kept from commands whose results are saved
+const MAX_OUTPUT_CHARS = 4000;
+// How long a cancelled command gets to exit on SIGTERM before it is killed
+const KILL_GRACE_MS = 3000;
+
 export interface CodeFile {
   path: string;
   content: string;
@@ -44,6 +51,20 @@ export interface BuildResult {
   errors: string[];
   warnings: string[];
   nextSteps: string[];
+  // Nothing was written or run, e.g. for mock output
+  skipped?: boolean;
+  // The build commands, re-run to check a fix
+  buildCommands?: string[];
+}
+
+/**
+ * Build and test commands re-run after the code changed
+ */
+export interface VerificationResult {
+  success: boolean;
+  commands: CommandResult[];
+  // The re-run tests, read like the testing phase's results
+  tests?: TestRunResult;
 }
 
 export class CodeExecutionEngine {
@@ -131,21 +152,34 @@ export class CodeExecutionEngine {
   }
   
   /**
-   * Execute a command and return the result
+   * Execute a command and return the result. Aborting `signal` kills the
+   * command and everything it started, and rejects with WorkflowCancelledError
+   * right away, without waiting for them to exit.
    */
-  async executeCommand(command: string, args: string[] = [], cwd?: string): Promise<CommandResult> {
+  async executeCommand(command: string, args: string[] = [], cwd?: string, signal?: AbortSignal): Promise<CommandResult> {
+    throwIfCancelled(signal);
+    
     const startTime = Date.now();
     const workingDir = cwd || this.projectRoot;
     
     console.log(`[CodeExecution] Executing: ${command} ${args.join(' ')} in ${workingDir}`);
     
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
       const child = spawn(command, args, {
         cwd: workingDir,
         shell: true,
-        stdio: ['pipe', 'pipe', 'pipe']
+        stdio: ['pipe', 'pipe', 'pipe'],
+        // Own process group, so the shell's children can be killed with it
+        detached: process.platform !== 'win32'
       });
       
+      const onAbort = () => {
+        console.log(`[CodeExecution] Cancelled: ${command} ${args.join(' ')}`);
+        killProcessTree(child);
+        reject(new WorkflowCancelledError());
+      };
+      signal?.addEventListener('abort', onAbort);
+      
       let stdout = '';
       let stderr = '';
       
@@ -160,6 +194,12 @@ export class CodeExecutionEngine {
       });
       
       child.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (isCancelled(signal)) {
+          reject(new WorkflowCancelledError());
+          return;
+        }
+        
         const duration = Date.now() - startTime;
         const result: CommandResult = {
           command: `${command} ${args.join(' ')}`,
@@ -175,6 +215,12 @@ export class CodeExecutionEngine {
       });
       
       child.on('error', (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (isCancelled(signal)) {
+          reject(new WorkflowCancelledError());
+          return;
+        }
+        
         const duration = Date.now() - startTime;
         const result: CommandResult = {
           command: `${command} ${args.join(' ')}`,
@@ -213,14 +259,14 @@ export class CodeExecutionEngine {
   /**
    * Initialize project structure based on language and framework
    */
-  async initializeProject(context: ExecutionContext): Promise<CommandResult[]> {
+  async initializeProject(context: ExecutionContext, signal?: AbortSignal): Promise<CommandResult[]> {
     console.log(`[CodeExecution] Initializing ${context.language} project`);
     const results: CommandResult[] = [];
     
     switch (context.language) {
       case 'rust':
         if (context.buildTool === 'cargo') {
-          const result = await this.executeCommand('cargo', ['init', '--name', 'sparc-project']);
+          const result = await this.executeCommand('cargo', ['init', '--name', 'sparc-project'], undefined, signal);
           results.push(result);
         }
         break;
@@ -236,7 +282,7 @@ export class CodeExecutionEngine {
           }]);
           
           if (context.dependencies.length > 0) {
-            const result = await this.executeCommand('pip', ['install', '-r', 'requirements.txt']);
+            const result = await this.executeCommand('pip', ['install', '-r', 'requirements.txt'], undefined, signal);
             results.push(result);
           }
         }
@@ -245,11 +291,11 @@ export class CodeExecutionEngine {
       case 'javascript':
       case 'typescript':
         if (context.buildTool === 'npm') {
-          const result = await this.executeCommand('npm', ['init', '-y']);
+          const result = await this.executeCommand('npm', ['init', '-y'], undefined, signal);
           results.push(result);
           
           if (context.dependencies.length > 0) {
-            const installResult = await this.executeCommand('npm', ['install', ...context.dependencies]);
+            const installResult = await this.executeCommand('npm', ['install', ...context.dependencies], undefined, signal);
             results.push(installResult);
           }
         }
@@ -257,7 +303,7 @@ export class CodeExecutionEngine {
         
       case 'go':
         if (context.buildTool === 'go') {
-          const result = await this.executeCommand('go', ['mod', 'init', 'sparc-project']);
+          const result = await this.executeCommand('go', ['mod', 'init', 'sparc-project'], undefined, signal);
           results.push(result);
         }
         break;
@@ -269,21 +315,21 @@ export class CodeExecutionEngine {
   /**
    * Build the project
    */
-  async buildProject(context: ExecutionContext): Promise<CommandResult[]> {
+  async buildProject(context: ExecutionContext, signal?: AbortSignal): Promise<CommandResult[]> {
     console.log(`[CodeExecution] Building ${context.language} project`);
     const results: CommandResult[] = [];
     
     switch (context.language) {
       case 'rust':
         if (context.buildTool === 'cargo') {
-          const result = await this.executeCommand('cargo', ['build']);
+          const result = await this.executeCommand('cargo', ['build'], undefined, signal);
           results.push(result);
         }
         break;
         
       case 'python':
         // Python doesn't need explicit build, but we can check syntax
-        const syntaxResult = await this.executeCommand('python', ['-m', 'py_compile', '*.py']);
+        const syntaxResult = await this.executeCommand('python', ['-m', 'py_compile', '*.py'], undefined, signal);
         results.push(syntaxResult);
         break;
         
@@ -295,10 +341,11 @@ export class CodeExecutionEngine {
           try {
             const packageJson = JSON.parse(await fs.promises.readFile(packageJsonPath, 'utf8'));
             if (packageJson.scripts && packageJson.scripts.build) {
-              const result = await this.executeCommand('npm', ['run', 'build']);
+              const result = await this.executeCommand('npm', ['run', 'build'], undefined, signal);
               results.push(result);
             }
           } catch (error) {
+            if (error instanceof WorkflowCancelledError) throw error;
             console.log('[CodeExecution] No package.json or build script found');
           }
         }
@@ -306,7 +353,7 @@ export class CodeExecutionEngine {
         
       case 'go':
         if (context.buildTool === 'go') {
-          const result = await this.executeCommand('go', ['build', './...']);
+          const result = await this.executeCommand('go', ['build', './...'], undefined, signal);
           results.push(result);
         }
         break;
@@ -318,14 +365,14 @@ export class CodeExecutionEngine {
   /**
    * Run the project
    */
-  async runProject(context: ExecutionContext): Promise<CommandResult[]> {
+  async runProject(context: ExecutionContext, signal?: AbortSignal): Promise<CommandResult[]> {
     console.log(`[CodeExecution] Running ${context.language} project`);
     const results: CommandResult[] = [];
     
     switch (context.language) {
       case 'rust':
         if (context.buildTool === 'cargo') {
-          const result = await this.executeCommand('cargo', ['run']);
+          const result = await this.executeCommand('cargo', ['run'], undefined, signal);
           results.push(result);
         }
         break;
@@ -335,7 +382,7 @@ export class CodeExecutionEngine {
         const pythonFiles = await this.findFiles('*.py');
         if (pythonFiles.length > 0) {
           const mainFile = pythonFiles.find(f => f.includes('main') || f.includes('app')) || pythonFiles[0];
-          const result = await this.executeCommand('python', [mainFile]);
+          const result = await this.executeCommand('python', [mainFile], undefined, signal);
           results.push(result);
         }
         break;
@@ -348,7 +395,7 @@ export class CodeExecutionEngine {
           try {
             const packageJson = JSON.parse(await fs.promises.readFile(packageJsonPath, 'utf8'));
             if (packageJson.scripts && packageJson.scripts.start) {
-              const result = await this.executeCommand('npm', ['start']);
+              const result = await this.executeCommand('npm', ['start'], undefined, signal);
               results.push(result);
             } else {
               // Try to run main file
@@ -356,11 +403,12 @@ export class CodeExecutionEngine {
               const tsFiles = await this.findFiles('*.ts');
               const mainFile = [...jsFiles, ...tsFiles].find(f => f.includes('main') || f.includes('index')) || [...jsFiles, ...tsFiles][0];
               if (mainFile) {
-                const result = await this.executeCommand('node', [mainFile]);
+                const result = await this.executeCommand('node', [mainFile], undefined, signal);
                 results.push(result);
               }
             }
           } catch (error) {
+            if (error instanceof WorkflowCancelledError) throw error;
             console.log('[CodeExecution] No package.json found, trying to run main file');
           }
         }
@@ -368,7 +416,7 @@ export class CodeExecutionEngine {
         
       case 'go':
         if (context.buildTool === 'go') {
-          const result = await this.executeCommand('go', ['run', '*.go']);
+          const result = await this.executeCommand('go', ['run', '*.go'], undefined, signal);
           results.push(result);
         }
         break;
@@ -380,19 +428,42 @@ export class CodeExecutionEngine {
   /**
    * Run tests
    */
-  async runTests(context: ExecutionContext): Promise<CommandResult[]> {
+  async runTests(context: ExecutionContext, signal?: AbortSignal): Promise<CommandResult[]> {
     console.log(`[CodeExecution] Running tests for ${context.language} project`);
     const results: CommandResult[] = [];
     
-    if (context.testFramework) {
-      const testCommand = context.testFramework.split(' ');
-      const result = await this.executeCommand(testCommand[0], testCommand.slice(1));
+    const testCommand = this.getTestCommand(context);
+    if (testCommand) {
+      const result = await this.executeCommand(testCommand[0], testCommand.slice(1), undefined, signal);
       results.push(result);
     }
     
     return results;
   }
   
+  /**
+   * The command that runs the project's tests with its test framework.
+   * Runners that take test files are limited to `files` when given.
+   */
+  private getTestCommand(context: ExecutionContext, files: string[] = []): string[] | undefined {
+    // The command goes through a shell
+    const paths = files.map(file => `"${file}"`);
+    switch (context.testFramework) {
+      case 'jest':
+        return ['npx', 'jest', '--ci', '--verbose', ...paths];
+      case 'pytest':
+        return ['python', '-m', 'pytest', '-rA', ...paths];
+      case 'cargo test':
+        return ['cargo', 'test'];
+      case 'go test':
+        return ['go', 'test', '-v', './...'];
+      case 'junit':
+        return context.buildTool === 'gradle' ? ['gradle', 'test'] : ['mvn', 'test'];
+      default:
+        return context.testFramework ? context.testFramework.split(' ') : undefined;
+    }
+  }
+  
   /**
    * Find files matching a pattern
    */
@@ -443,13 +514,31 @@ export class CodeExecutionEngine {
   }
   
   /**
-   * Full build workflow: analyze, initialize, write files, build, run, test
+   * Full build workflow: analyze, initialize, write files, build, run, test.
+   * `generatedCode` is model output to parse for files, or the files
+   * themselves when the model returned structured output. Code from the
+   * mock provider is only written and run if its settings allow it.
    */
   async executeBuildWorkflow(
     userInput: string,
     issueDescription: string,
-    generatedCode: string
+    generatedCode: string | CodeFile[],
+    signal?: AbortSignal,
+    mock?: { allowExecution: boolean }
   ): Promise<BuildResult> {
+    if (mock && !mock.allowExecution) {
+      console.log('[CodeExecution] Skipping build workflow for mock output');
+      return {
+        success: true,
+        skipped: true,
+        filesCreated: [],
+        commandsExecuted: [],
+        errors: [],
+        warnings: ['The code came from the mock provider, so it was not written to the workspace or run. Set "mock": { "allowExecution": true } in .nys/config.json to run it anyway.'],
+        nextSteps: ['Configure a model with "Mira: Manage API Keys" to generate real code']
+      };
+    }
+    
     console.log('[CodeExecution] Starting full build workflow');
     
     // Analyze the request
@@ -461,26 +550,27 @@ export class CodeExecutionEngine {
     
     try {
       // Parse generated code to extract files
-      const codeFiles = this.parseGeneratedCode(generatedCode, this.context);
+      const codeFiles = typeof generatedCode === 'string' ? this.parseGeneratedCode(generatedCode, this.context) : generatedCode;
       filesCreated.push(...codeFiles);
       
       // Write code files
+      throwIfCancelled(signal);
       await this.writeCodeFiles(codeFiles);
       
       // Initialize project
-      const initResults = await this.initializeProject(this.context);
+      const initResults = await this.initializeProject(this.context, signal);
       commandsExecuted.push(...initResults);
       
       // Build project
-      const buildResults = await this.buildProject(this.context);
+      const buildResults = await this.buildProject(this.context, signal);
       commandsExecuted.push(...buildResults);
       
       // Run project
-      const runResults = await this.runProject(this.context);
+      const runResults = await this.runProject(this.context, signal);
       commandsExecuted.push(...runResults);
       
       // Run tests
-      const testResults = await this.runTests(this.context);
+      const testResults = await this.runTests(this.context, signal);
       commandsExecuted.push(...testResults);
       
       // Analyze results
@@ -492,10 +582,14 @@ export class CodeExecutionEngine {
         commandsExecuted,
         errors: analysis.errors,
         warnings: analysis.warnings,
-        nextSteps: analysis.nextSteps
+        nextSteps: analysis.nextSteps,
+        buildCommands: buildResults.map(result => result.command.trim())
       };
       
     } catch (error) {
+      if (error instanceof WorkflowCancelledError) {
+        throw error;
+      }
       console.error('[CodeExecution] Build workflow failed:', error);
       return {
         success: false,
@@ -508,6 +602,103 @@ export class CodeExecutionEngine {
     }
   }
   
+  /**
+   * Test workflow: write the generated test files and run them with the
+   * project's test framework, reading each test's outcome from the output.
+   * Tests from the mock provider are only written and run if its settings
+   * allow it.
+   */
+  async executeTestWorkflow(
+    userInput: string,
+    issueDescription: string,
+    testFiles: CodeFile[],
+    signal?: AbortSignal,
+    mock?: { allowExecution: boolean }
+  ): Promise<TestRunResult> {
+    const context = this.analyzeRequest(userInput, issueDescription);
+    const result: TestRunResult = {
+      success: true,
+      framework: context.testFramework,
+      filesWritten: [],
+      cases: [],
+      counts: { passed: 0, failed: 0, skipped: 0 }
+    };
+    
+    if (mock && !mock.allowExecution) {
+      console.log('[CodeExecution] Skipping test workflow for mock output');
+      return { ...result, skipped: true, reason: 'The tests came from the mock provider, so they were not written to the workspace or run.' };
+    }
+    
+    console.log(`[CodeExecution] Starting test workflow with ${context.testFramework || 'no test framework'}`);
+    
+    try {
+      throwIfCancelled(signal);
+      await this.writeCodeFiles(testFiles);
+      result.filesWritten = testFiles.map(file => file.path);
+      
+      const command = this.getTestCommand(context, result.filesWritten);
+      if (!command) {
+        return { ...result, skipped: true, reason: 'No test framework was detected for the project, so the tests were written but not run.' };
+      }
+      
+      const run = await this.executeCommand(command[0], command.slice(1), undefined, signal);
+      return { ...result, ...this.readTestRun(run, context.testFramework) };
+    } catch (error) {
+      if (error instanceof WorkflowCancelledError) {
+        throw error;
+      }
+      console.error('[CodeExecution] Test workflow failed:', error);
+      return { ...result, success: false, reason: `Test workflow failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+  
+  /**
+   * Re-run the build commands and the test command of an earlier run, e.g.
+   * to check a fix. Every command runs, even after one fails.
+   */
+  async verify(buildCommands: string[], previousTests?: TestRunResult, signal?: AbortSignal): Promise<VerificationResult> {
+    console.log(`[CodeExecution] Verifying with ${buildCommands.length} build command(s)${previousTests?.command ? ' and the tests' : ''}`);
+    const commands: CommandResult[] = [];
+    for (const command of buildCommands) {
+      commands.push(await this.executeCommand(command, [], undefined, signal));
+    }
+    
+    let tests: TestRunResult | undefined;
+    if (previousTests?.command) {
+      const run = await this.executeCommand(previousTests.command.trim(), [], undefined, signal);
+      commands.push(run);
+      tests = {
+        framework: previousTests.framework,
+        filesWritten: previousTests.filesWritten,
+        ...this.readTestRun(run, previousTests.framework)
+      };
+    }
+    
+    return {
+      success: commands.every(command => command.success) && (!tests || tests.success),
+      commands: commands.map(command => ({ ...command, stdout: tail(command.stdout), stderr: tail(command.stderr) })),
+      tests
+    };
+  }
+  
+  /**
+   * The outcome of a test command, from each test's result in its output
+   */
+  private readTestRun(run: CommandResult, framework?: string): Pick<TestRunResult, 'success' | 'command' | 'exitCode' | 'duration' | 'cases' | 'counts' | 'output'> {
+    const output = [run.stdout, run.stderr].filter(Boolean).join('\n');
+    const { cases, counts } = parseTestOutput(framework, output);
+    return {
+      // A runner that failed without reporting tests, e.g. one that is not installed, is a failure too
+      success: run.success && counts.failed === 0,
+      command: run.command,
+      exitCode: run.exitCode,
+      duration: run.duration,
+      cases,
+      counts,
+      output: tail(output)
+    };
+  }
+  
   /**
    * Parse generated code to extract individual files
    */
@@ -564,3 +755,48 @@ export class CodeExecutionEngine {
     }
   }
 }
+
+/**
+ * Kill a shell command together with the processes it started: SIGTERM
+ * first, then SIGKILL for whatever is still running after KILL_GRACE_MS
+ */
+function killProcessTree(child: ChildProcess): void {
+  const pid = child.pid;
+  if (pid === undefined) return;
+  
+  if (process.platform === 'win32') {
+    if (child.exitCode === null) {
+      spawn('taskkill', ['/pid', String(pid), '/T', '/F']);
+    }
+    return;
+  }
+  
+  // The shell may be gone while what it started still runs, so signal the group
+  if (!signalGroup(pid, 'SIGTERM')) return;
+  const timer = setTimeout(() => {
+    if (signalGroup(pid, 0)) {
+      console.warn(`[CodeExecution] Process group ${pid} ignored SIGTERM, sending SIGKILL`);
+      signalGroup(pid, 'SIGKILL');
+    }
+  }, KILL_GRACE_MS);
+  timer.unref?.();
+}
+
+/**
+ * Send `signal` to a process group; false when the group no longer exists
+ */
+function signalGroup(pid: number, signal: NodeJS.Signals | 0): boolean {
+  try {
+    process.kill(-pid, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The end of a command's output, where its errors and summary are
+ */
+function tail(output: string): string {
+  return output.length > MAX_OUTPUT_CHARS ? `...${output.substring(output.length - MAX_OUTPUT_CHARS)}` : output;
+}
@@ -0,0 +1,450 @@
+import { TokenCounter } from '../modelProviders/tokenCounter';
+
+/**
+ * Context Builder
+ *
+ * Fits the issue description, SPARC artifacts, chat history, retrieved code
+ * and tool results into the selected model's context window. Each section
+ * gets a share of the token budget, and whatever a section does not need
+ * goes to the others. Text that does not fit is cut to its most relevant
+ * chunks, or reduced to an outline of headings and lead sentences when the
+ * space left is small, and the report records which.
+ */
+
+export type ContextSection = 'issue' | 'artifacts' | 'history' | 'retrieved' | 'toolResults';
+
+export type ContextItemStatus = 'full' | 'chunked' | 'summarized' | 'omitted';
+
+export interface ContextItemReport {
+  section: ContextSection;
+  name: string;
+  originalTokens: number;
+  tokens: number;
+  status: ContextItemStatus;
+}
+
+/**
+ * What one prompt included, so users can see why output missed something
+ */
+export interface ContextReport {
+  model: string;
+  contextWindow: number;
+  // Tokens left for the sections after the system prompt, request and response
+  budget: number;
+  used: number;
+  items: ContextItemReport[];
+}
+
+export interface ContextInput {
+  // The user's request and issue title, for ranking chunks by relevance
+  query: string;
+  phase: string;
+  issueDescription?: string;
+  artifacts?: Record<string, unknown>;
+  chatHistory?: { role: 'user' | 'assistant' | 'system'; content: string }[];
+  retrieved?: { source: string; content: string; relevance?: number }[];
+  toolResults?: { tool: string; content: string }[];
+}
+
+export interface BuiltItem {
+  name: string;
+  content: string;
+  status: ContextItemStatus;
+}
+
+export interface BuiltContext {
+  issueDescription?: BuiltItem;
+  artifacts: BuiltItem[];
+  history: { role: 'user' | 'assistant'; content: string }[];
+  retrieved: BuiltItem[];
+  toolResults: BuiltItem[];
+  report: ContextReport;
+}
+
+interface Candidate {
+  name: string;
+  content: string;
+  tokens: number;
+  weight: number;
+}
+
+export class ContextBuilder {
+  // Shares of the budget when every section wants more than it can have
+  private static readonly SECTION_WEIGHTS: Record<ContextSection, number> = {
+    issue: 1,
+    artifacts: 4,
+    history: 2,
+    retrieved: 2,
+    toolResults: 3
+  };
+
+  // Artifacts each phase builds on, most important first; others weigh 1
+  private static readonly PHASE_ARTIFACTS: Record<string, string[]> = {
+    pseudocode: ['requirements'],
+    architecture: ['requirements', 'pseudocode'],
+    refinement: ['architecture', 'requirements', 'pseudocode'],
+    diagrams: ['requirements', 'architecture'],
+    completion: ['guidelines', 'architecture', 'requirements'],
+    implementation: ['architecture', 'requirements', 'guidelines', 'pseudocode'],
+    testing: ['implementation', 'requirements', 'architecture'],
+    analysis: ['implementation', 'notes'],
+    fix_generation: ['notes', 'implementation']
+  };
+
+  private static readonly CHUNK_TOKENS = 300;
+  private static readonly MIN_ITEM_TOKENS = 40;
+  // Below this fraction of an item's size, an outline beats a few chunks
+  private static readonly OUTLINE_RATIO = 0.35;
+  // Per-message overhead of the chat format
+  private static readonly MESSAGE_TOKENS = 4;
+
+  constructor(private readonly counter: TokenCounter, private readonly modelName: string) {}
+
+  count(text: string): number {
+    return this.counter.count(text);
+  }
+
+  /**
+   * Fit the input into what is left of the context window after
+   * `reservedTokens` (system prompt and the fixed part of the request)
+   */
+  build(input: ContextInput, reservedTokens: number): BuiltContext {
+    const budget = Math.max(0, this.counter.inputBudget - reservedTokens);
+    const query = queryTerms(input.query);
+
+    const sections: Record<ContextSection, Candidate[]> = {
+      issue: input.issueDescription ? [this.candidate('description', input.issueDescription, 1)] : [],
+      artifacts: this.artifactCandidates(input.phase, input.artifacts || {}),
+      history: [],
+      retrieved: [...(input.retrieved || [])]
+        .filter(item => item.content)
+        .sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0))
+        .map(item => this.candidate(item.source, item.content, Math.max(item.relevance ?? 1, 0.1))),
+      toolResults: (input.toolResults || []).map(result => this.candidate(result.tool, result.content, 1))
+    };
+
+    const history = (input.chatHistory || [])
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => ({ role: message.role as 'user' | 'assistant', content: message.content, tokens: this.counter.count(message.content) + ContextBuilder.MESSAGE_TOKENS }));
+    const historyTokens = history.reduce((sum, message) => sum + message.tokens, 0);
+
+    const names = Object.keys(sections) as ContextSection[];
+    const demands = names.map(name => name === 'history' ? historyTokens : sections[name].reduce((sum, item) => sum + item.tokens, 0));
+    const shares = allocate(demands, names.map(name => ContextBuilder.SECTION_WEIGHTS[name]), budget);
+
+    const items: ContextItemReport[] = [];
+    const fitted: Record<ContextSection, BuiltItem[]> = { issue: [], artifacts: [], history: [], retrieved: [], toolResults: [] };
+
+    // A share an item does not fill up (an outline is short) passes to the next
+    let carry = 0;
+    names.forEach((name, index) => {
+      if (name === 'history') return;
+      const candidates = sections[name];
+      const itemShares = allocate(candidates.map(item => item.tokens), candidates.map(item => item.weight), shares[index]);
+      if (candidates.length === 0) {
+        carry += shares[index];
+      }
+      candidates.forEach((candidate, itemIndex) => {
+        const share = itemShares[itemIndex] + carry;
+        // Outlines keep the shape of documents; code is better cut
+        const fit = this.fit(candidate, share, query, name === 'issue' || name === 'artifacts');
+        carry = share - fit.tokens;
+        items.push({ section: name, name: candidate.name, originalTokens: candidate.tokens, tokens: fit.tokens, status: fit.status });
+        if (fit.status !== 'omitted') {
+          fitted[name].push({ name: candidate.name, content: fit.content, status: fit.status });
+        }
+      });
+    });
+
+    // Chat history keeps the newest turns whole and drops the oldest
+    const keptHistory = this.fitHistory(history, shares[names.indexOf('history')] + carry);
+    if (history.length > 0) {
+      items.push({
+        section: 'history',
+        name: `${keptHistory.messages.length} of ${history.length} messages`,
+        originalTokens: historyTokens,
+        tokens: keptHistory.tokens,
+        status: keptHistory.messages.length === 0 ? 'omitted' : keptHistory.messages.length < history.length || keptHistory.truncated ? 'chunked' : 'full'
+      });
+    }
+
+    const report: ContextReport = {
+      model: this.modelName,
+      contextWindow: this.counter.contextWindow,
+      budget,
+      used: items.reduce((sum, item) => sum + item.tokens, 0),
+      items
+    };
+    this.logReport(report);
+
+    return {
+      issueDescription: fitted.issue[0],
+      artifacts: fitted.artifacts,
+      history: keptHistory.messages,
+      retrieved: fitted.retrieved,
+      toolResults: fitted.toolResults,
+      report
+    };
+  }
+
+  private candidate(name: string, content: string, weight: number): Candidate {
+    return { name, content, tokens: this.counter.count(content), weight };
+  }
+
+  private artifactCandidates(phase: string, artifacts: Record<string, unknown>): Candidate[] {
+    const priorities = ContextBuilder.PHASE_ARTIFACTS[phase] || [];
+    return Object.entries(artifacts)
+      .filter(([, value]) => typeof value === 'string' && value.trim() !== '')
+      .map(([name, value]) => {
+        const rank = priorities.indexOf(name);
+        return this.candidate(name, value as string, rank === -1 ? 1 : 2 + priorities.length - rank);
+      })
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  /**
+   * The item whole if it fits, else its most relevant chunks, else an
+   * outline (or, with `outline` false, its start)
+   */
+  private fit(item: Candidate, budget: number, query: string[], outline: boolean): { content: string; tokens: number; status: ContextItemStatus } {
+    if (item.tokens <= budget) {
+      return { content: item.content, tokens: item.tokens, status: 'full' };
+    }
+    if (budget < ContextBuilder.MIN_ITEM_TOKENS) {
+      return { content: '', tokens: 0, status: 'omitted' };
+    }
+
+    if (!outline || budget >= item.tokens * ContextBuilder.OUTLINE_RATIO) {
+      const excerpt = this.selectChunks(item.content, budget, query);
+      if (excerpt) {
+        return { content: excerpt, tokens: this.counter.count(excerpt), status: 'chunked' };
+      }
+    }
+    if (!outline) {
+      const head = `${this.counter.truncate(item.content, budget - 2)}\n[…]`;
+      return { content: head, tokens: this.counter.count(head), status: 'chunked' };
+    }
+
+    let summary = outlineOf(item.content);
+    if (this.counter.count(summary) > budget) {
+      summary = this.selectChunks(summary, budget, query) || this.counter.truncate(summary, budget);
+    }
+    return { content: summary, tokens: this.counter.count(summary), status: 'summarized' };
+  }
+
+  /**
+   * The opening chunk and the chunks that share the most terms with the
+   * query, in their original order, with gaps marked
+   */
+  private selectChunks(text: string, budget: number, query: string[]): string {
+    const chunks = splitChunks(text, this.counter, ContextBuilder.CHUNK_TOKENS).map((content, index) => ({
+      index,
+      content,
+      tokens: this.counter.count(content) + 2,
+      score: index === 0 ? Number.MAX_SAFE_INTEGER : relevance(content, query)
+    }));
+    if (chunks.length < 2) return '';
+
+    const selected: typeof chunks = [];
+    let used = 0;
+    for (const chunk of [...chunks].sort((a, b) => b.score - a.score || a.index - b.index)) {
+      if (used + chunk.tokens <= budget) {
+        selected.push(chunk);
+        used += chunk.tokens;
+      }
+    }
+    if (selected.length === 0) return '';
+
+    selected.sort((a, b) => a.index - b.index);
+    let excerpt = '';
+    selected.forEach((chunk, position) => {
+      const previous = position > 0 ? selected[position - 1].index : -1;
+      excerpt += `${chunk.index > previous + 1 ? '[…]\n\n' : ''}${chunk.content}\n\n`;
+    });
+    if (selected[selected.length - 1].index < chunks.length - 1) {
+      excerpt += '[…]';
+    }
+    return excerpt.trim();
+  }
+
+  private fitHistory(history: { role: 'user' | 'assistant'; content: string; tokens: number }[], budget: number): { messages: { role: 'user' | 'assistant'; content: string }[]; tokens: number; truncated: boolean } {
+    const messages: { role: 'user' | 'assistant'; content: string }[] = [];
+    let tokens = 0;
+    let truncated = false;
+
+    for (let index = history.length - 1; index >= 0; index--) {
+      const message = history[index];
+      if (tokens + message.tokens <= budget) {
+        messages.unshift({ role: message.role, content: message.content });
+        tokens += message.tokens;
+        continue;
+      }
+
+      // The latest message is worth keeping even in part
+      const room = budget - tokens - ContextBuilder.MESSAGE_TOKENS;
+      if (index === history.length - 1 && room >= ContextBuilder.MIN_ITEM_TOKENS) {
+        const content = `${this.counter.truncate(message.content, room - 2)}…`;
+        messages.unshift({ role: message.role, content });
+        tokens += this.counter.count(content) + ContextBuilder.MESSAGE_TOKENS;
+        truncated = true;
+      }
+      break;
+    }
+
+    return { messages, tokens, truncated };
+  }
+
+  private logReport(report: ContextReport): void {
+    const trimmed = report.items.filter(item => item.status !== 'full').map(item => `${item.section}/${item.name} ${item.status}`);
+    console.log(`[ContextBuilder] ${report.model}: ${report.used}/${report.budget} tokens${trimmed.length > 0 ? `; ${trimmed.join(', ')}` : ''}`);
+  }
+}
+
+/**
+ * A Markdown summary of a report for the chat: the tokens used, then each
+ * item that was cut or left out
+ */
+export function formatContextReport(report: ContextReport): string {
+  const summary = `${report.used.toLocaleString()} of ${report.budget.toLocaleString()} tokens (${report.model})`;
+  const trimmed = report.items.filter(item => item.status !== 'full');
+  if (trimmed.length === 0) {
+    return `${summary}, everything included in full`;
+  }
+
+  const lines = trimmed.map(item => `- ${STATUS_LABELS[item.status]} ${SECTION_LABELS[item.section]} ${item.name} (${item.tokens.toLocaleString()} of ${item.originalTokens.toLocaleString()} tokens)`);
+  return `${summary}\n${lines.join('\n')}`;
+}
+
+const SECTION_LABELS: Record<ContextSection, string> = {
+  issue: 'issue',
+  artifacts: 'artifact',
+  history: 'chat history:',
+  retrieved: 'retrieved',
+  toolResults: 'tool result'
+};
+
+const STATUS_LABELS: Record<ContextItemStatus, string> = {
+  full: 'Included',
+  chunked: 'Excerpts of',
+  summarized: 'Outline of',
+  omitted: 'Left out:'
+};
+
+/**
+ * Split `budget` tokens among items by weight. Items that need less than
+ * their share get what they need, and the rest is shared again among the
+ * others.
+ */
+function allocate(demands: number[], weights: number[], budget: number): number[] {
+  const shares = demands.map(() => 0);
+  let remaining = budget;
+  let open = demands.map((_demand, index) => index).filter(index => demands[index] > 0);
+
+  while (open.length > 0 && remaining > 0) {
+    const totalWeight = open.reduce((sum, index) => sum + weights[index], 0);
+    const satisfied = open.filter(index => demands[index] <= remaining * weights[index] / totalWeight);
+
+    if (satisfied.length === 0) {
+      for (const index of open) {
+        shares[index] = Math.floor(remaining * weights[index] / totalWeight);
+      }
+      break;
+    }
+
+    for (const index of satisfied) {
+      shares[index] = demands[index];
+      remaining -= demands[index];
+    }
+    open = open.filter(index => !satisfied.includes(index));
+  }
+
+  return shares;
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'are', 'was', 'will', 'should', 'have', 'has', 'can', 'use', 'using', 'make', 'add', 'not', 'but', 'you', 'your', 'all', 'any', 'new']);
+
+function queryTerms(query: string): string[] {
+  const terms = query.toLowerCase().split(/[^a-z0-9_]+/).filter(term => term.length >= 3 && !STOP_WORDS.has(term));
+  return Array.from(new Set(terms));
+}
+
+function relevance(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  return terms.filter(term => lower.includes(term)).length;
+}
+
+/**
+ * Chunks of about `size` tokens, split before headings and at blank lines
+ * (anywhere once twice as long), never inside a fenced code block
+ */
+function splitChunks(text: string, counter: TokenCounter, size: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let inFence = false;
+
+  const flush = () => {
+    const chunk = current.join('\n').trim();
+    if (chunk) chunks.push(chunk);
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const line of text.split('\n')) {
+    const fence = /^\s*```/.test(line);
+    const full = currentTokens >= size && (line.trim() === '' || currentTokens >= size * 2);
+    if (!inFence && current.length > 0 && (/^#{1,6}\s/.test(line) || full)) {
+      flush();
+    }
+    current.push(line);
+    currentTokens += counter.count(line) + 1;
+    if (fence) inFence = !inFence;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Headings, top-level list items and the first sentence of each paragraph;
+ * code blocks become a one-line note
+ */
+function outlineOf(text: string): string {
+  const lines: string[] = [];
+  let inFence = false;
+  let fenceLines = 0;
+  let paragraphStarted = false;
+
+  for (const line of text.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      if (inFence) {
+        lines.push(`(code block, ${fenceLines} lines)`);
+      }
+      inFence = !inFence;
+      fenceLines = 0;
+      paragraphStarted = false;
+      continue;
+    }
+    if (inFence) {
+      fenceLines++;
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed === '') {
+      paragraphStarted = false;
+    } else if (/^#{1,6}\s/.test(trimmed)) {
+      lines.push(trimmed);
+      paragraphStarted = false;
+    } else if (/^([-*+]|\d+\.)\s/.test(line)) {
+      lines.push(trimmed.length > 120 ? `${trimmed.substring(0, 120)}…` : trimmed);
+      paragraphStarted = true;
+    } else if (!paragraphStarted) {
+      const sentence = trimmed.match(/^.*?[.!?](\s|$)/);
+      lines.push((sentence ? sentence[0] : trimmed).trim().substring(0, 200));
+      paragraphStarted = true;
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,292 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BuildResult } from './codeExecutionEngine';
+import { TestRunResult } from './testResults';
+
+/**
+ * Debug Evidence
+ *
+ * What the analysis phase collects before asking the model: the problems
+ * VS Code reports in the workspace, failed build commands, failing tests, a
+ * stack trace pasted by the user, and the source around the lines these
+ * point at. Locations are workspace-relative `path:line`, the form the
+ * analysis cites them in and the chat turns into links.
+ */
+
+export interface SourceLocation {
+  // Relative to the workspace root, with forward slashes
+  path: string;
+  line: number;
+  column?: number;
+}
+
+export interface DiagnosticEvidence extends SourceLocation {
+  severity: 'error' | 'warning';
+  message: string;
+  source?: string;
+}
+
+export interface SourceExcerpt extends SourceLocation {
+  startLine: number;
+  code: string;
+}
+
+export interface DebugEvidence {
+  diagnostics: DiagnosticEvidence[];
+  failedCommands: { command: string; exitCode: number; output: string }[];
+  failingTests: { name: string; file?: string; message?: string }[];
+  stackTrace?: string;
+  excerpts: SourceExcerpt[];
+}
+
+export interface EvidenceInput {
+  userInput: string;
+  buildResult?: BuildResult;
+  testResults?: TestRunResult;
+}
+
+const MAX_DIAGNOSTICS = 30;
+const MAX_COMMANDS = 5;
+const MAX_TESTS = 10;
+const MAX_EXCERPTS = 8;
+const MAX_OUTPUT_CHARS = 2000;
+// Lines shown above and below a referenced line
+const EXCERPT_RADIUS = 6;
+
+// Python's `File "app.py", line 12`, `path/file.ext:12:3` as printed by
+// Node, Go, Rust, Java and most compilers, and tsc/MSBuild's `file.ts(12,3)`
+const PYTHON_FRAME = /File "([^"]+)", line (\d+)/;
+const FILE_LINE = /((?:[A-Za-z]:)?[\w./\\@-]*\.[A-Za-z]\w{0,5}):(\d+)(?::(\d+))?/;
+const FILE_PAREN = /((?:[A-Za-z]:)?[\w./\\@-]*\.[A-Za-z]\w{0,5})\((\d+),(\d+)\)/;
+const STACK_LINE = /^\s*(at\s|File "|Traceback|[\w.]*(Error|Exception)\b|panic|thread '.*' panicked|goroutine\s)/;
+
+/**
+ * Collect the evidence for a debug request. Only locations inside the
+ * workspace that exist on disk are kept.
+ */
+export async function gatherDebugEvidence(workspaceRoot: vscode.Uri, input: EvidenceInput): Promise<DebugEvidence> {
+  const diagnostics = collectDiagnostics(workspaceRoot);
+  const failedCommands = (input.buildResult?.commandsExecuted || [])
+    .filter(command => !command.success)
+    .slice(0, MAX_COMMANDS)
+    .map(command => ({ command: command.command.trim(), exitCode: command.exitCode, output: tail(command.stderr || command.stdout) }));
+  const failingTests = collectFailingTests(input.testResults);
+  const stackTrace = extractStackTrace(input.userInput);
+
+  // The pasted trace is what the user is asking about, so its lines come first
+  const referenced: SourceLocation[] = [];
+  const texts = [
+    stackTrace || '',
+    ...failingTests.map(test => `${test.message || ''}\n${test.file || ''}`),
+    ...failedCommands.map(command => command.output)
+  ];
+  for (const text of texts) {
+    referenced.push(...await findLocations(workspaceRoot, text));
+  }
+  referenced.push(...diagnostics.filter(diagnostic => diagnostic.severity === 'error'));
+
+  const excerpts: SourceExcerpt[] = [];
+  for (const location of uniqueLocations(referenced)) {
+    if (excerpts.length >= MAX_EXCERPTS) break;
+    const excerpt = await readExcerpt(workspaceRoot, location);
+    if (excerpt) excerpts.push(excerpt);
+  }
+
+  return { diagnostics, failedCommands, failingTests, stackTrace, excerpts };
+}
+
+/**
+ * The evidence as retrieved-context items for the analysis prompt
+ */
+export function evidenceContext(evidence: DebugEvidence): { source: string; content: string; relevance: number }[] {
+  const items: { source: string; content: string; relevance: number }[] = [];
+  if (evidence.stackTrace) {
+    items.push({ source: 'stack trace', content: evidence.stackTrace, relevance: 1 });
+  }
+  if (evidence.failingTests.length > 0) {
+    const content = evidence.failingTests
+      .map(test => `- ${test.name}${test.file ? ` (${test.file})` : ''}${test.message ? `\n${indent(test.message)}` : ''}`)
+      .join('\n');
+    items.push({ source: 'failing tests', content, relevance: 0.95 });
+  }
+  if (evidence.failedCommands.length > 0) {
+    const content = evidence.failedCommands.map(command => `$ ${command.command} (exit code ${command.exitCode})\n${command.output}`).join('\n\n');
+    items.push({ source: 'build output', content, relevance: 0.9 });
+  }
+  if (evidence.diagnostics.length > 0) {
+    const content = evidence.diagnostics
+      .map(diagnostic => `- ${formatLocation(diagnostic)} ${diagnostic.severity}${diagnostic.source ? ` [${diagnostic.source}]` : ''}: ${diagnostic.message}`)
+      .join('\n');
+    items.push({ source: 'VS Code diagnostics', content, relevance: 0.85 });
+  }
+  for (const excerpt of evidence.excerpts) {
+    items.push({ source: `source ${formatLocation(excerpt)}`, content: excerpt.code, relevance: 0.8 });
+  }
+  return items;
+}
+
+/**
+ * What was found, in one line, e.g. for the agent history
+ */
+export function summarizeEvidence(evidence: DebugEvidence): string {
+  const parts = [
+    evidence.stackTrace && 'a stack trace',
+    evidence.failingTests.length > 0 && `${evidence.failingTests.length} failing test(s)`,
+    evidence.failedCommands.length > 0 && `${evidence.failedCommands.length} failed command(s)`,
+    evidence.diagnostics.length > 0 && `${evidence.diagnostics.length} diagnostic(s)`,
+    evidence.excerpts.length > 0 && `source at ${evidence.excerpts.map(formatLocation).join(', ')}`
+  ].filter(Boolean);
+  return parts.length > 0 ? `Evidence: ${parts.join('; ')}` : 'No evidence found beyond the request';
+}
+
+export function formatLocation(location: SourceLocation): string {
+  return `${location.path}:${location.line}${location.column ? `:${location.column}` : ''}`;
+}
+
+function collectDiagnostics(workspaceRoot: vscode.Uri): DiagnosticEvidence[] {
+  const found: DiagnosticEvidence[] = [];
+  for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+    const relative = uri.scheme === 'file' ? workspacePath(workspaceRoot, uri.fsPath) : undefined;
+    if (!relative) continue;
+
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity !== vscode.DiagnosticSeverity.Error && diagnostic.severity !== vscode.DiagnosticSeverity.Warning) continue;
+      found.push({
+        path: relative,
+        line: diagnostic.range.start.line + 1,
+        column: diagnostic.range.start.character + 1,
+        severity: diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'warning',
+        message: diagnostic.message,
+        source: diagnostic.source
+      });
+    }
+  }
+  // Errors first
+  return found
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+    .slice(0, MAX_DIAGNOSTICS);
+}
+
+function collectFailingTests(testResults?: TestRunResult): DebugEvidence['failingTests'] {
+  if (!testResults || testResults.skipped) return [];
+
+  const failed = testResults.cases.filter(test => test.status === 'failed').slice(0, MAX_TESTS);
+  if (failed.length > 0) {
+    return failed.map(test => ({ name: test.name, file: test.file, message: test.message }));
+  }
+  // The runner failed without naming a test, e.g. a suite that did not compile
+  return !testResults.success && testResults.output
+    ? [{ name: testResults.command ? `\`${testResults.command.trim()}\`` : 'test run', message: tail(testResults.output) }]
+    : [];
+}
+
+/**
+ * The lines of the user's message that belong to a stack trace, if it has
+ * frames with file locations
+ */
+function extractStackTrace(text: string): string | undefined {
+  const lines = text.split(/\r?\n/);
+  const hasFrames = lines.some(line => PYTHON_FRAME.test(line) || (STACK_LINE.test(line) && FILE_LINE.test(line)));
+  if (!hasFrames) return undefined;
+
+  const isTraceLine = (line: string) => STACK_LINE.test(line) || FILE_LINE.test(line);
+  const first = lines.findIndex(isTraceLine);
+  let last = lines.length - 1;
+  while (last > first && !isTraceLine(lines[last])) last--;
+  return lines.slice(first, last + 1).join('\n').trim();
+}
+
+/**
+ * Locations in the text that are files in the workspace. Bare file names,
+ * as Go and Java print them, are looked up when only one file matches.
+ */
+async function findLocations(workspaceRoot: vscode.Uri, text: string): Promise<SourceLocation[]> {
+  const candidates: SourceLocation[] = [];
+  let match;
+  const python = new RegExp(PYTHON_FRAME.source, 'g');
+  while ((match = python.exec(text)) !== null) {
+    candidates.push({ path: match[1], line: Number(match[2]) });
+  }
+  for (const pattern of [FILE_LINE, FILE_PAREN]) {
+    const generic = new RegExp(pattern.source, 'g');
+    while ((match = generic.exec(text)) !== null) {
+      candidates.push({ path: match[1], line: Number(match[2]), column: match[3] ? Number(match[3]) : undefined });
+    }
+  }
+
+  const locations: SourceLocation[] = [];
+  for (const candidate of candidates) {
+    const resolved = await resolvePath(workspaceRoot, candidate.path);
+    if (resolved && candidate.line > 0) {
+      locations.push({ ...candidate, path: resolved });
+    }
+  }
+  return locations;
+}
+
+async function resolvePath(workspaceRoot: vscode.Uri, file: string): Promise<string | undefined> {
+  const relative = path.isAbsolute(file) ? workspacePath(workspaceRoot, file) : workspacePath(workspaceRoot, path.join(workspaceRoot.fsPath, file));
+  if (!relative || relative.split('/').includes('node_modules')) return undefined;
+
+  try {
+    await vscode.workspace.fs.stat(vscode.Uri.joinPath(workspaceRoot, relative));
+    return relative;
+  } catch {
+    // Not at that path; try the file name alone
+  }
+  if (relative.includes('/')) return undefined;
+  const matches = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceRoot, `**/${relative}`), '**/node_modules/**', 2);
+  return matches.length === 1 ? workspacePath(workspaceRoot, matches[0].fsPath) : undefined;
+}
+
+/**
+ * The path relative to the workspace root, or undefined outside it
+ */
+function workspacePath(workspaceRoot: vscode.Uri, fsPath: string): string | undefined {
+  const relative = path.relative(workspaceRoot.fsPath, fsPath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return undefined;
+  return relative.split(path.sep).join('/');
+}
+
+function uniqueLocations(locations: SourceLocation[]): SourceLocation[] {
+  const seen = new Set<string>();
+  return locations.filter(location => {
+    const key = `${location.path}:${location.line}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * The lines around a location, numbered, with the location's line marked
+ */
+async function readExcerpt(workspaceRoot: vscode.Uri, location: SourceLocation): Promise<SourceExcerpt | undefined> {
+  try {
+    const content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceRoot, location.path))).toString('utf8');
+    const lines = content.split(/\r?\n/);
+    if (location.line > lines.length) return undefined;
+
+    const startLine = Math.max(1, location.line - EXCERPT_RADIUS);
+    const endLine = Math.min(lines.length, location.line + EXCERPT_RADIUS);
+    const width = String(endLine).length;
+    const code = lines.slice(startLine - 1, endLine)
+      .map((text, index) => {
+        const number = String(startLine + index);
+        const marker = startLine + index === location.line ? '>' : ' ';
+        return `${marker} ${' '.repeat(width - number.length)}${number} | ${text}`;
+      })
+      .join('\n');
+    return { ...location, startLine, code };
+  } catch {
+    return undefined;
+  }
+}
+
+function tail(text: string): string {
+  return text.length > MAX_OUTPUT_CHARS ? `...${text.substring(text.length - MAX_OUTPUT_CHARS)}` : text;
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => `  ${line}`).join('\n');
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { FixesArtifact } from './artifactSchemas';
+import { applyHunks, FixFeedback, formatHunk, parseUnifiedDiff, ProposedFix, ProposedHunk } from './patches';
+
+/**
+ * Fix Review
+ *
+ * Fixes are not written when they are generated. Each proposed file change
+ * is previewed in VS Code's diff editor, the user picks the hunks to keep,
+ * and those are applied as one WorkspaceEdit, so they can be undone like
+ * any other edit. The hunks left out, and the ones that no longer match the
+ * file, become feedback for the next fix request.
+ */
+
+export interface FixReviewOutcome {
+  // The fixes with each reviewed hunk's new status
+  fixes: ProposedFix[];
+  // Files that changed
+  applied: string[];
+  feedback: FixFeedback[];
+}
+
+/**
+ * The patches of a fixes artifact as fixes to review. Each hunk is tried
+ * against the file as it is now; those that do not match are marked as
+ * conflicts.
+ */
+export async function proposeFixes(workspaceRoot: vscode.Uri, artifact: FixesArtifact): Promise<ProposedFix[]> {
+  const fixes: ProposedFix[] = [];
+  for (const [fileIndex, patch] of artifact.patches.entries()) {
+    const current = await readFile(vscode.Uri.joinPath(workspaceRoot, patch.path));
+    const hunks: ProposedHunk[] = parseUnifiedDiff(patch.diff).hunks
+      .map((hunk, hunkIndex) => ({ ...hunk, id: `${fileIndex + 1}.${hunkIndex + 1}`, status: 'pending' }));
+    // Hunks are checked one at a time, as the user may take any subset
+    for (const hunk of hunks) {
+      if (applyHunks(current ?? '', [hunk]).failed.length > 0) {
+        hunk.status = 'conflict';
+      }
+    }
+    fixes.push({ path: patch.path, description: patch.description, hunks, newFile: current === undefined || undefined });
+  }
+  return fixes;
+}
+
+/**
+ * Feedback for hunks that did not match their file
+ */
+export function conflictFeedback(fixes: ProposedFix[]): FixFeedback[] {
+  const feedback: FixFeedback[] = [];
+  for (const fix of fixes) {
+    for (const hunk of fix.hunks.filter(hunk => hunk.status === 'conflict')) {
+      feedback.push({ path: fix.path, hunk: formatHunk(hunk), reason: 'conflict' });
+    }
+  }
+  return feedback;
+}
+
+export class FixReviewer implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  public static readonly scheme = 'mira-fix';
+
+  private readonly contents = new Map<string, string>();
+  private readonly changes = new vscode.EventEmitter<vscode.Uri>();
+  private readonly registration: vscode.Disposable;
+  readonly onDidChange = this.changes.event;
+
+  constructor(private readonly workspaceRoot: vscode.Uri) {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(FixReviewer.scheme, this);
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  /**
+   * Show the file next to its text with the given hunks applied
+   */
+  async preview(fix: ProposedFix, hunkIds: string[]): Promise<void> {
+    const uri = vscode.Uri.joinPath(this.workspaceRoot, fix.path);
+    const current = await readFile(uri);
+    const { content, failed } = applyHunks(current ?? '', fix.hunks.filter(hunk => hunkIds.includes(hunk.id)));
+
+    const proposed = this.setContent(fix.path, 'proposed', content);
+    // A new file is compared with an empty document
+    const original = current === undefined ? this.setContent(fix.path, 'empty', '') : uri;
+    await vscode.commands.executeCommand('vscode.diff', original, proposed, `${fix.path} (proposed fix)`, { preview: true });
+
+    if (failed.length > 0) {
+      vscode.window.showWarningMessage(`${failed.length} hunk(s) of the fix for ${fix.path} no longer match the file and are not shown.`);
+    }
+  }
+
+  /**
+   * Apply the accepted hunks and reject the other pending ones. Changed
+   * files are saved, as the build and tests read them from disk.
+   */
+  async review(fixes: ProposedFix[], acceptedIds: string[], comment?: string): Promise<FixReviewOutcome> {
+    const reviewed = fixes.map(fix => ({ ...fix, hunks: fix.hunks.map(hunk => ({ ...hunk })) }));
+    const edit = new vscode.WorkspaceEdit();
+    const changed: { path: string; uri: vscode.Uri }[] = [];
+    const feedback: FixFeedback[] = [];
+
+    for (const fix of reviewed) {
+      const pending = fix.hunks.filter(hunk => hunk.status === 'pending');
+      const accepted = pending.filter(hunk => acceptedIds.includes(hunk.id));
+      for (const hunk of pending.filter(hunk => !accepted.includes(hunk))) {
+        hunk.status = 'rejected';
+        feedback.push({ path: fix.path, hunk: formatHunk(hunk), reason: 'rejected', comment });
+      }
+      if (accepted.length === 0) continue;
+
+      // Open documents include unsaved changes
+      const uri = vscode.Uri.joinPath(this.workspaceRoot, fix.path);
+      const document = await openDocument(uri);
+      const current = document ? document.getText() : '';
+      const { content, failed } = applyHunks(current, accepted);
+      for (const hunk of accepted) {
+        hunk.status = failed.includes(hunk) ? 'conflict' : 'applied';
+        if (hunk.status === 'conflict') {
+          feedback.push({ path: fix.path, hunk: formatHunk(hunk), reason: 'conflict' });
+        }
+      }
+      if (failed.length === accepted.length) continue;
+
+      if (document) {
+        edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(current.length)), content);
+      } else {
+        edit.createFile(uri, { ignoreIfExists: true });
+        edit.insert(uri, new vscode.Position(0, 0), content);
+      }
+      changed.push({ path: fix.path, uri });
+    }
+
+    if (changed.length > 0 && !(await vscode.workspace.applyEdit(edit))) {
+      throw new Error('VS Code did not apply the fixes');
+    }
+    for (const { uri } of changed) {
+      await (await vscode.workspace.openTextDocument(uri)).save();
+    }
+
+    console.log(`[FixReview] Applied fixes to ${changed.length} file(s), ${feedback.length} hunk(s) sent back as feedback`);
+    return { fixes: reviewed, applied: changed.map(file => file.path), feedback };
+  }
+
+  dispose(): void {
+    this.registration.dispose();
+    this.changes.dispose();
+    this.contents.clear();
+  }
+
+  private setContent(path: string, query: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: FixReviewer.scheme, path: `/${path}`, query });
+    this.contents.set(uri.toString(), content);
+    this.changes.fire(uri);
+    return uri;
+  }
+}
+
+async function openDocument(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+  } catch {
+    return undefined;
+  }
+  return vscode.workspace.openTextDocument(uri);
+}
+
+/**
+ * A file's text, including unsaved changes; undefined if it does not exist
+ */
+async function readFile(uri: vscode.Uri): Promise<string | undefined> {
+  const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+  if (open) {
+    return open.getText();
+  }
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  } catch {
+    return undefined;
+  }
+}
@@ -1,7 +1,19 @@
 import * as vscode from 'vscode';
 import { SPARCWorkflowState } from './sparcWorkflowEngine';
-import { AIService, AIRequest } from './aiService';
-import { CodeExecutionEngine } from './codeExecutionEngine';
+import { AIService, AIRequest, AIResponse } from './aiService';
+import { renderArchitecture, StructuredArtifacts } from './artifactSchemas';
+import { BuildResult, CodeExecutionEngine, VerificationResult } from './codeExecutionEngine';
+import { throwIfCancelled } from './cancellation';
+import { ContextReport } from './contextBuilder';
+import { DebugEvidence, evidenceContext, gatherDebugEvidence, summarizeEvidence } from './debugEvidence';
+import { conflictFeedback, proposeFixes } from './fixReview';
+import { ArchitectureDiagrams, DIAGRAM_KINDS } from './mermaid';
+import { FixFeedback, formatFixFeedback, ProposedFix } from './patches';
+import { formatTestResults, TestRunResult } from './testResults';
+import { RetrievedFile, retrieveWorkspaceFiles } from './workspaceRetrieval';
+import { McpToolRegistry, parseToolCalls } from '../mcp/toolRegistry';
+import { ModelProviderFactory } from '../modelProviders/modelProviderFactory';
+import { RetryInfo } from '../modelProviders/modelProviderInterface';
 
 /**
  * Graph Node Types for SPARC Workflow Orchestration
@@ -18,6 +30,8 @@ export interface GraphNodeState {
   issueTitle: string;
   issueDescription: string;
   userInput: string;
+  // Who the issue is assigned to, e.g. "Debugger"
+  assigneeRole?: string;
   
   // Generated artifacts
   artifacts: {
@@ -30,6 +44,12 @@ export interface GraphNodeState {
     notes?: string;
   };
   
+  // Validated data behind the requirements, pseudocode, architecture and implementation artifacts
+  structuredArtifacts?: StructuredArtifacts;
+  
+  // The architecture diagrams replaced by the latest change to them
+  previousDiagrams?: ArchitectureDiagrams;
+  
   // AI context
   aiContext: {
     currentAgent: string;
@@ -39,6 +59,20 @@ export interface GraphNodeState {
     lastAIResponse?: any;
     confidence?: number;
     buildResult?: any;
+    // Outcome of the tests written by the testing phase
+    testResults?: TestRunResult;
+    // What the latest debug analysis was based on
+    debugEvidence?: DebugEvidence;
+    // File changes from the latest fix generation, as the user reviewed them
+    proposedFixes?: ProposedFix[];
+    // Fix hunks not taken since the last fix generation, for the next one
+    fixFeedback?: FixFeedback[];
+    // The build and tests re-run after fixes were applied
+    fixVerification?: VerificationResult;
+    // What each phase's prompt included in the latest run
+    contextReports?: Record<string, ContextReport>;
+    // Phases the mock provider answered in the latest run
+    mockPhases?: string[];
   };
   
   // Memory and context
@@ -53,6 +87,10 @@ export interface GraphNodeState {
     transitions: Transition[];
     errors: Error[];
     performance: PerformanceMetrics;
+    // Set when the last run was cancelled; the next run resumes at currentPhase
+    cancelled?: { phase: string; at: Date };
+    // Set when a model request failed for good; the next run retries the phase
+    failed?: { phase: string; at: Date; kind: string; error: string };
   };
   
   // Timestamps
@@ -77,6 +115,9 @@ export interface ToolCall {
   result: any;
   timestamp: Date;
   success: boolean;
+  server?: string;
+  durationMs?: number;
+  error?: string;
 }
 
 export interface Decision {
@@ -116,6 +157,27 @@ export interface Transition {
   success: boolean;
 }
 
+/**
+ * Progress events emitted while a workflow runs, for live display
+ */
+export type WorkflowEvent =
+  | { type: 'nodeStarted'; nodeId: string; phase: string; mode: string }
+  | { type: 'delta'; nodeId: string; content: string }
+  | { type: 'toolCall'; nodeId: string; toolName: string; success: boolean }
+  | { type: 'context'; nodeId: string; phase: string; report: ContextReport }
+  | { type: 'mock'; nodeId: string; phase: string }
+  | { type: 'retry'; nodeId: string; attempt: number; maxAttempts: number; delayMs: number; reason: string }
+  | { type: 'nodeFinished'; nodeId: string; phase: string; progress: number; success: boolean };
+
+/**
+ * Per-run options passed to a node's execute()
+ */
+export interface NodeExecutionContext {
+  onEvent?: (event: WorkflowEvent) => void;
+  // Aborted when the user cancels the run
+  signal?: AbortSignal;
+}
+
 export interface PerformanceMetrics {
   executionTime: number;
   nodeExecutionTimes: Map<string, number>;
@@ -135,6 +197,10 @@ export abstract class BaseGraphNode {
   protected status: 'active' | 'completed' | 'pending' | 'blocked';
   protected aiService: AIService;
   protected codeExecutionEngine: CodeExecutionEngine;
+  protected toolRegistry: McpToolRegistry | null = null;
+  
+  // Tool call/result exchanges allowed per AI request
+  protected static readonly MAX_TOOL_ROUNDS = 3;
   
   constructor(id: string, name: string, type: string, workspaceRoot: vscode.Uri) {
     this.id = id;
@@ -145,7 +211,21 @@ export abstract class BaseGraphNode {
     this.codeExecutionEngine = new CodeExecutionEngine(workspaceRoot);
   }
   
-  abstract execute(state: GraphNodeState): Promise<GraphNodeState>;
+  abstract execute(state: GraphNodeState, context?: NodeExecutionContext): Promise<GraphNodeState>;
+  
+  /**
+   * Give the node access to the MCP tools configured in .nys/config.json
+   */
+  setToolRegistry(registry: McpToolRegistry | null): void {
+    this.toolRegistry = registry;
+  }
+  
+  /**
+   * Use the workspace's shared model selection for AI requests
+   */
+  setModelProviders(providers: ModelProviderFactory): void {
+    this.aiService = new AIService(providers);
+  }
   
   protected logExecution(nodeId: string, action: string, result: any): void {
     console.log(`[${nodeId}] ${action}:`, result);
@@ -163,6 +243,54 @@ export abstract class BaseGraphNode {
     return state;
   }
   
+  /**
+   * Store a response's artifact: its rendered markdown, and the data it was
+   * rendered from when the response matched the phase's schema
+   */
+  protected addResponseArtifact<K extends keyof StructuredArtifacts>(state: GraphNodeState, key: K, response: AIResponse): GraphNodeState {
+    state = this.addArtifact(state, key, response.content);
+    const structured: StructuredArtifacts = { ...state.structuredArtifacts };
+    const data = response.structured?.[key];
+    if (data) {
+      structured[key] = data;
+    } else {
+      // Prose replaced the artifact, so older data would contradict it
+      delete structured[key];
+    }
+    state.structuredArtifacts = structured;
+    return state;
+  }
+  
+  /**
+   * The AI request for a phase: the user's message and the issue, with all
+   * artifacts so far for the context builder to choose from
+   */
+  protected createRequest(state: GraphNodeState, phase: string): AIRequest {
+    return {
+      userInput: state.userInput,
+      mode: state.currentMode,
+      phase,
+      context: {
+        issueTitle: state.issueTitle,
+        issueDescription: state.issueDescription,
+        existingArtifacts: state.artifacts
+      }
+    };
+  }
+  
+  /**
+   * Keep the diagrams an update replaced, so the sidebar can show what
+   * changed; nothing is kept when the diagrams are new or unchanged
+   */
+  protected trackDiagramChange(state: GraphNodeState, previous?: ArchitectureDiagrams): void {
+    const current = state.structuredArtifacts?.architecture?.diagrams;
+    if (previous && current && DIAGRAM_KINDS.some(({ kind }) => previous[kind].trim() !== current[kind].trim())) {
+      state.previousDiagrams = previous;
+    } else {
+      delete state.previousDiagrams;
+    }
+  }
+  
   protected addAgentAction(
     state: GraphNodeState,
     agentId: string,
@@ -185,6 +313,134 @@ export abstract class BaseGraphNode {
     state.updatedAt = new Date();
     return state;
   }
+  
+  /**
+   * Invoke an MCP tool and record the call in state.aiContext.toolCalls. A
+   * call cut short by `signal` is a cancellation and is not recorded.
+   */
+  protected async callTool(state: GraphNodeState, toolName: string, parameters: Record<string, unknown>, signal?: AbortSignal): Promise<ToolCall> {
+    const invocation = this.toolRegistry
+      ? await this.toolRegistry.invoke(toolName, parameters, signal)
+      : { tool: toolName, parameters, result: null, startedAt: new Date(), durationMs: 0, success: false, error: 'No MCP servers are configured' };
+    throwIfCancelled(signal);
+    
+    const toolCall: ToolCall = {
+      id: `tool-${Date.now()}-${state.aiContext.toolCalls.length}`,
+      toolName: invocation.server ? `${invocation.server}/${invocation.tool}` : invocation.tool,
+      parameters,
+      result: invocation.result,
+      timestamp: invocation.startedAt,
+      success: invocation.success,
+      server: invocation.server,
+      durationMs: invocation.durationMs,
+      error: invocation.error
+    };
+    
+    state.aiContext.toolCalls.push(toolCall);
+    const counts = state.metadata.performance.toolUsageCounts;
+    if (counts instanceof Map) {
+      counts.set(toolCall.toolName, (counts.get(toolCall.toolName) || 0) + 1);
+    }
+    state.updatedAt = new Date();
+    
+    this.logExecution(this.id, `Tool call ${toolCall.toolName}`, toolCall.success ? `ok (${toolCall.durationMs}ms)` : toolCall.error);
+    return toolCall;
+  }
+  
+  /**
+   * Send an AI request with the allowed MCP tools on offer. TOOL_CALL blocks in
+   * the response are executed and their results sent back, up to
+   * MAX_TOOL_ROUNDS times; the last response is returned. Content is
+   * streamed to `context.onEvent` as `delta` events, and the context report
+   * of the last request is kept in state and sent as a `context` event.
+   */
+  protected async requestWithTools(state: GraphNodeState, request: AIRequest, context: NodeExecutionContext = {}): Promise<AIResponse> {
+    const { onEvent, signal } = context;
+    const onToken = onEvent ? (delta: string) => onEvent({ type: 'delta', nodeId: this.id, content: delta }) : undefined;
+    const onRetry = onEvent ? (retry: RetryInfo) => onEvent({ type: 'retry', nodeId: this.id, ...retry }) : undefined;
+    
+    // Earlier turns of the issue's chat give follow-up requests their context
+    if (!request.context?.chatHistory && state.memory.chatHistory.length > 0) {
+      request = {
+        ...request,
+        context: {
+          ...request.context,
+          chatHistory: state.memory.chatHistory.map(message => ({ role: message.role, content: message.content }))
+        }
+      };
+    }
+    
+    if (!request.context?.assigneeRole && state.assigneeRole) {
+      request = { ...request, context: { ...request.context, assigneeRole: state.assigneeRole } };
+    }
+    
+    if (!request.context?.retrievedContext && state.memory.retrievedContext.length > 0) {
+      request = {
+        ...request,
+        context: {
+          ...request.context,
+          retrievedContext: state.memory.retrievedContext.map(item => ({ source: item.source, content: item.content, relevance: item.relevance }))
+        }
+      };
+    }
+    
+    let availableTools: { name: string; description?: string; inputSchema?: any }[] = [];
+    if (this.toolRegistry) {
+      try {
+        availableTools = (await this.toolRegistry.listAllowedTools()).map(tool => ({
+          name: tool.qualifiedName,
+          description: tool.description,
+          inputSchema: tool.inputSchema
+        }));
+      } catch (error) {
+        this.logExecution(this.id, 'Tool discovery failed', error);
+      }
+    }
+    
+    if (availableTools.length === 0) {
+      return this.recordResponse(state, request.phase, await this.aiService.processRequest(request, onToken, signal, onRetry), onEvent);
+    }
+    
+    const toolResults: { tool: string; success: boolean; result?: any; error?: string }[] = [];
+    let response = await this.aiService.processRequest({ ...request, context: { ...request.context, availableTools } }, onToken, signal, onRetry);
+    
+    for (let round = 0; round < BaseGraphNode.MAX_TOOL_ROUNDS; round++) {
+      const calls = parseToolCalls(response.content);
+      if (calls.length === 0) break;
+      
+      for (const call of calls) {
+        throwIfCancelled(signal);
+        const toolCall = await this.callTool(state, call.tool, call.params, signal);
+        onEvent?.({ type: 'toolCall', nodeId: this.id, toolName: toolCall.toolName, success: toolCall.success });
+        toolResults.push({ tool: toolCall.toolName, success: toolCall.success, result: toolCall.result, error: toolCall.error });
+      }
+      
+      // No tools on offer in the last round, so the model has to answer
+      const lastRound = round === BaseGraphNode.MAX_TOOL_ROUNDS - 1;
+      response = await this.aiService.processRequest({
+        ...request,
+        context: { ...request.context, availableTools: lastRound ? undefined : availableTools, toolResults }
+      }, onToken, signal, onRetry);
+    }
+    
+    return this.recordResponse(state, request.phase, response, onEvent);
+  }
+  
+  /**
+   * Note what the prompt included and whether the mock provider answered
+   */
+  private recordResponse(state: GraphNodeState, phase: string, response: AIResponse, onEvent?: (event: WorkflowEvent) => void): AIResponse {
+    if (response.context) {
+      state.aiContext.contextReports = { ...state.aiContext.contextReports, [phase]: response.context };
+      onEvent?.({ type: 'context', nodeId: this.id, phase, report: response.context });
+    }
+    if (response.mock) {
+      const mockPhases = state.aiContext.mockPhases || [];
+      state.aiContext.mockPhases = mockPhases.includes(phase) ? mockPhases : [...mockPhases, phase];
+      onEvent?.({ type: 'mock', nodeId: this.id, phase });
+    }
+    return response;
+  }
 }
 
 /**
@@ -196,27 +452,15 @@ export class SpecificationNode extends BaseGraphNode {
     super('specification', 'Specification Phase', 'design', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting specification phase', state.issueDescription);
     
     try {
-      // Use AI service to generate requirements based on user input
-      const aiRequest: AIRequest = {
-        userInput: state.userInput,
-        mode: state.currentMode,
-        phase: 'specification',
-        context: {
-          issueTitle: state.issueTitle,
-          issueDescription: state.issueDescription,
-          existingArtifacts: state.artifacts
-        }
-      };
-      
-      const aiResponse = await this.aiService.processRequest(aiRequest);
+      const aiResponse = await this.requestWithTools(state, this.createRequest(state, 'specification'), context);
       const requirements = aiResponse.content;
       
       // Update state with AI-generated requirements
-      state = this.addArtifact(state, 'requirements', requirements);
+      state = this.addResponseArtifact(state, 'requirements', aiResponse);
       state = this.updateProgress(state, 20);
       state = this.addAgentAction(
         state,
@@ -245,38 +489,6 @@ export class SpecificationNode extends BaseGraphNode {
       throw error;
     }
   }
-  
-  private async generateRequirements(description: string): Promise<string> {
-    // Simulate AI-generated requirements
-    return `# Requirements Specification
-
-## Overview
-${description}
-
-## Functional Requirements
-- [ ] Core functionality implementation
-- [ ] User interface components
-- [ ] Data processing capabilities
-- [ ] Integration requirements
-
-## Non-Functional Requirements
-- [ ] Performance requirements
-- [ ] Security requirements
-- [ ] Scalability requirements
-- [ ] Maintainability requirements
-
-## Constraints
-- [ ] Technical constraints
-- [ ] Resource constraints
-- [ ] Time constraints
-- [ ] Compliance requirements
-
-## Acceptance Criteria
-- [ ] Feature completeness
-- [ ] Performance benchmarks
-- [ ] Quality standards
-- [ ] User experience goals`;
-  }
 }
 
 export class PseudocodeNode extends BaseGraphNode {
@@ -284,27 +496,15 @@ export class PseudocodeNode extends BaseGraphNode {
     super('pseudocode', 'Pseudocode Phase', 'design', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting pseudocode phase', state.artifacts.requirements);
     
     try {
-      // Use AI service to generate pseudocode based on user input
-      const aiRequest: AIRequest = {
-        userInput: state.userInput,
-        mode: state.currentMode,
-        phase: 'pseudocode',
-        context: {
-          issueTitle: state.issueTitle,
-          issueDescription: state.issueDescription,
-          existingArtifacts: state.artifacts
-        }
-      };
-      
-      const aiResponse = await this.aiService.processRequest(aiRequest);
+      const aiResponse = await this.requestWithTools(state, this.createRequest(state, 'pseudocode'), context);
       const pseudocode = aiResponse.content;
       
       // Update state with AI-generated pseudocode
-      state = this.addArtifact(state, 'pseudocode', pseudocode);
+      state = this.addResponseArtifact(state, 'pseudocode', aiResponse);
       state = this.updateProgress(state, 40);
       state = this.addAgentAction(
         state,
@@ -333,63 +533,6 @@ export class PseudocodeNode extends BaseGraphNode {
       throw error;
     }
   }
-  
-  private async generatePseudocode(_requirements: string): Promise<string> {
-    // Simulate AI-generated pseudocode
-    return `# Pseudocode Implementation
-
-## Main Algorithm
-\`\`\`
-BEGIN
-  INITIALIZE system
-  LOAD requirements
-  VALIDATE inputs
-  
-  FOR each requirement DO
-    ANALYZE requirement
-    DESIGN solution
-    IMPLEMENT logic
-    TEST functionality
-  END FOR
-  
-  INTEGRATE components
-  VALIDATE system
-  DEPLOY solution
-END
-\`\`\`
-
-## Data Structures
-\`\`\`
-STRUCTURE UserData {
-  id: STRING
-  name: STRING
-  email: STRING
-  preferences: OBJECT
-}
-
-STRUCTURE SystemState {
-  currentUser: UserData
-  session: STRING
-  permissions: ARRAY
-}
-\`\`\`
-
-## Key Functions
-\`\`\`
-FUNCTION processUserInput(input: STRING) -> RESULT
-  VALIDATE input
-  PARSE input
-  EXECUTE command
-  RETURN result
-END FUNCTION
-
-FUNCTION validateData(data: OBJECT) -> BOOLEAN
-  CHECK data integrity
-  VERIFY permissions
-  RETURN validation result
-END FUNCTION
-\`\`\``;
-  }
 }
 
 export class ArchitectureNode extends BaseGraphNode {
@@ -397,27 +540,17 @@ export class ArchitectureNode extends BaseGraphNode {
     super('architecture', 'Architecture Phase', 'design', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting architecture phase', state.artifacts.pseudocode);
     
     try {
-      // Use AI service to generate architecture based on user input
-      const aiRequest: AIRequest = {
-        userInput: state.userInput,
-        mode: state.currentMode,
-        phase: 'architecture',
-        context: {
-          issueTitle: state.issueTitle,
-          issueDescription: state.issueDescription,
-          existingArtifacts: state.artifacts
-        }
-      };
-      
-      const aiResponse = await this.aiService.processRequest(aiRequest);
+      const previousDiagrams = state.structuredArtifacts?.architecture?.diagrams;
+      const aiResponse = await this.requestWithTools(state, this.createRequest(state, 'architecture'), context);
       const architecture = aiResponse.content;
       
       // Update state with AI-generated architecture
-      state = this.addArtifact(state, 'architecture', architecture);
+      state = this.addResponseArtifact(state, 'architecture', aiResponse);
+      this.trackDiagramChange(state, previousDiagrams);
       state = this.updateProgress(state, 60);
       state = this.addAgentAction(
         state,
@@ -446,80 +579,6 @@ export class ArchitectureNode extends BaseGraphNode {
       throw error;
     }
   }
-  
-  private async generateArchitecture(_pseudocode: string): Promise<string> {
-    // Simulate AI-generated architecture
-    return `# System Architecture
-
-## Architecture Overview
-\`\`\`
-┌─────────────────┐    ┌─────────────────┐    ┌─────────────────┐
-│   Presentation  │    │   Business      │    │   Data          │
-│   Layer         │    │   Logic Layer   │    │   Layer         │
-│                 │    │                 │    │                 │
-│ • UI Components │    │ • Core Services │    │ • Database      │
-│ • Controllers   │    │ • Business      │    │ • File System   │
-│ • Views         │    │   Rules         │    │ • External APIs │
-│ • Templates     │    │ • Validation    │    │ • Cache         │
-└─────────────────┘    └─────────────────┘    └─────────────────┘
-\`\`\`
-
-## Component Design
-- **Frontend**: React/Vue.js components with TypeScript
-- **Backend**: Node.js/Express with RESTful APIs
-- **Database**: PostgreSQL with Redis caching
-- **Authentication**: JWT-based with OAuth2 support
-- **File Storage**: AWS S3 or local file system
-
-## API Design
-\`\`\`
-GET    /api/users           - List users
-POST   /api/users           - Create user
-GET    /api/users/:id       - Get user by ID
-PUT    /api/users/:id       - Update user
-DELETE /api/users/:id       - Delete user
-\`\`\`
-
-## Security Considerations
-- Input validation and sanitization
-- Authentication and authorization
-- Rate limiting and DDoS protection
-- Data encryption in transit and at rest
-- Audit logging and monitoring`;
-  }
-  
-  private async generateGuidelines(_requirements: string): Promise<string> {
-    // Simulate AI-generated guidelines
-    return `# Development Guidelines
-
-## Code Standards
-- Use TypeScript for type safety
-- Follow ESLint and Prettier configurations
-- Implement comprehensive error handling
-- Write unit tests for all functions
-- Use meaningful variable and function names
-
-## Architecture Principles
-- Follow SOLID principles
-- Implement dependency injection
-- Use design patterns appropriately
-- Maintain separation of concerns
-- Ensure scalability and maintainability
-
-## Testing Strategy
-- Unit tests for individual components
-- Integration tests for API endpoints
-- End-to-end tests for user workflows
-- Performance tests for critical paths
-- Security tests for vulnerabilities
-
-## Deployment Guidelines
-- Use containerization (Docker)
-- Implement CI/CD pipelines
-- Use environment-specific configurations
-- Monitor application performance
-- Implement rollback strategies`;
-  }
 }
 
 export class RefinementNode extends BaseGraphNode {
@@ -527,27 +586,34 @@ export class RefinementNode extends BaseGraphNode {
     super('refinement', 'Refinement Phase', 'design', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting refinement phase', state.artifacts.requirements);
     
     try {
-      // Refine requirements based on architecture
-      const refinedRequirements = await this.refineRequirements(
-        state.artifacts.requirements || '',
-        state.artifacts.architecture || ''
-      );
+      // The refined requirements replace the specification, in the same schema
+      const requirements = state.artifacts.requirements || '';
+      const aiResponse = await this.requestWithTools(state, this.createRequest(state, 'refinement'), context);
+      const refinedRequirements = aiResponse.content;
       
-      // Update state with refined requirements
-      state = this.addArtifact(state, 'requirements', refinedRequirements);
+      state = this.addResponseArtifact(state, 'requirements', aiResponse);
+      if (state.artifacts.requirements !== requirements && state.structuredArtifacts?.architecture) {
+        state = await this.redrawDiagrams(state, context);
+      }
       state = this.updateProgress(state, 80);
       state = this.addAgentAction(
         state,
         'design-agent',
         'refine_requirements',
-        state.artifacts.requirements || '',
+        requirements,
         refinedRequirements
       );
       
+      state.aiContext = {
+        ...state.aiContext,
+        lastAIResponse: aiResponse,
+        confidence: aiResponse.confidence
+      };
+      
       // Move to next phase
       state.currentPhase = 'completion';
       this.status = 'completed';
@@ -561,29 +627,24 @@ export class RefinementNode extends BaseGraphNode {
     }
   }
   
-  private async refineRequirements(requirements: string, _architecture: string): Promise<string> {
-    // Simulate AI-refined requirements
-    return `${requirements}
-
-## Refined Requirements (Post-Architecture)
-
-### Technical Refinements
-- Updated based on architecture decisions
-- Clarified implementation details
-- Added technical constraints
-- Refined performance requirements
-
-### Implementation Notes
-- Specific technology stack requirements
-- Integration points and dependencies
-- Performance benchmarks and SLAs
-- Security and compliance requirements
-
-### Quality Assurance
-- Updated acceptance criteria
-- Performance testing requirements
-- Security testing requirements
-- User acceptance testing criteria`;
+  /**
+   * Ask for diagrams that match the refined requirements and swap them into
+   * the architecture; the old ones stay if the answer does not validate
+   */
+  private async redrawDiagrams(state: GraphNodeState, context: NodeExecutionContext): Promise<GraphNodeState> {
+    const architecture = state.structuredArtifacts!.architecture!;
+    const response = await this.requestWithTools(state, this.createRequest(state, 'diagrams'), context);
+    const diagrams = response.structured?.diagrams;
+    if (!diagrams) {
+      this.logExecution(this.id, 'Keeping the architecture diagrams', response.validation?.errors);
+      return state;
+    }
+    
+    const updated = { ...architecture, diagrams };
+    state.structuredArtifacts = { ...state.structuredArtifacts, architecture: updated };
+    state = this.addArtifact(state, 'architecture', renderArchitecture(updated));
+    this.trackDiagramChange(state, architecture.diagrams);
+    return state;
   }
 }
 
@@ -592,14 +653,14 @@ export class CompletionNode extends BaseGraphNode {
     super('completion', 'Completion Phase', 'design', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting completion phase', state.artifacts);
     
     try {
-      // Generate completion summary
-      const completionSummary = await this.generateCompletionSummary(state.artifacts);
+      // Summarize the design and what the build phase should do first
+      const aiResponse = await this.requestWithTools(state, this.createRequest(state, 'completion'), context);
+      const completionSummary = aiResponse.content;
       
-      // Update state with completion summary
       state = this.addArtifact(state, 'notes', completionSummary);
       state = this.updateProgress(state, 100);
       state = this.addAgentAction(
@@ -610,6 +671,12 @@ export class CompletionNode extends BaseGraphNode {
         completionSummary
       );
       
+      state.aiContext = {
+        ...state.aiContext,
+        lastAIResponse: aiResponse,
+        confidence: aiResponse.confidence
+      };
+      
       // Design phase completed
       state.currentMode = 'build';
       state.currentPhase = 'implementation';
@@ -623,42 +690,6 @@ export class CompletionNode extends BaseGraphNode {
       throw error;
     }
   }
-  
-  private async generateCompletionSummary(_artifacts: any): Promise<string> {
-    // Simulate AI-generated completion summary
-    return `# Design Phase Completion Summary
-
-## Completed Artifacts
-✅ **Requirements Specification**: Comprehensive requirements document
-✅ **Pseudocode Implementation**: Detailed algorithmic approach
-✅ **System Architecture**: Complete architectural design
-✅ **Development Guidelines**: Coding standards and best practices
-
-## Key Decisions Made
-- Technology stack selection
-- Architecture pattern choice
-- Security implementation approach
-- Performance optimization strategy
-
-## Next Steps
-1. **Build Phase**: Implement the designed solution
-2. **Code Generation**: Create actual implementation
-3. **Testing**: Implement comprehensive test suite
-4. **Documentation**: Generate technical documentation
-
-## Quality Metrics
-- Requirements coverage: 100%
-- Architecture completeness: 100%
-- Design consistency: 100%
-- Implementation readiness: 100%
-
-## Risk Assessment
-- Low risk: Well-defined requirements
-- Medium risk: Complex integration points
-- Mitigation: Comprehensive testing strategy
-
-The design phase is now complete and ready for implementation.`;
-  }
 }
 
 /**
@@ -666,41 +697,43 @@ The design phase is now complete and ready for implementation.`;
  */
 
 export class ImplementationNode extends BaseGraphNode {
-  constructor(workspaceRoot: vscode.Uri) {
+  constructor(private readonly workspaceRoot: vscode.Uri) {
     super('implementation', 'Implementation Phase', 'build', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting implementation phase', state.artifacts.architecture);
     
     try {
-      // Use AI service to generate implementation based on user input
-      const aiRequest: AIRequest = {
-        userInput: state.userInput,
-        mode: state.currentMode,
-        phase: 'implementation',
-        context: {
-          issueTitle: state.issueTitle,
-          issueDescription: state.issueDescription,
-          existingArtifacts: state.artifacts
-        }
-      };
+      // The code already in the workspace that the request is about
+      const files = await retrieveWorkspaceFiles(this.workspaceRoot, `${state.userInput} ${state.issueTitle} ${state.issueDescription}`);
+      this.logExecution(this.id, 'Retrieved workspace files', files.map(file => file.path));
       
-      const aiResponse = await this.aiService.processRequest(aiRequest);
+      const request = this.createRequest(state, 'implementation');
+      const retrievedContext = [
+        ...fileContext(files),
+        ...state.memory.retrievedContext.map(item => ({ source: item.source, content: item.content, relevance: item.relevance }))
+      ];
+      const aiResponse = await this.requestWithTools(state, { ...request, context: { ...request.context, retrievedContext } }, context);
       const implementation = aiResponse.content;
+      const structured = aiResponse.structured?.implementation;
       
-      // Execute the build workflow: write files, build, run, test
+      // Execute the build workflow: write files, build, run, test. Files
+      // from a structured response are written as given; prose is parsed.
       console.log('[ImplementationNode] Starting code execution workflow...');
       const buildResult = await this.codeExecutionEngine.executeBuildWorkflow(
         state.userInput,
         state.issueDescription,
-        implementation
+        structured ? structured.files : implementation,
+        context.signal,
+        aiResponse.mock
       );
       
       // Create comprehensive implementation report
-      const implementationReport = this.createImplementationReport(implementation, buildResult);
+      const implementationReport = this.createImplementationReport(implementation, buildResult, !!structured);
       
       // Update state with AI-generated implementation and execution results
+      state = this.addResponseArtifact(state, 'implementation', aiResponse);
       state = this.addArtifact(state, 'implementation', implementationReport);
       state = this.updateProgress(state, 40);
       state = this.addAgentAction(
@@ -735,13 +768,16 @@ export class ImplementationNode extends BaseGraphNode {
   /**
    * Create a comprehensive implementation report
    */
-  private createImplementationReport(generatedCode: string, buildResult: any): string {
+  private createImplementationReport(generatedCode: string, buildResult: any, rendered: boolean = false): string {
     let report = `# Implementation Report\n\n`;
     
-    report += `## Generated Code\n\`\`\`\n${generatedCode}\n\`\`\`\n\n`;
+    // Markdown rendered from structured output already fences each file
+    report += rendered
+      ? `## Generated Code\n\n${generatedCode.replace(/^# Implementation\n\n/, '')}\n\n`
+      : `## Generated Code\n\`\`\`\n${generatedCode}\n\`\`\`\n\n`;
     
     report += `## Execution Results\n\n`;
-    report += `**Status**: ${buildResult.success ? '✅ Success' : '❌ Failed'}\n\n`;
+    report += `**Status**: ${buildResult.skipped ? '⏭️ Skipped' : buildResult.success ? '✅ Success' : '❌ Failed'}\n\n`;
     
     if (buildResult.filesCreated && buildResult.filesCreated.length > 0) {
       report += `### Files Created\n`;
@@ -792,133 +828,80 @@ export class ImplementationNode extends BaseGraphNode {
     
     return report;
   }
-  
-  private async generateImplementation(_architecture: string): Promise<string> {
-    // Simulate AI-generated implementation
-    return `# Implementation Code
-
-## Main Application File
-\`\`\`typescript
-// src/app.ts
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import { userRoutes } from './routes/users';
-import { authRoutes } from './routes/auth';
-import { errorHandler } from './middleware/errorHandler';
-
-const app = express();
-
-// Middleware
-app.use(helmet());
-app.use(cors());
-app.use(express.json());
-
-// Routes
-app.use('/api/users', userRoutes);
-app.use('/api/auth', authRoutes);
-
-// Error handling
-app.use(errorHandler);
-
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-  console.log(\`Server running on port \${PORT}\`);
-});
-
-export default app;
-\`\`\`
-
-## User Service
-\`\`\`typescript
-// src/services/userService.ts
-import { User } from '../models/User';
-import { Database } from '../database/Database';
-
-export class UserService {
-  constructor(private db: Database) {}
-  
-  async createUser(userData: Partial<User>): Promise<User> {
-    // Validate input
-    if (!userData.email || !userData.name) {
-      throw new Error('Email and name are required');
-    }
-    
-    // Create user
-    const user = await this.db.users.create(userData);
-    return user;
-  }
-  
-  async getUserById(id: string): Promise<User | null> {
-    return await this.db.users.findById(id);
-  }
-  
-  async updateUser(id: string, updates: Partial<User>): Promise<User> {
-    const user = await this.db.users.update(id, updates);
-    if (!user) {
-      throw new Error('User not found');
-    }
-    return user;
-  }
-  
-  async deleteUser(id: string): Promise<boolean> {
-    return await this.db.users.delete(id);
-  }
-}
-\`\`\`
-
-## Database Models
-\`\`\`typescript
-// src/models/User.ts
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-export class UserModel {
-  constructor(
-    public id: string,
-    public name: string,
-    public email: string,
-    public createdAt: Date = new Date(),
-    public updatedAt: Date = new Date()
-  ) {}
-}
-\`\`\``;
-  }
 }
 
 export class TestingNode extends BaseGraphNode {
-  constructor(workspaceRoot: vscode.Uri) {
+  constructor(private readonly workspaceRoot: vscode.Uri) {
     super('testing', 'Testing Phase', 'build', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting testing phase', state.artifacts.implementation);
     
     try {
-      // Generate test suite
-      const tests = await this.generateTests(state.artifacts.implementation || '');
+      // Tests for the framework the project's tests are run with
+      const { testFramework } = this.codeExecutionEngine.analyzeRequest(state.userInput, state.issueDescription);
+      
+      // The files just written, and existing tests to match in style
+      const files = await retrieveWorkspaceFiles(this.workspaceRoot, `${state.userInput} ${state.issueTitle} ${state.issueDescription}`, {
+        preferTests: true,
+        include: ((state.aiContext.buildResult as BuildResult | undefined)?.filesCreated || []).map(file => file.path)
+      });
+      this.logExecution(this.id, 'Retrieved workspace files', files.map(file => file.path));
+      
+      const request = this.createRequest(state, 'testing');
+      const retrievedContext = [
+        ...fileContext(files),
+        ...state.memory.retrievedContext.map(item => ({ source: item.source, content: item.content, relevance: item.relevance }))
+      ];
+      const aiResponse = await this.requestWithTools(state, { ...request, context: { ...request.context, testFramework, retrievedContext } }, context);
+      const structured = aiResponse.structured?.tests;
       
-      // Update state with tests
+      // Only files from a structured response are written and run
+      const testResults: TestRunResult = structured
+        ? await this.codeExecutionEngine.executeTestWorkflow(
+          state.userInput,
+          state.issueDescription,
+          structured.files,
+          context.signal,
+          aiResponse.mock
+        )
+        : {
+          success: true,
+          skipped: true,
+          framework: testFramework,
+          reason: 'The response did not list test files, so no tests were written or run.',
+          filesWritten: [],
+          cases: [],
+          counts: { passed: 0, failed: 0, skipped: 0 }
+        };
+      const tests = `${aiResponse.content}\n\n${formatTestResults(testResults)}`;
+      
+      state = this.addResponseArtifact(state, 'tests', aiResponse);
       state = this.addArtifact(state, 'tests', tests);
-      state = this.updateProgress(state, 80);
+      state = this.updateProgress(state, 100);
       state = this.addAgentAction(
         state,
         'build-agent',
-        'generate_tests',
+        'generate_and_run_tests',
         state.artifacts.implementation || '',
-        tests
+        JSON.stringify(testResults.counts),
+        testResults.success
       );
       
-      // Move to next phase
-      state.currentPhase = 'documentation';
+      state.aiContext = {
+        ...state.aiContext,
+        lastAIResponse: aiResponse,
+        confidence: aiResponse.confidence,
+        testResults
+      };
+      
+      // Build phase completed; debug mode picks up from the test results
+      state.currentMode = 'debug';
+      state.currentPhase = 'analysis';
       this.status = 'completed';
       
-      this.logExecution(this.id, 'Testing phase completed', tests);
+      this.logExecution(this.id, 'Testing phase completed', testResults.counts);
       return state;
     } catch (error) {
       this.logExecution(this.id, 'Testing phase failed', error);
@@ -926,173 +909,6 @@ export class TestingNode extends BaseGraphNode {
       throw error;
     }
   }
-  
-  private async generateTests(_implementation: string): Promise<string> {
-    // Simulate AI-generated tests
-    return `# Test Suite
-
-## Unit Tests
-\`\`\`typescript
-// tests/unit/userService.test.ts
-import { UserService } from '../../src/services/userService';
-import { Database } from '../../src/database/Database';
-import { User } from '../../src/models/User';
-
-describe('UserService', () => {
-  let userService: UserService;
-  let mockDb: jest.Mocked<Database>;
-  
-  beforeEach(() => {
-    mockDb = {
-      users: {
-        create: jest.fn(),
-        findById: jest.fn(),
-        update: jest.fn(),
-        delete: jest.fn()
-      }
-    } as any;
-    
-    userService = new UserService(mockDb);
-  });
-  
-  describe('createUser', () => {
-    it('should create a user with valid data', async () => {
-      const userData = {
-        name: 'John Doe',
-        email: 'john@example.com'
-      };
-      
-      const expectedUser = {
-        id: '1',
-        ...userData,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      mockDb.users.create.mockResolvedValue(expectedUser);
-      
-      const result = await userService.createUser(userData);
-      
-      expect(result).toEqual(expectedUser);
-      expect(mockDb.users.create).toHaveBeenCalledWith(userData);
-    });
-    
-    it('should throw error for missing email', async () => {
-      const userData = { name: 'John Doe' };
-      
-      await expect(userService.createUser(userData)).rejects.toThrow(
-        'Email and name are required'
-      );
-    });
-  });
-  
-  describe('getUserById', () => {
-    it('should return user when found', async () => {
-      const user = {
-        id: '1',
-        name: 'John Doe',
-        email: 'john@example.com',
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      mockDb.users.findById.mockResolvedValue(user);
-      
-      const result = await userService.getUserById('1');
-      
-      expect(result).toEqual(user);
-      expect(mockDb.users.findById).toHaveBeenCalledWith('1');
-    });
-    
-    it('should return null when user not found', async () => {
-      mockDb.users.findById.mockResolvedValue(null);
-      
-      const result = await userService.getUserById('999');
-      
-      expect(result).toBeNull();
-    });
-  });
-});
-\`\`\`
-
-## Integration Tests
-\`\`\`typescript
-// tests/integration/api.test.ts
-import request from 'supertest';
-import app from '../../src/app';
-
-describe('User API', () => {
-  describe('POST /api/users', () => {
-    it('should create a new user', async () => {
-      const userData = {
-        name: 'John Doe',
-        email: 'john@example.com'
-      };
-      
-      const response = await request(app)
-        .post('/api/users')
-        .send(userData)
-        .expect(201);
-      
-      expect(response.body).toMatchObject({
-        name: userData.name,
-        email: userData.email
-      });
-      expect(response.body.id).toBeDefined();
-    });
-    
-    it('should return 400 for invalid data', async () => {
-      const invalidData = { name: 'John Doe' }; // Missing email
-      
-      await request(app)
-        .post('/api/users')
-        .send(invalidData)
-        .expect(400);
-    });
-  });
-  
-  describe('GET /api/users/:id', () => {
-    it('should return user by id', async () => {
-      // First create a user
-      const userData = {
-        name: 'John Doe',
-        email: 'john@example.com'
-      };
-      
-      const createResponse = await request(app)
-        .post('/api/users')
-        .send(userData);
-      
-      const userId = createResponse.body.id;
-      
-      // Then get the user
-      const response = await request(app)
-        .get(\`/api/users/\${userId}\`)
-        .expect(200);
-      
-      expect(response.body).toMatchObject(userData);
-    });
-  });
-});
-\`\`\`
-
-## Test Configuration
-\`\`\`json
-// jest.config.js
-module.exports = {
-  preset: 'ts-jest',
-  testEnvironment: 'node',
-  roots: ['<rootDir>/src', '<rootDir>/tests'],
-  testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
-  collectCoverageFrom: [
-    'src/**/*.ts',
-    '!src/**/*.d.ts',
-  ],
-  coverageDirectory: 'coverage',
-  coverageReporters: ['text', 'lcov', 'html'],
-};
-\`\`\``;
-  }
 }
 
 /**
@@ -1100,28 +916,48 @@ module.exports = {
  */
 
 export class AnalysisNode extends BaseGraphNode {
-  constructor(workspaceRoot: vscode.Uri) {
+  constructor(private readonly workspaceRoot: vscode.Uri) {
     super('analysis', 'Analysis Phase', 'debug', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting analysis phase', state.artifacts.implementation);
     
     try {
-      // Analyze code for issues
-      const analysis = await this.analyzeCode(state.artifacts.implementation || '');
+      // Diagnostics, build and test failures, the pasted stack trace and the
+      // source they point at go ahead of any other retrieved context
+      const evidence = await gatherDebugEvidence(this.workspaceRoot, {
+        userInput: state.userInput,
+        buildResult: state.aiContext.buildResult,
+        testResults: state.aiContext.testResults
+      });
+      this.logExecution(this.id, 'Gathered evidence', summarizeEvidence(evidence));
+      
+      const request = this.createRequest(state, 'analysis');
+      const retrievedContext = [
+        ...evidenceContext(evidence),
+        ...state.memory.retrievedContext.map(item => ({ source: item.source, content: item.content, relevance: item.relevance }))
+      ];
+      const aiResponse = await this.requestWithTools(state, { ...request, context: { ...request.context, retrievedContext } }, context);
+      const analysis = aiResponse.content;
       
-      // Update state with analysis
       state = this.addArtifact(state, 'notes', analysis);
       state = this.updateProgress(state, 50);
       state = this.addAgentAction(
         state,
         'debug-agent',
         'analyze_code',
-        state.artifacts.implementation || '',
+        summarizeEvidence(evidence),
         analysis
       );
       
+      state.aiContext = {
+        ...state.aiContext,
+        lastAIResponse: aiResponse,
+        confidence: aiResponse.confidence,
+        debugEvidence: evidence
+      };
+      
       // Move to next phase
       state.currentPhase = 'fix_generation';
       this.status = 'completed';
@@ -1134,92 +970,75 @@ export class AnalysisNode extends BaseGraphNode {
       throw error;
     }
   }
-  
-  private async analyzeCode(_implementation: string): Promise<string> {
-    // Simulate AI code analysis
-    return `# Code Analysis Report
-
-## Issues Found
-
-### High Priority
-1. **Missing Error Handling**: UserService methods lack comprehensive error handling
-   - Location: src/services/userService.ts
-   - Impact: Runtime errors may crash the application
-   - Recommendation: Add try-catch blocks and proper error responses
-
-2. **Input Validation**: Insufficient input validation in API endpoints
-   - Location: src/routes/users.ts
-   - Impact: Security vulnerabilities and data corruption
-   - Recommendation: Implement comprehensive input validation
-
-### Medium Priority
-3. **Database Connection**: No connection pooling or retry logic
-   - Location: src/database/Database.ts
-   - Impact: Performance issues and connection failures
-   - Recommendation: Implement connection pooling and retry mechanisms
-
-4. **Logging**: Missing structured logging throughout the application
-   - Location: Multiple files
-   - Impact: Difficult debugging and monitoring
-   - Recommendation: Implement comprehensive logging system
-
-### Low Priority
-5. **Code Duplication**: Similar validation logic repeated across services
-   - Location: Multiple service files
-   - Impact: Maintenance overhead
-   - Recommendation: Extract common validation logic
-
-## Performance Analysis
-- **Memory Usage**: Within acceptable limits
-- **CPU Usage**: Efficient algorithms used
-- **Database Queries**: Some N+1 query patterns detected
-- **API Response Times**: Generally fast, some endpoints could be optimized
-
-## Security Analysis
-- **Authentication**: Basic JWT implementation present
-- **Authorization**: Role-based access control missing
-- **Input Sanitization**: Partial implementation
-- **SQL Injection**: Protected by ORM, but raw queries need review
-
-## Recommendations
-1. Implement comprehensive error handling
-2. Add input validation middleware
-3. Set up connection pooling
-4. Implement structured logging
-5. Add performance monitoring
-6. Enhance security measures`;
-  }
 }
 
 export class FixGenerationNode extends BaseGraphNode {
-  constructor(workspaceRoot: vscode.Uri) {
+  // Files shown to the model in full, beyond the excerpts
+  private static readonly MAX_FILES = 5;
+  private static readonly MAX_FILE_CHARS = 12000;
+  
+  constructor(private readonly workspaceRoot: vscode.Uri) {
     super('fix_generation', 'Fix Generation Phase', 'debug', workspaceRoot);
   }
   
-  async execute(state: GraphNodeState): Promise<GraphNodeState> {
+  async execute(state: GraphNodeState, context: NodeExecutionContext = {}): Promise<GraphNodeState> {
     this.logExecution(this.id, 'Starting fix generation phase', state.artifacts.notes);
     
     try {
-      // Generate fixes based on analysis
-      const fixes = await this.generateFixes(state.artifacts.notes || '');
+      // Diffs need the files' exact lines, and rejected hunks should not
+      // come back unchanged
+      const analysis = state.artifacts.notes || '';
+      const feedback = state.aiContext.fixFeedback || [];
+      const request = this.createRequest(state, 'fix_generation');
+      const retrievedContext = [
+        ...(feedback.length > 0 ? [{ source: 'rejected fixes (do not propose these again)', content: formatFixFeedback(feedback), relevance: 1 }] : []),
+        ...(await this.readCitedFiles(state.aiContext.debugEvidence)),
+        ...(state.aiContext.debugEvidence ? evidenceContext(state.aiContext.debugEvidence) : []),
+        ...state.memory.retrievedContext.map(item => ({ source: item.source, content: item.content, relevance: item.relevance }))
+      ];
+      const aiResponse = await this.requestWithTools(state, { ...request, context: { ...request.context, retrievedContext } }, context);
+      const fixes = aiResponse.content;
+      const structured = aiResponse.structured?.fixes;
+      
+      // Only patches from a model, or from the mock when it may change code, are offered
+      const proposedFixes = structured && !(aiResponse.mock && !aiResponse.mock.allowExecution)
+        ? await proposeFixes(this.workspaceRoot, structured)
+        : [];
+      const hunks = proposedFixes.reduce((count, fix) => count + fix.hunks.length, 0);
       
-      // Update state with fixes
-      state = this.addArtifact(state, 'notes', fixes);
+      state = this.addArtifact(state, 'notes', analysis ? `${analysis}\n\n${fixes}` : fixes);
+      const structuredArtifacts = { ...state.structuredArtifacts };
+      if (structured) {
+        structuredArtifacts.fixes = structured;
+      } else {
+        delete structuredArtifacts.fixes;
+      }
+      state.structuredArtifacts = structuredArtifacts;
       state = this.updateProgress(state, 100);
       state = this.addAgentAction(
         state,
         'debug-agent',
         'generate_fixes',
-        state.artifacts.notes || '',
-        fixes
+        analysis,
+        `${hunks} hunk(s) in ${proposedFixes.length} file(s)`
       );
       
+      // The feedback is in this prompt; hunks that already fail to match start the next round
+      state.aiContext = {
+        ...state.aiContext,
+        lastAIResponse: aiResponse,
+        confidence: aiResponse.confidence,
+        proposedFixes,
+        fixFeedback: conflictFeedback(proposedFixes)
+      };
+      delete state.aiContext.fixVerification;
+      
       // Debug phase completed
       state.currentMode = 'design';
       state.currentPhase = 'specification';
       this.status = 'completed';
       
-      this.logExecution(this.id, 'Fix generation phase completed', fixes);
+      this.logExecution(this.id, 'Fix generation phase completed', `${hunks} hunk(s) proposed`);
       return state;
     } catch (error) {
       this.logExecution(this.id, 'Fix generation phase failed', error);
@@ -1228,155 +1047,30 @@ export class FixGenerationNode extends BaseGraphNode {
     }
   }
   
-  private async generateFixes(analysis: string): Promise<string> {
-    // Simulate AI-generated fixes
-    return `${analysis}
-
-## Generated Fixes
-
-### 1. Enhanced Error Handling
-\`\`\`typescript
-// src/services/userService.ts (Updated)
-export class UserService {
-  constructor(private db: Database, private logger: Logger) {}
-  
-  async createUser(userData: Partial<User>): Promise<User> {
-    try {
-      // Validate input
-      if (!userData.email || !userData.name) {
-        throw new ValidationError('Email and name are required');
-      }
-      
-      // Validate email format
-      if (!this.isValidEmail(userData.email)) {
-        throw new ValidationError('Invalid email format');
+  /**
+   * The full text of the files the evidence points at
+   */
+  private async readCitedFiles(evidence?: DebugEvidence): Promise<{ source: string; content: string; relevance: number }[]> {
+    if (!evidence) return [];
+    const paths = evidence.excerpts.map(excerpt => excerpt.path)
+      .filter((path, index, all) => all.indexOf(path) === index)
+      .slice(0, FixGenerationNode.MAX_FILES);
+    
+    const files: { source: string; content: string; relevance: number }[] = [];
+    for (const path of paths) {
+      try {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.workspaceRoot, path))).toString('utf8');
+        if (content.length <= FixGenerationNode.MAX_FILE_CHARS) {
+          files.push({ source: `file ${path}`, content, relevance: 0.9 });
+        }
+      } catch {
+        // Deleted since the analysis
       }
-      
-      // Create user
-      const user = await this.db.users.create(userData);
-      this.logger.info('User created successfully', { userId: user.id });
-      return user;
-    } catch (error) {
-      this.logger.error('Failed to create user', { error: error.message, userData });
-      throw error;
-    }
-  }
-  
-  private isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  }
-}
-\`\`\`
-
-### 2. Input Validation Middleware
-\`\`\`typescript
-// src/middleware/validation.ts
-import { Request, Response, NextFunction } from 'express';
-import Joi from 'joi';
-
-export const validateUser = (req: Request, res: Response, next: NextFunction) => {
-  const schema = Joi.object({
-    name: Joi.string().min(2).max(50).required(),
-    email: Joi.string().email().required()
-  });
-  
-  const { error } = schema.validate(req.body);
-  if (error) {
-    return res.status(400).json({
-      error: 'Validation failed',
-      details: error.details
-    });
-  }
-  
-  next();
-};
-\`\`\`
-
-### 3. Database Connection Pooling
-\`\`\`typescript
-// src/database/Database.ts (Updated)
-import { Pool } from 'pg';
-
-export class Database {
-  private pool: Pool;
-  
-  constructor() {
-    this.pool = new Pool({
-      host: process.env.DB_HOST,
-      port: parseInt(process.env.DB_PORT || '5432'),
-      database: process.env.DB_NAME,
-      user: process.env.DB_USER,
-      password: process.env.DB_PASSWORD,
-      max: 20, // Maximum number of clients in the pool
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 2000,
-    });
-  }
-  
-  async query(text: string, params?: any[]): Promise<any> {
-    const client = await this.pool.connect();
-    try {
-      const result = await client.query(text, params);
-      return result;
-    } finally {
-      client.release();
     }
+    return files;
   }
 }
-\`\`\`
-
-### 4. Structured Logging
-\`\`\`typescript
-// src/utils/logger.ts
-import winston from 'winston';
-
-export class Logger {
-  private logger: winston.Logger;
-  
-  constructor() {
-    this.logger = winston.createLogger({
-      level: 'info',
-      format: winston.format.combine(
-        winston.format.timestamp(),
-        winston.format.errors({ stack: true }),
-        winston.format.json()
-      ),
-      transports: [
-        new winston.transports.File({ filename: 'error.log', level: 'error' }),
-        new winston.transports.File({ filename: 'combined.log' }),
-        new winston.transports.Console({
-          format: winston.format.simple()
-        })
-      ]
-    });
-  }
-  
-  info(message: string, meta?: any): void {
-    this.logger.info(message, meta);
-  }
-  
-  error(message: string, meta?: any): void {
-    this.logger.error(message, meta);
-  }
-  
-  warn(message: string, meta?: any): void {
-    this.logger.warn(message, meta);
-  }
-}
-\`\`\`
-
-## Implementation Priority
-1. **High Priority**: Error handling and input validation
-2. **Medium Priority**: Database connection pooling
-3. **Low Priority**: Logging and monitoring
 
-## Testing the Fixes
-- Run existing test suite to ensure no regressions
-- Add new tests for error handling scenarios
-- Test input validation with invalid data
-- Monitor database connection performance
-- Verify logging output format and content`;
-  }
+function fileContext(files: RetrievedFile[]): { source: string; content: string; relevance: number }[] {
+  return files.map(file => ({ source: `file ${file.path}`, content: file.content, relevance: file.relevance }));
 }
-
@@ -0,0 +1,201 @@
+/**
+ * Mermaid Diagrams
+ *
+ * The architecture phase draws its components, main sequence and data flow
+ * as Mermaid diagrams. This checks their syntax before they are accepted,
+ * so a malformed diagram goes back to the model with the line at fault
+ * instead of failing to render in the sidebar. The check covers the
+ * flowchart and sequence diagram syntax the phase asks for; it is not a full
+ * Mermaid parser.
+ */
+
+export interface ArchitectureDiagrams {
+  component: string;
+  sequence: string;
+  dataFlow: string;
+}
+
+export type DiagramKind = keyof ArchitectureDiagrams;
+
+export const DIAGRAM_KINDS: { kind: DiagramKind; title: string; syntax: 'flowchart' | 'sequence' }[] = [
+  { kind: 'component', title: 'Components', syntax: 'flowchart' },
+  { kind: 'sequence', title: 'Sequence', syntax: 'sequence' },
+  { kind: 'dataFlow', title: 'Data Flow', syntax: 'flowchart' }
+];
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+const FLOWCHART_HEADER = /^(flowchart|graph)(\s+(TB|TD|BT|RL|LR))?\s*;?$/;
+const FLOWCHART_KEYWORDS = /^(classDef|class|style|linkStyle|click|direction)\b/;
+const FLOWCHART_ARROW = /\s*(?:<?-{2,}[->ox]?|<?={2,}[=>ox]?|<?-\.+-[->ox]?|~~~)\s*/;
+const NODE_ID = /^[A-Za-z_][\w-]*$/;
+
+const SEQUENCE_ARROW = /^([^\s:+-][^:]*?)\s*(-->>|->>|-->|->|--x|-x|--\)|-\))\s*[+-]?\s*([^:]+?)\s*:(.*)$/;
+const SEQUENCE_LINE = /^((participant|actor)\s+\S.*|(activate|deactivate)\s+\S+|autonumber.*|title\s.*|(Note|note)\s+(left of|right of|over)\s+[^:]+:.*)$/;
+const SEQUENCE_BLOCK = /^(loop|alt|opt|par|critical|break|rect)\b/;
+const SEQUENCE_BRANCH = /^(else|and|option)\b/;
+
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Syntax errors in a diagram, as "line N: problem" messages; empty when it
+ * looks valid. `syntax` is the diagram type the source must be.
+ */
+export function validateMermaid(source: string, syntax: 'flowchart' | 'sequence'): string[] {
+  if (/```/.test(source)) {
+    return ['the diagram must be Mermaid source only, without a ``` fence'];
+  }
+  const lines = source.split(/\r?\n/)
+    .map((text, index) => ({ number: index + 1, text: text.trim() }))
+    .filter(line => line.text !== '' && !line.text.startsWith('%%'));
+  if (lines.length === 0) {
+    return ['the diagram is empty'];
+  }
+
+  const [header, ...body] = lines;
+  if (syntax === 'flowchart' && !FLOWCHART_HEADER.test(header.text)) {
+    return [`line ${header.number}: expected "flowchart" with a direction such as LR or TD, found "${header.text}"`];
+  }
+  if (syntax === 'sequence' && header.text !== 'sequenceDiagram') {
+    return [`line ${header.number}: expected "sequenceDiagram", found "${header.text}"`];
+  }
+  if (body.length === 0) {
+    return ['the diagram has no content'];
+  }
+
+  const errors: string[] = [];
+  let depth = 0;
+  for (const line of body) {
+    // Message text in sequence diagrams is free-form, brackets included
+    const problem = syntax === 'flowchart' ? unbalanced(line.text) || checkFlowchartLine(line.text) : checkSequenceLine(line.text);
+    if (problem) {
+      errors.push(`line ${line.number}: ${problem}`);
+      continue;
+    }
+    const opensBlock = syntax === 'flowchart' ? /^subgraph\b/.test(line.text) : SEQUENCE_BLOCK.test(line.text);
+    if (opensBlock) {
+      depth++;
+    } else if (line.text === 'end') {
+      depth--;
+      if (depth < 0) {
+        errors.push(`line ${line.number}: "end" without an open block`);
+        depth = 0;
+      }
+    } else if (syntax === 'sequence' && SEQUENCE_BRANCH.test(line.text) && depth === 0) {
+      errors.push(`line ${line.number}: "${line.text.split(/\s/)[0]}" outside an alt, par or critical block`);
+    }
+  }
+  if (depth > 0) {
+    errors.push(`${depth} block(s) not closed with "end"`);
+  }
+  return errors;
+}
+
+function checkFlowchartLine(text: string): string | undefined {
+  if (/^subgraph\b/.test(text) || text === 'end' || FLOWCHART_KEYWORDS.test(text)) {
+    return undefined;
+  }
+  // Labels may contain anything, so drop them before looking at the structure
+  const parts = stripLabels(text).replace(/;$/, '').split(FLOWCHART_ARROW);
+  if (parts.length > 1 && parts.some(part => part.trim() === '')) {
+    return 'an edge needs a node at each end';
+  }
+  const nodes = ([] as string[]).concat(...parts.map(part => part.split('&'))).map(node => node.trim());
+  const invalid = nodes.find(node => !NODE_ID.test(node));
+  if (invalid === undefined) {
+    return undefined;
+  }
+  return parts.length > 1
+    ? `"${invalid}" is not a node id`
+    : 'expected a node, an edge such as "A --> B", or "subgraph"/"end"';
+}
+
+function checkSequenceLine(text: string): string | undefined {
+  if (SEQUENCE_LINE.test(text) || SEQUENCE_BLOCK.test(text) || SEQUENCE_BRANCH.test(text) || text === 'end') {
+    return undefined;
+  }
+  return SEQUENCE_ARROW.test(text) ? undefined : 'expected a message such as "A->>B: text", a participant, a note or a block';
+}
+
+/**
+ * The line with its node labels, edge texts and class suffixes removed
+ */
+function stripLabels(text: string): string {
+  return withoutAsymmetricShapes(text)
+    .replace(/"[^"]*"/g, '')
+    .replace(/\|[^|]*\|/g, '')
+    .replace(/:::[\w-]+/g, '')
+    .replace(/(\(\(|\[\[|\[\(|\(\[|\{\{|[[({])[^\])}]*(\)\)|\]\]|\)\]|\]\)|\}\}|[\])}])/g, '')
+    .replace(/(--|==)\s[^-=]+?\s(?=-{2,}|={2,})/g, '$1');
+}
+
+// `id>label]` is a flag shape; its brackets do not pair up
+function withoutAsymmetricShapes(text: string): string {
+  return text.replace(/(\w)>[^\]]*\]/g, '$1');
+}
+
+/**
+ * An unclosed bracket or quote outside quoted text, if the line has one
+ */
+function unbalanced(text: string): string | undefined {
+  if ((text.match(/"/g) || []).length % 2 !== 0) {
+    return 'unclosed quote';
+  }
+  const stack: string[] = [];
+  const unquoted = withoutAsymmetricShapes(text.replace(/"[^"]*"/g, '""')).replace(/\|[^|]*\|/g, '||');
+  for (const char of unquoted) {
+    if (BRACKETS[char]) {
+      stack.push(BRACKETS[char]);
+    } else if (char === ')' || char === ']' || char === '}') {
+      if (stack.pop() !== char) {
+        return `unexpected "${char}"`;
+      }
+    }
+  }
+  return stack.length > 0 ? `missing "${stack[stack.length - 1]}"` : undefined;
+}
+
+/**
+ * One `.mmd` file per diagram (a Mermaid file holds a single diagram), e.g.
+ * `architecture.data-flow.mmd`, plus `architecture.mmd` with the component
+ * diagram
+ */
+export function mermaidFiles(diagrams: ArchitectureDiagrams): { name: string; content: string }[] {
+  const files = DIAGRAM_KINDS.map(({ kind, title }) => ({
+    name: `architecture.${kind.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}.mmd`,
+    content: `%% ${title}\n${diagrams[kind].trim()}\n`
+  }));
+  return [{ name: 'architecture.mmd', content: files[0].content }, ...files];
+}
+
+/**
+ * Line diff of two diagram sources, via their longest common subsequence
+ */
+export function diffLines(previous: string, next: string): DiffLine[] {
+  const a = previous.trim().split(/\r?\n/);
+  const b = next.trim().split(/\r?\n/);
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,161 @@
+/**
+ * Patches
+ *
+ * The fix generation phase proposes its changes as unified diffs, one per
+ * file. This parses them into hunks and applies a chosen subset to a file's
+ * text. Models often get hunk line numbers slightly wrong, so each hunk is
+ * placed by its context and removed lines, starting from the line it names
+ * and searching outward; a hunk whose lines are not in the file does not
+ * apply.
+ */
+
+export interface PatchHunk {
+  // The "@@ -12,4 +12,5 @@" line
+  header: string;
+  // 1-based; 0 when the header gives no line numbers
+  oldStart: number;
+  // Each line starts with ' ' (context), '-' (removed) or '+' (added)
+  lines: string[];
+}
+
+export type HunkStatus = 'pending' | 'applied' | 'rejected' | 'conflict';
+
+export interface ProposedHunk extends PatchHunk {
+  id: string;
+  status: HunkStatus;
+}
+
+/**
+ * A file change from the fix generation phase, as the user reviews it
+ */
+export interface ProposedFix {
+  // Relative to the workspace root
+  path: string;
+  description: string;
+  hunks: ProposedHunk[];
+  // The file does not exist yet
+  newFile?: boolean;
+}
+
+/**
+ * A hunk the user did not take, sent to the model with the next fix request
+ */
+export interface FixFeedback {
+  path: string;
+  hunk: string;
+  reason: 'rejected' | 'conflict';
+  // What the user said about it, if anything
+  comment?: string;
+}
+
+const HUNK_HEADER = /^@@(?: -(\d+)(?:,\d+)? \+\d+(?:,\d+)?)? @@/;
+
+/**
+ * The hunks of a unified diff for one file. File headers (`---`, `+++`,
+ * `diff --git`, `index`) before the first hunk are skipped.
+ */
+export function parseUnifiedDiff(diff: string): { hunks: PatchHunk[]; errors: string[] } {
+  const hunks: PatchHunk[] = [];
+  const errors: string[] = [];
+  const lines = diff.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+
+  let current: PatchHunk | undefined;
+  lines.forEach((line, index) => {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      current = { header: line, oldStart: header[1] ? Number(header[1]) : 0, lines: [] };
+      hunks.push(current);
+    } else if (!current) {
+      if (!/^(---|\+\+\+|diff |index |new file mode|deleted file mode)/.test(line) && line.trim() !== '') {
+        errors.push(`line ${index + 1}: expected a hunk header such as "@@ -12,4 +12,5 @@"`);
+      }
+    } else if (/^[ +-]/.test(line)) {
+      current.lines.push(line);
+    } else if (line === '') {
+      // Blank context lines often lose their leading space
+      current.lines.push(' ');
+    } else if (!line.startsWith('\\')) {
+      errors.push(`line ${index + 1}: hunk lines must start with " ", "-" or "+"`);
+    }
+  });
+
+  if (hunks.length === 0 && errors.length === 0) {
+    errors.push('the diff has no hunks');
+  }
+  hunks.forEach((hunk, index) => {
+    if (!hunk.lines.some(line => line[0] !== ' ')) {
+      errors.push(`hunk ${index + 1} ("${hunk.header}") changes nothing`);
+    }
+  });
+  return { hunks, errors };
+}
+
+/**
+ * Apply hunks to a file's text, in order. Hunks whose lines are not found
+ * are left out and returned as failed; the rest still apply.
+ */
+export function applyHunks<T extends PatchHunk>(content: string, hunks: T[]): { content: string; failed: T[] } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const trailingNewline = content === '' || /\n$/.test(content);
+  const lines = content === '' ? [] : content.replace(/\r?\n$/, '').split(/\r?\n/);
+  const failed: T[] = [];
+
+  // Lines added or removed by earlier hunks shift the later ones
+  let offset = 0;
+  // Hunks may not overlap the lines an earlier one changed
+  let floor = 0;
+  for (const hunk of hunks) {
+    const before = hunk.lines.filter(line => line[0] !== '+').map(line => line.substring(1));
+    const after = hunk.lines.filter(line => line[0] !== '-').map(line => line.substring(1));
+    // A hunk that only adds lines names the line they follow
+    const start = before.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(floor, start + offset);
+    const at = before.length === 0 ? Math.min(expected, lines.length) : findLines(lines, before, expected, floor);
+    if (at === -1) {
+      failed.push(hunk);
+      continue;
+    }
+
+    lines.splice(at, before.length, ...after);
+    // Where the hunk was found corrects the line numbers of the rest
+    offset = (hunk.oldStart > 0 ? at - start : offset) + after.length - before.length;
+    floor = at + after.length;
+  }
+
+  const text = lines.join(eol);
+  return { content: text && trailingNewline ? text + eol : text, failed };
+}
+
+/**
+ * Where `block` occurs in `lines` nearest to `expected`, ignoring trailing
+ * whitespace; -1 when it does not
+ */
+function findLines(lines: string[], block: string[], expected: number, floor: number): number {
+  const trim = (line: string) => line.replace(/\s+$/, '');
+  const matches = (start: number) => block.every((line, index) => trim(lines[start + index]) === trim(line));
+  const last = lines.length - block.length;
+  for (let distance = 0; expected - distance >= floor || expected + distance <= last; distance++) {
+    if (expected + distance <= last && expected + distance >= floor && matches(expected + distance)) return expected + distance;
+    if (distance > 0 && expected - distance >= floor && expected - distance <= last && matches(expected - distance)) return expected - distance;
+  }
+  return -1;
+}
+
+/**
+ * A hunk as diff text, header included
+ */
+export function formatHunk(hunk: PatchHunk): string {
+  return [hunk.header, ...hunk.lines].join('\n');
+}
+
+/**
+ * Feedback on earlier fixes, for the next fix generation prompt
+ */
+export function formatFixFeedback(feedback: FixFeedback[]): string {
+  return feedback.map(item => {
+    const why = item.reason === 'conflict'
+      ? 'It did not apply: the lines it changes are not in the file.'
+      : `The user rejected it${item.comment ? `: "${item.comment}"` : '.'}`;
+    return `${item.path}\n${why}\n\`\`\`diff\n${item.hunk}\n\`\`\``;
+  }).join('\n\n');
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { defaultPromptPhases, defaultPromptTemplate } from './defaultPromptTemplates';
+
+/**
+ * Prompt Templates
+ *
+ * The system prompt for each mode and phase can be replaced per workspace by
+ * `.nys/prompts/<mode>/<phase>.md`, e.g. `.nys/prompts/build/implementation.md`,
+ * to add house rules such as the stack, naming conventions or test style.
+ * Phases without a file use the built-in prompt.
+ *
+ * Templates use the issue template syntax, `{{name}}` or `{{name|default}}`:
+ * `mode`, `phase`, `userInput`, `issueTitle`, `issueDescription`, `role` (the
+ * issue's assignee role), `language` (detected from the workspace),
+ * `testFramework` (testing phase only), `workspace` and `artifacts.<name>`
+ * such as `artifacts.requirements`.
+ * HTML comments are removed before the prompt is sent.
+ */
+
+export interface PromptVariables {
+  mode: 'design' | 'build' | 'debug';
+  phase: string;
+  userInput: string;
+  issueTitle?: string;
+  issueDescription?: string;
+  role?: string;
+  testFramework?: string;
+  artifacts?: Record<string, unknown>;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+// Files that mark a workspace's main language, checked in order
+const LANGUAGE_MARKERS: [string, string][] = [
+  ['tsconfig.json', 'typescript'],
+  ['Cargo.toml', 'rust'],
+  ['go.mod', 'go'],
+  ['pyproject.toml', 'python'],
+  ['requirements.txt', 'python'],
+  ['setup.py', 'python'],
+  ['pom.xml', 'java'],
+  ['build.gradle', 'java'],
+  ['Gemfile', 'ruby'],
+  ['package.json', 'javascript']
+];
+
+const TEMPLATE_HEADER = `<!--
+Mira prompt template. Edit freely; delete this file to go back to the built-in prompt.
+Variables: {{mode}} {{phase}} {{userInput}} {{issueTitle}} {{issueDescription}} {{role}}
+{{language}} {{testFramework}} {{workspace}} {{artifacts.requirements}} (and other artifacts).
+Write {{name|fallback}} for a value to use when one is not set.
+Phases with a JSON artifact get the format instructions appended automatically.
+-->
+`;
+
+/**
+ * Renders system prompts from `.nys/prompts`, or the built-ins
+ */
+export class PromptTemplateStore {
+  private readonly promptsFolder: vscode.Uri;
+  private language: Promise<string> | null = null;
+
+  constructor(private readonly workspaceRoot: vscode.Uri) {
+    this.promptsFolder = vscode.Uri.joinPath(workspaceRoot, '.nys', 'prompts');
+  }
+
+  /**
+   * The system prompt for a request, from its template with the variables filled in
+   */
+  async render(variables: PromptVariables): Promise<string> {
+    const template = (await this.load(variables.mode, variables.phase)) ?? defaultPromptTemplate(variables.mode, variables.phase);
+    const values: Record<string, string> = {
+      mode: variables.mode,
+      phase: variables.phase,
+      userInput: variables.userInput,
+      issueTitle: variables.issueTitle || '',
+      issueDescription: variables.issueDescription || '',
+      role: variables.role || '',
+      testFramework: variables.testFramework || '',
+      language: await this.detectLanguage(),
+      workspace: path.basename(this.workspaceRoot.fsPath)
+    };
+    for (const [name, content] of Object.entries(variables.artifacts || {})) {
+      if (typeof content === 'string') {
+        values[`artifacts.${name}`] = content;
+      }
+    }
+    return renderPromptTemplate(template, values);
+  }
+
+  /**
+   * The workspace's template for a mode and phase, if it has one
+   */
+  async load(mode: string, phase: string): Promise<string | undefined> {
+    try {
+      const content = await vscode.workspace.fs.readFile(this.templateUri(mode, phase));
+      return Buffer.from(content).toString('utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write the built-in prompts to `.nys/prompts` for editing. Existing files
+   * are left alone; returns the files created.
+   */
+  async scaffold(): Promise<vscode.Uri[]> {
+    const created: vscode.Uri[] = [];
+    for (const { mode, phase } of defaultPromptPhases()) {
+      const uri = this.templateUri(mode, phase);
+      if (await this.load(mode, phase) !== undefined) continue;
+
+      await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.promptsFolder, mode));
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(`${TEMPLATE_HEADER}\n${defaultPromptTemplate(mode, phase)}\n`, 'utf8'));
+      created.push(uri);
+    }
+    console.log(`[PromptTemplates] Created ${created.length} template(s) in`, this.promptsFolder.fsPath);
+    return created;
+  }
+
+  private templateUri(mode: string, phase: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.promptsFolder, mode, `${phase}.md`);
+  }
+
+  /**
+   * The language suggested by the build files at the workspace root;
+   * looked up once
+   */
+  private detectLanguage(): Promise<string> {
+    if (!this.language) {
+      this.language = (async () => {
+        for (const [fileName, language] of LANGUAGE_MARKERS) {
+          try {
+            await vscode.workspace.fs.stat(vscode.Uri.joinPath(this.workspaceRoot, fileName));
+            return language;
+          } catch {
+            // Not this one
+          }
+        }
+        return '';
+      })();
+    }
+    return this.language;
+  }
+}
+
+/**
+ * Fill in a template's placeholders and drop its comments. Unknown
+ * placeholders are left empty, with a warning so typos get noticed.
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(PLACEHOLDER_PATTERN, (_match, name: string, fallback?: string) => {
+      if (values[name] === undefined && !name.startsWith('artifacts.')) {
+        console.warn(`[PromptTemplates] Unknown variable {{${name}}}`);
+      }
+      return values[name] !== undefined && values[name] !== '' ? values[name] : (fallback || '').trim();
+    })
+    .trim();
+}
@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import { 
   GraphNodeState, 
   BaseGraphNode,
+  ChatMessage,
+  NodeExecutionContext,
   SpecificationNode,
   PseudocodeNode,
   ArchitectureNode,
@@ -13,6 +15,11 @@ import {
   FixGenerationNode
 } from './graphNodes';
 import { AIOrchestrator, WorkflowDecision } from './aiOrchestrator';
+import { isCancelled, WorkflowCancelledError } from './cancellation';
+import { mermaidFiles } from './mermaid';
+import { McpToolRegistry } from '../mcp/toolRegistry';
+import { ModelProviderFactory } from '../modelProviders/modelProviderFactory';
+import { AIRequestError } from '../modelProviders/requestPolicy';
 
 /**
  * Simple Graph Workflow for SPARC Orchestration
@@ -28,6 +35,13 @@ export interface WorkflowInput {
   userInput: string;
   issueTitle: string;
   issueDescription: string;
+  assigneeRole?: string;
+  // Earlier turns of the issue's chat, oldest first
+  chatHistory?: ChatMessage[];
+  // A cancelled or failed run to continue at its interrupted phase
+  resumeFrom?: GraphNodeState;
+  // The issue's last finished run, whose artifacts the new run builds on
+  previous?: GraphNodeState;
 }
 
 export interface WorkflowOutput {
@@ -43,7 +57,11 @@ export class SimpleGraphSPARCWorkflow {
   private nysFolder: vscode.Uri | null = null;
   private executionHistory: Map<string, GraphNodeState[]>;
   
-  constructor(workspaceRoot: vscode.Uri) {
+  constructor(
+    workspaceRoot: vscode.Uri,
+    private readonly toolRegistry: McpToolRegistry | null = null,
+    private readonly modelProviders: ModelProviderFactory | null = null
+  ) {
     this.orchestrator = new AIOrchestrator();
     this.nodes = new Map();
     this.executionHistory = new Map();
@@ -71,23 +89,34 @@ export class SimpleGraphSPARCWorkflow {
     // Debug mode nodes
     this.nodes.set('analysis', new AnalysisNode(workspaceRoot));
     this.nodes.set('fix_generation', new FixGenerationNode(workspaceRoot));
+    
+    // Let every node reach the configured MCP tools and models
+    for (const node of this.nodes.values()) {
+      node.setToolRegistry(this.toolRegistry);
+      if (this.modelProviders) {
+        node.setModelProviders(this.modelProviders);
+      }
+    }
   }
   
   /**
-   * Execute the workflow
+   * Execute the workflow. `context.onEvent` receives node start/finish
+   * events and the streamed model output. Aborting `context.signal` stops
+   * the run with a WorkflowCancelledError after saving a checkpoint that the
+   * next run (with `resumeFrom`) continues from.
    */
-  async executeWorkflow(input: WorkflowInput): Promise<WorkflowOutput> {
+  async executeWorkflow(input: WorkflowInput, context: NodeExecutionContext = {}): Promise<WorkflowOutput> {
     console.log('[SimpleGraph] Starting workflow execution', input);
     
     try {
-      // Create initial state
-      const initialState = this.createInitialState(input);
+      // Create initial state, or pick up a cancelled or failed run
+      const initialState = input.resumeFrom ? this.resumeState(input.resumeFrom, input) : this.createInitialState(input);
       
       // Save initial state
       await this.saveWorkflowState(initialState);
       
       // Execute the workflow nodes
-      const finalState = await this.executeWorkflowNodes(initialState);
+      const finalState = await this.executeWorkflowNodes(initialState, context);
       
       // Generate output
       const output = this.generateOutput(finalState);
@@ -95,7 +124,13 @@ export class SimpleGraphSPARCWorkflow {
       console.log('[SimpleGraph] Workflow execution completed');
       return output;
     } catch (error) {
-      console.error('[SimpleGraph] Workflow execution failed:', error);
+      if (error instanceof WorkflowCancelledError) {
+        console.log(`[SimpleGraph] Workflow cancelled for issue ${input.issueId}`);
+      } else if (error instanceof AIRequestError) {
+        console.error(`[SimpleGraph] Workflow stopped for issue ${input.issueId}: model request failed (${error.kind})`);
+      } else {
+        console.error('[SimpleGraph] Workflow execution failed:', error);
+      }
       throw error;
     }
   }
@@ -103,7 +138,7 @@ export class SimpleGraphSPARCWorkflow {
   /**
    * Execute workflow nodes based on mode and current phase
    */
-  private async executeWorkflowNodes(state: GraphNodeState): Promise<GraphNodeState> {
+  private async executeWorkflowNodes(state: GraphNodeState, context: NodeExecutionContext): Promise<GraphNodeState> {
     let currentState = state;
     const maxIterations = 10; // Prevent infinite loops
     let iterations = 0;
@@ -123,23 +158,43 @@ export class SimpleGraphSPARCWorkflow {
         break;
       }
       
+      const phase = currentState.currentPhase;
+      const mode = currentState.currentMode;
+      if (isCancelled(context.signal)) {
+        await this.saveCancelledState(currentState, phase, mode);
+        throw new WorkflowCancelledError();
+      }
+      
+      context.onEvent?.({ type: 'nodeStarted', nodeId, phase, mode });
+      
       try {
-        currentState = await node.execute(currentState);
+        currentState = await node.execute(currentState, context);
         console.log(`[SimpleGraph] Node ${nodeId} executed successfully`);
+        context.onEvent?.({ type: 'nodeFinished', nodeId, phase, progress: currentState.progress, success: true });
+        
+        // The node has moved the state on to the next phase
+        this.recordTransition(currentState, phase);
         
         // Save state after each node execution
         await this.saveWorkflowState(currentState);
         
         // Check if workflow is complete
-        if (this.isWorkflowComplete(currentState)) {
+        if (this.isWorkflowComplete(currentState, mode)) {
           console.log('[SimpleGraph] Workflow completed');
           break;
         }
         
-        // Move to next phase
-        currentState = this.transitionToNextPhase(currentState);
-        
       } catch (error) {
+        context.onEvent?.({ type: 'nodeFinished', nodeId, phase, progress: currentState.progress, success: false });
+        if (error instanceof WorkflowCancelledError) {
+          await this.saveCancelledState(currentState, phase, mode);
+          throw error;
+        }
+        if (error instanceof AIRequestError) {
+          await this.saveCancelledState(currentState, phase, mode, error);
+          throw error;
+        }
+        
         console.error(`[SimpleGraph] Node ${nodeId} failed:`, error);
         // Add error to state
         currentState.metadata.errors.push(error as Error);
@@ -164,77 +219,24 @@ export class SimpleGraphSPARCWorkflow {
   }
   
   /**
-   * Check if workflow is complete
+   * Check if workflow is complete: the mode's last node has run and handed
+   * over to the next mode, or there is no node for the next phase
    */
-  private isWorkflowComplete(state: GraphNodeState): boolean {
-    // Complete if progress is 100% or if we've reached the end of a mode
-    if (state.progress >= 100) {
-      return true;
-    }
-    
-    // Complete if we've finished all phases in a mode
-    if (state.currentMode === 'design' && state.currentPhase === 'completion') {
-      return true;
-    }
-    
-    if (state.currentMode === 'build' && state.currentPhase === 'testing') {
-      return true;
-    }
-    
-    if (state.currentMode === 'debug' && state.currentPhase === 'fix_generation') {
-      return true;
-    }
-    
-    return false;
+  private isWorkflowComplete(state: GraphNodeState, mode: string): boolean {
+    return state.progress >= 100 || state.currentMode !== mode || !this.nodes.has(state.currentPhase);
   }
   
   /**
-   * Transition to next phase
+   * Record the move from `from` to the phase the node left the state in
    */
-  private transitionToNextPhase(state: GraphNodeState): GraphNodeState {
-    const transitions: { [key: string]: string } = {
-      // Design mode transitions
-      'specification': 'pseudocode',
-      'pseudocode': 'architecture',
-      'architecture': 'refinement',
-      'refinement': 'completion',
-      'completion': 'implementation', // Move to build mode
-      
-      // Build mode transitions
-      'implementation': 'testing',
-      'testing': 'analysis', // Move to debug mode
-      
-      // Debug mode transitions
-      'analysis': 'fix_generation',
-      'fix_generation': 'specification' // Loop back to design
-    };
-    
-    const nextPhase = transitions[state.currentPhase];
-    if (nextPhase) {
-      state.currentPhase = nextPhase;
-      
-      // Update mode if transitioning between modes
-      if (state.currentPhase === 'implementation') {
-        state.currentMode = 'build';
-      } else if (state.currentPhase === 'analysis') {
-        state.currentMode = 'debug';
-      } else if (state.currentPhase === 'specification' && state.currentMode === 'debug') {
-        state.currentMode = 'design';
-      }
-      
-      state.updatedAt = new Date();
-      
-      // Add transition to metadata
-      state.metadata.transitions.push({
-        from: state.currentPhase,
-        to: nextPhase,
-        condition: 'automatic',
-        timestamp: new Date(),
-        success: true
-      });
-    }
-    
-    return state;
+  private recordTransition(state: GraphNodeState, from: string): void {
+    state.metadata.transitions.push({
+      from,
+      to: state.currentPhase,
+      condition: 'automatic',
+      timestamp: new Date(),
+      success: true
+    });
   }
   
   /**
@@ -251,15 +253,20 @@ export class SimpleGraphSPARCWorkflow {
       issueTitle: input.issueTitle,
       issueDescription: input.issueDescription,
       userInput: input.userInput,
-      artifacts: {},
+      assigneeRole: input.assigneeRole,
+      artifacts: { ...input.previous?.artifacts },
+      structuredArtifacts: input.previous?.structuredArtifacts,
       aiContext: {
         currentAgent: 'orchestration-agent',
         agentHistory: [],
         toolCalls: [],
-        decisions: []
+        decisions: [],
+        buildResult: input.previous?.aiContext.buildResult,
+        testResults: input.previous?.aiContext.testResults,
+        fixFeedback: input.previous?.aiContext.fixFeedback
       },
       memory: {
-        chatHistory: [],
+        chatHistory: input.chatHistory ? [...input.chatHistory] : [],
         context: {},
         retrievedContext: []
       },
@@ -279,6 +286,43 @@ export class SimpleGraphSPARCWorkflow {
     };
   }
   
+  /**
+   * Continue a cancelled or failed run with the new request and chat
+   */
+  private resumeState(state: GraphNodeState, input: WorkflowInput): GraphNodeState {
+    console.log(`[SimpleGraph] Resuming ${state.metadata.failed ? 'failed' : 'cancelled'} workflow at ${state.currentPhase}`);
+    delete state.metadata.cancelled;
+    delete state.metadata.failed;
+    state.aiContext.contextReports = {};
+    state.aiContext.mockPhases = [];
+    state.userInput = input.userInput;
+    state.issueTitle = input.issueTitle;
+    state.issueDescription = input.issueDescription;
+    state.assigneeRole = input.assigneeRole;
+    state.memory.chatHistory = input.chatHistory ? [...input.chatHistory] : [];
+    state.updatedAt = new Date();
+    return state;
+  }
+  
+  /**
+   * Record a cancellation, or with `failure` a model request that failed
+   * for good. A node may have been interrupted halfway, so the last saved
+   * state is kept and pointed at the interrupted phase, which the next run
+   * executes again.
+   */
+  private async saveCancelledState(current: GraphNodeState, phase: string, mode: GraphNodeState['currentMode'], failure?: AIRequestError): Promise<void> {
+    const checkpoint = (await this.loadWorkflowState(current.issueId)) || current;
+    checkpoint.currentPhase = phase;
+    checkpoint.currentMode = mode;
+    if (failure) {
+      checkpoint.metadata.failed = { phase, at: new Date(), kind: failure.kind, error: failure.message };
+    } else {
+      checkpoint.metadata.cancelled = { phase, at: new Date() };
+    }
+    checkpoint.updatedAt = new Date();
+    await this.saveWorkflowState(checkpoint);
+  }
+  
   /**
    * Get initial phase based on mode
    */
@@ -381,6 +425,21 @@ export class SimpleGraphSPARCWorkflow {
         }
       }
       
+      // And the validated data behind them, next to the markdown
+      for (const [key, data] of Object.entries(state.structuredArtifacts || {})) {
+        if (data) {
+          const dataPath = vscode.Uri.joinPath(artifactsDir, `${key}.json`);
+          await vscode.workspace.fs.writeFile(dataPath, Buffer.from(JSON.stringify(data, null, 2), 'utf8'));
+        }
+      }
+      
+      const diagrams = state.structuredArtifacts?.architecture?.diagrams;
+      if (diagrams) {
+        for (const file of mermaidFiles(diagrams)) {
+          await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(artifactsDir, file.name), Buffer.from(file.content, 'utf8'));
+        }
+      }
+      
       console.log(`[SimpleGraph] Artifacts saved for issue ${state.issueId}`);
     } catch (error) {
       console.error('[SimpleGraph] Failed to save artifacts:', error);
@@ -401,6 +460,12 @@ export class SimpleGraphSPARCWorkflow {
       // Convert dates back to Date objects
       state.createdAt = new Date(state.createdAt);
       state.updatedAt = new Date(state.updatedAt);
+      if (state.metadata.cancelled) {
+        state.metadata.cancelled.at = new Date(state.metadata.cancelled.at);
+      }
+      if (state.metadata.failed) {
+        state.metadata.failed.at = new Date(state.metadata.failed.at);
+      }
       
       // Convert Maps back to Map objects
       if (state.metadata.performance.nodeExecutionTimes) {
@@ -427,6 +492,20 @@ export class SimpleGraphSPARCWorkflow {
     }
   }
   
+  /**
+   * Change an issue's saved state between runs, e.g. to record the review
+   * of its proposed fixes
+   */
+  async updateWorkflowState(issueId: string, update: (state: GraphNodeState) => void): Promise<GraphNodeState | null> {
+    const state = await this.loadWorkflowState(issueId);
+    if (!state) return null;
+    
+    update(state);
+    state.updatedAt = new Date();
+    await this.saveWorkflowState(state);
+    return state;
+  }
+  
   /**
    * Get workflow status
    */
@@ -450,7 +529,11 @@ export class SimpleGraphSPARCWorkflow {
    * Determine workflow status
    */
   private determineWorkflowStatus(state: GraphNodeState): string {
-    if (state.progress === 100) {
+    if (state.metadata.cancelled) {
+      return 'cancelled';
+    } else if (state.metadata.failed) {
+      return 'failed';
+    } else if (state.progress === 100) {
       return 'completed';
     } else if (state.metadata.errors.length > 0) {
       return 'error';
@@ -2,6 +2,19 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { SimpleGraphSPARCWorkflow, WorkflowInput, WorkflowOutput } from './simpleGraphWorkflow';
+import { McpToolRegistry } from '../mcp/toolRegistry';
+import { ModelProviderFactory } from '../modelProviders/modelProviderFactory';
+import { ChatMessage, WorkflowEvent } from './graphNodes';
+import { WorkflowCancelledError } from './cancellation';
+import { AIRequestError } from '../modelProviders/requestPolicy';
+import { ContextReport } from './contextBuilder';
+import { StructuredArtifacts } from './artifactSchemas';
+import { ArchitectureDiagrams } from './mermaid';
+import { TestRunResult } from './testResults';
+import { DebugEvidence } from './debugEvidence';
+import { CodeExecutionEngine, CommandResult, VerificationResult } from './codeExecutionEngine';
+import { FixReviewOutcome } from './fixReview';
+import { ProposedFix } from './patches';
 
 export interface SPARCWorkflowState {
   issueId: string;
@@ -17,16 +30,48 @@ export interface SPARCWorkflowState {
     tests?: string;
     notes?: string;
   };
+  // Data behind the artifacts, for phases whose response matched their schema
+  structuredArtifacts?: StructuredArtifacts;
+  // The architecture diagrams the latest change replaced, to diff against
+  previousDiagrams?: ArchitectureDiagrams;
+  // What each phase's prompt included in the latest run
+  contextReports?: Record<string, ContextReport>;
+  // Phases answered by the mock provider instead of a model
+  mockPhases?: string[];
+  // Outcome of the tests the build's testing phase wrote and ran
+  testResults?: TestRunResult;
+  // What the latest debug analysis was based on
+  debugEvidence?: DebugEvidence;
+  // File changes from the latest fix generation, with their review status
+  proposedFixes?: ProposedFix[];
+  // The build and tests re-run after the latest fixes were applied
+  fixVerification?: VerificationResult;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ProcessIssueOptions {
+  issueTitle?: string;
+  issueDescription?: string;
+  assigneeRole?: string;
+  // Earlier turns of the issue's chat, oldest first, without the current input
+  chatHistory?: ChatMessage[];
+  // Live progress: node start/finish and streamed model output
+  onEvent?: (event: WorkflowEvent) => void;
+  // Cancels the run; processIssue then rejects with WorkflowCancelledError
+  signal?: AbortSignal;
+}
+
 export class SPARCWorkflowEngine {
   private _nysFolder: vscode.Uri | null = null;
   private _simpleGraphWorkflow: SimpleGraphSPARCWorkflow | null = null;
   private _useGraphOrchestration: boolean = true;
 
-  constructor(private readonly workspaceRoot: vscode.Uri) {
+  constructor(
+    private readonly workspaceRoot: vscode.Uri,
+    private readonly toolRegistry: McpToolRegistry | null = null,
+    private readonly modelProviders: ModelProviderFactory | null = null
+  ) {
     this.initializeNysFolder();
     this.initializeSimpleGraphWorkflow();
   }
@@ -43,7 +88,7 @@ export class SPARCWorkflowEngine {
 
   private initializeSimpleGraphWorkflow(): void {
     try {
-      this._simpleGraphWorkflow = new SimpleGraphSPARCWorkflow(this.workspaceRoot);
+      this._simpleGraphWorkflow = new SimpleGraphSPARCWorkflow(this.workspaceRoot, this.toolRegistry, this.modelProviders);
       console.log('Simple Graph workflow initialized successfully');
     } catch (error) {
       console.error('Failed to initialize Simple Graph workflow:', error);
@@ -54,22 +99,65 @@ export class SPARCWorkflowEngine {
   public async processIssue(
     issueId: string, 
     mode: 'design' | 'build' | 'debug', 
-    userInput: string
+    userInput: string,
+    options: ProcessIssueOptions = {}
   ): Promise<SPARCWorkflowState> {
     
     // Use Simple Graph workflow if available and enabled
     if (this._useGraphOrchestration && this._simpleGraphWorkflow) {
-      return await this.processIssueWithSimpleGraph(issueId, mode, userInput);
+      return await this.processIssueWithSimpleGraph(issueId, mode, userInput, options);
     }
     
     // Fallback to original implementation
     return await this.processIssueLegacy(issueId, mode, userInput);
   }
 
+  /**
+   * The saved workflow state of an issue, or null if no workflow has run for it
+   */
+  public async getWorkflowState(issueId: string): Promise<SPARCWorkflowState | null> {
+    const graphState = await this._simpleGraphWorkflow?.loadWorkflowState(issueId);
+    if (graphState) {
+      return this.convertGraphStateToSPARCState(graphState);
+    }
+    return this.loadWorkflowState(issueId);
+  }
+
+  /**
+   * Save the review of an issue's proposed fixes. When fixes were applied,
+   * the build commands and tests of the last build run again to check them,
+   * and their results replace the old ones for the next analysis.
+   */
+  public async recordFixReview(issueId: string, outcome: FixReviewOutcome, signal?: AbortSignal): Promise<VerificationResult | undefined> {
+    const workflow = this._simpleGraphWorkflow;
+    // Saved first, so the review is kept if the check is cancelled
+    const state = await workflow?.updateWorkflowState(issueId, saved => {
+      saved.aiContext.proposedFixes = outcome.fixes;
+      saved.aiContext.fixFeedback = [...(saved.aiContext.fixFeedback || []), ...outcome.feedback];
+      delete saved.aiContext.fixVerification;
+    });
+    if (!workflow || !state || outcome.applied.length === 0) return undefined;
+    
+    const verification = await new CodeExecutionEngine(this.workspaceRoot).verify(state.aiContext.buildResult?.buildCommands || [], state.aiContext.testResults, signal);
+    await workflow.updateWorkflowState(issueId, saved => {
+      saved.aiContext.fixVerification = verification;
+      if (verification.tests) {
+        saved.aiContext.testResults = verification.tests;
+      }
+      const buildResult = saved.aiContext.buildResult;
+      if (buildResult?.commandsExecuted) {
+        buildResult.commandsExecuted = buildResult.commandsExecuted.map((command: CommandResult) =>
+          verification.commands.find(rerun => rerun.command.trim() === command.command.trim()) || command);
+      }
+    });
+    return verification;
+  }
+
   private async processIssueWithSimpleGraph(
     issueId: string, 
     mode: 'design' | 'build' | 'debug', 
-    userInput: string
+    userInput: string,
+    options: ProcessIssueOptions
   ): Promise<SPARCWorkflowState> {
     try {
       console.log(`[SPARC] Processing issue ${issueId} with Simple Graph workflow`);
@@ -78,18 +166,23 @@ export class SPARCWorkflowEngine {
       const existingState = await this._simpleGraphWorkflow!.loadWorkflowState(issueId);
       
       if (existingState) {
-        // Continue existing workflow
+        // Continue existing workflow; a cancelled or failed run resumes where it stopped
         console.log(`[SPARC] Continuing existing workflow for issue ${issueId}`);
-        // For now, we'll create a new workflow input to continue
+        // A new run starts from the artifacts of the last one
+        const interrupted = existingState.metadata.cancelled || existingState.metadata.failed;
         const workflowInput: WorkflowInput = {
           issueId,
           mode: existingState.currentMode,
           userInput,
-          issueTitle: existingState.issueTitle,
-          issueDescription: existingState.issueDescription
+          issueTitle: options.issueTitle || existingState.issueTitle,
+          issueDescription: options.issueDescription || existingState.issueDescription,
+          assigneeRole: options.assigneeRole ?? existingState.assigneeRole,
+          chatHistory: options.chatHistory,
+          resumeFrom: interrupted ? existingState : undefined,
+          previous: interrupted ? undefined : existingState
         };
         
-        const output = await this._simpleGraphWorkflow!.executeWorkflow(workflowInput);
+        const output = await this._simpleGraphWorkflow!.executeWorkflow(workflowInput, { onEvent: options.onEvent, signal: options.signal });
         return this.convertGraphStateToSPARCState(output.state);
       } else {
         // Create new workflow
@@ -98,14 +191,20 @@ export class SPARCWorkflowEngine {
           issueId,
           mode,
           userInput,
-          issueTitle: `Issue ${issueId}`,
-          issueDescription: userInput
+          issueTitle: options.issueTitle || `Issue ${issueId}`,
+          issueDescription: options.issueDescription || userInput,
+          assigneeRole: options.assigneeRole,
+          chatHistory: options.chatHistory
         };
         
-        const output = await this._simpleGraphWorkflow!.executeWorkflow(workflowInput);
+        const output = await this._simpleGraphWorkflow!.executeWorkflow(workflowInput, { onEvent: options.onEvent, signal: options.signal });
         return this.convertGraphStateToSPARCState(output.state);
       }
     } catch (error) {
+      // Both are reported to the user; placeholder output would hide them
+      if (error instanceof WorkflowCancelledError || error instanceof AIRequestError) {
+        throw error;
+      }
       console.error(`[SPARC] Simple Graph workflow failed for issue ${issueId}:`, error);
       // Fallback to legacy implementation
       return await this.processIssueLegacy(issueId, mode, userInput);
@@ -155,6 +254,14 @@ export class SPARCWorkflowEngine {
       mode: graphState.currentMode,
       progress: graphState.progress,
       artifacts: graphState.artifacts,
+      structuredArtifacts: graphState.structuredArtifacts,
+      previousDiagrams: graphState.previousDiagrams,
+      contextReports: graphState.aiContext?.contextReports,
+      mockPhases: graphState.aiContext?.mockPhases,
+      testResults: graphState.aiContext?.testResults,
+      debugEvidence: graphState.aiContext?.debugEvidence,
+      proposedFixes: graphState.aiContext?.proposedFixes,
+      fixVerification: graphState.aiContext?.fixVerification,
       createdAt: graphState.createdAt,
       updatedAt: graphState.updatedAt
     };
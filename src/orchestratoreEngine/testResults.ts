@@ -0,0 +1,277 @@
+/**
+ * Test Results
+ *
+ * Reads the pass/fail outcome of each test from a test runner's console
+ * output: jest (verbose), pytest (-rA), cargo test and go test (-v). JUnit
+ * runs through Maven or Gradle only report totals. Output the parser does
+ * not recognize still yields a result, from the exit code.
+ */
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  name: string;
+  status: TestStatus;
+  // The test file, when the runner names it
+  file?: string;
+  // Assertion message or failure output
+  message?: string;
+}
+
+export interface TestCounts {
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface TestRunResult {
+  // No failing tests; also true when nothing ran
+  success: boolean;
+  framework?: string;
+  command?: string;
+  exitCode?: number;
+  duration?: number;
+  filesWritten: string[];
+  cases: TestCaseResult[];
+  counts: TestCounts;
+  // Last part of the runner's output
+  output?: string;
+  // Set when the tests were not run, with the reason
+  skipped?: boolean;
+  reason?: string;
+}
+
+// Failure output kept per test
+const MAX_MESSAGE_LINES = 12;
+
+/**
+ * The test cases in a runner's output and their totals. Totals come from
+ * the runner's summary line when no individual tests were listed.
+ */
+export function parseTestOutput(framework: string | undefined, output: string): { cases: TestCaseResult[]; counts: TestCounts } {
+  const lines = output.replace(/\x1b\[[0-9;]*m/g, '').split(/\r?\n/);
+  let cases: TestCaseResult[];
+  switch (framework) {
+    case 'jest':
+      cases = parseJest(lines);
+      break;
+    case 'pytest':
+      cases = parsePytest(lines);
+      break;
+    case 'cargo test':
+      cases = parseCargo(lines);
+      break;
+    case 'go test':
+      cases = parseGo(lines);
+      break;
+    default:
+      cases = [];
+  }
+
+  const counts = cases.length > 0 ? countCases(cases) : parseSummary(lines);
+  return { cases, counts };
+}
+
+function parseJest(lines: string[]): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  let file: string | undefined;
+  for (const line of lines) {
+    const suite = line.match(/^\s*(PASS|FAIL)\s+(\S+)/);
+    if (suite) {
+      file = suite[2];
+      continue;
+    }
+    const test = line.match(/^\s+(✓|✔|√|✕|✗|×|○|✎)\s+(?:(?:skipped|todo)\s+)?(.+?)(?:\s+\(\d+(?:\.\d+)?\s*m?s\))?$/);
+    if (test) {
+      const status: TestStatus = /[✓✔√]/.test(test[1]) ? 'passed' : /[✕✗×]/.test(test[1]) ? 'failed' : 'skipped';
+      cases.push({ name: test[2], status, file });
+    }
+  }
+
+  // Failures are explained in "● Suite › test" blocks after the list
+  for (const [title, message] of blocks(lines, /^\s*● (.+)$/, /^\s*(● |Test Suites:|(PASS|FAIL)\s)/)) {
+    const name = title.split(' › ').pop()!;
+    const failed = cases.find(test => test.status === 'failed' && !test.message && test.name === name);
+    if (failed) {
+      failed.name = title;
+      failed.message = message;
+    }
+  }
+  return cases;
+}
+
+function parsePytest(lines: string[]): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  for (const line of lines) {
+    const test = line.match(/^(PASSED|FAILED|ERROR|XFAIL|XPASS)\s+(\S+)(?:\s+-\s+(.*))?$/);
+    if (test) {
+      const [file] = test[2].split('::');
+      const status: TestStatus = test[1] === 'FAILED' || test[1] === 'ERROR' ? 'failed' : test[1] === 'XFAIL' ? 'skipped' : 'passed';
+      cases.push({ name: test[2], status, file, message: test[3] });
+      continue;
+    }
+    const skipped = line.match(/^SKIPPED\s+\[\d+\]\s+([^:]+):\d+:\s*(.*)$/);
+    if (skipped) {
+      cases.push({ name: `${skipped[1]} (skipped)`, status: 'skipped', file: skipped[1], message: skipped[2] });
+    }
+  }
+  return cases;
+}
+
+function parseCargo(lines: string[]): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  for (const line of lines) {
+    const test = line.match(/^test (\S+) \.\.\. (ok|FAILED|ignored)/);
+    if (test) {
+      cases.push({ name: test[1], status: test[2] === 'ok' ? 'passed' : test[2] === 'FAILED' ? 'failed' : 'skipped' });
+    }
+  }
+
+  // Each failure's output is printed under "---- name stdout ----"
+  for (const [title, message] of blocks(lines, /^---- (\S+) stdout ----$/, /^(---- |failures:$|test result:)/)) {
+    const failed = cases.find(test => test.name === title);
+    if (failed) {
+      failed.message = message;
+    }
+  }
+  return cases;
+}
+
+function parseGo(lines: string[]): TestCaseResult[] {
+  const cases: TestCaseResult[] = [];
+  // With -v, log lines are printed while the test runs, before its result;
+  // without it they follow the result, indented further
+  const logs: Record<string, string[]> = {};
+  let running: string | undefined;
+  lines.forEach((line, index) => {
+    const run = line.match(/^=== (?:RUN|CONT|PAUSE)\s+(\S+)/);
+    if (run) {
+      running = run[1];
+      logs[running] = logs[running] || [];
+      return;
+    }
+    const test = line.match(/^(\s*)--- (PASS|FAIL|SKIP): (\S+)/);
+    if (!test) {
+      if (running && /^\s+\S/.test(line)) logs[running].push(line.trim());
+      return;
+    }
+
+    running = undefined;
+    const result: TestCaseResult = { name: test[3], status: test[2] === 'PASS' ? 'passed' : test[2] === 'FAIL' ? 'failed' : 'skipped' };
+    const details = [...(logs[result.name] || [])];
+    for (let next = index + 1; next < lines.length; next++) {
+      const detail = lines[next].match(/^(\s*)(.*)$/)!;
+      if (detail[1].length <= test[1].length || /^--- /.test(detail[2])) break;
+      details.push(detail[2]);
+    }
+    if (result.status !== 'passed' && details.length > 0) {
+      result.file = details[0].match(/^([\w./-]+_test\.go):\d+/)?.[1];
+      result.message = details.slice(0, MAX_MESSAGE_LINES).join('\n');
+    }
+    cases.push(result);
+  });
+  return cases;
+}
+
+/**
+ * Titled sections of the output: from a line matching `start` up to the
+ * next line matching `end`, trimmed to MAX_MESSAGE_LINES
+ */
+function blocks(lines: string[], start: RegExp, end: RegExp): [string, string][] {
+  const found: [string, string][] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const title = lines[index].match(start);
+    if (!title) continue;
+
+    const body: string[] = [];
+    for (let next = index + 1; next < lines.length && !end.test(lines[next]); next++) {
+      body.push(lines[next]);
+    }
+    const text = body.join('\n').replace(/^\s*\n|\s+$/g, '');
+    found.push([title[1], dedent(text).split('\n').slice(0, MAX_MESSAGE_LINES).join('\n')]);
+  }
+  return found;
+}
+
+function dedent(text: string): string {
+  const indents = text.split('\n').filter(line => line.trim()).map(line => line.match(/^\s*/)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return text.split('\n').map(line => line.substring(indent)).join('\n');
+}
+
+function countCases(cases: TestCaseResult[]): TestCounts {
+  const counts: TestCounts = { passed: 0, failed: 0, skipped: 0 };
+  for (const test of cases) {
+    counts[test.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Totals from a summary line such as jest's "Tests: 1 failed, 2 passed",
+ * pytest's "1 failed, 2 passed in 0.1s" or Maven's "Tests run: 3, Failures: 1"
+ */
+function parseSummary(lines: string[]): TestCounts {
+  const counts: TestCounts = { passed: 0, failed: 0, skipped: 0 };
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const line = lines[index];
+    const junit = line.match(/Tests run:\s*(\d+),\s*Failures:\s*(\d+),\s*Errors:\s*(\d+),\s*Skipped:\s*(\d+)/);
+    if (junit) {
+      const [run, failures, errors, skipped] = junit.slice(1).map(Number);
+      return { passed: run - failures - errors - skipped, failed: failures + errors, skipped };
+    }
+    if (/^Tests:\s|^=+ .* in [\d.]+s/.test(line)) {
+      const pattern = /(\d+) (passed|failed|errors?|skipped|todo)/g;
+      let match;
+      while ((match = pattern.exec(line)) !== null) {
+        const status: TestStatus = match[2] === 'passed' ? 'passed' : match[2] === 'skipped' || match[2] === 'todo' ? 'skipped' : 'failed';
+        counts[status] += Number(match[1]);
+      }
+      return counts;
+    }
+  }
+  return counts;
+}
+
+/**
+ * The results section of the tests artifact
+ */
+export function formatTestResults(run: TestRunResult): string {
+  let markdown = `## Results\n\n`;
+  const { passed, failed, skipped } = run.counts;
+  const totals = [failed && `${failed} failed`, passed && `${passed} passed`, skipped && `${skipped} skipped`].filter(Boolean).join(', ');
+
+  if (run.skipped) {
+    markdown += `**Status**: ⏭️ Not run\n\n${run.reason || ''}\n\n`;
+  } else {
+    const status = run.success ? '✅ Passed' : '❌ Failed';
+    markdown += `**Status**: ${status}${totals ? ` (${totals})` : ''}\n\n`;
+    if (run.command) {
+      markdown += `**Command**: \`${run.command.trim()}\`${run.duration !== undefined ? ` (${run.duration}ms)` : ''}\n\n`;
+    }
+    if (run.reason) {
+      markdown += `${run.reason}\n\n`;
+    }
+  }
+
+  if (run.filesWritten.length > 0) {
+    markdown += `### Files Written\n${run.filesWritten.map(file => `- \`${file}\``).join('\n')}\n\n`;
+  }
+
+  if (run.cases.length > 0) {
+    markdown += `### Tests\n`;
+    for (const test of run.cases) {
+      const icon = test.status === 'passed' ? '✅' : test.status === 'failed' ? '❌' : '⏭️';
+      markdown += `- ${icon} ${test.name}\n`;
+      if (test.status === 'failed' && test.message) {
+        markdown += `\n  \`\`\`\n${test.message.split('\n').map(line => `  ${line}`).join('\n')}\n  \`\`\`\n\n`;
+      }
+    }
+    markdown += `\n`;
+  } else if (!run.success && run.output) {
+    // Nothing recognizable, so show what the runner said
+    markdown += `### Output\n\`\`\`\n${run.output}\n\`\`\`\n\n`;
+  }
+
+  return markdown.trimEnd();
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Workspace Retrieval
+ *
+ * The build phases write code into a project that may already have some,
+ * so they are shown the workspace files most related to the request.
+ * Source files are ranked by how many of the request's words appear in
+ * their path (counted double) and in their text. The best few go into the
+ * prompt whole; the context builder cuts them down if they do not fit.
+ */
+
+export interface RetrievedFile {
+  // Relative to the workspace root, with forward slashes
+  path: string;
+  content: string;
+  relevance: number;
+}
+
+export interface RetrievalOptions {
+  maxFiles?: number;
+  // Rank test files first (testing) instead of last (implementation)
+  preferTests?: boolean;
+  // Paths to include whatever their score, e.g. the files just written
+  include?: string[];
+}
+
+const SOURCE_FILES = '**/*.{ts,tsx,js,jsx,mjs,cjs,py,go,rs,java,kt,cs,rb,php,swift,c,h,cpp,hpp}';
+const EXCLUDED = '**/{node_modules,out,dist,build,target,coverage,vendor,.git,.nys,.venv,venv,__pycache__}/**';
+const MAX_CANDIDATES = 400;
+const DEFAULT_MAX_FILES = 6;
+// Larger files are generated or bundled more often than not
+const MAX_FILE_CHARS = 40000;
+// Below evidence and cited files, which the debug phases rank at 0.9 and up
+const MAX_RELEVANCE = 0.8;
+
+const TEST_FILE = /(^|\/)(tests?|__tests__|spec)\/|(^|\/)test_[^/]*$|[._-](test|spec)\.[^/]+$/;
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'when', 'what', 'should', 'would', 'could',
+  'add', 'make', 'create', 'use', 'using', 'new', 'implement', 'build', 'write', 'code', 'file', 'files', 'please'
+]);
+
+/**
+ * The workspace files most related to `query`, best first
+ */
+export async function retrieveWorkspaceFiles(workspaceRoot: vscode.Uri, query: string, options: RetrievalOptions = {}): Promise<RetrievedFile[]> {
+  const terms = queryTerms(query);
+  const include = new Set((options.include || []).map(file => file.split(path.sep).join('/')));
+  if (terms.length === 0 && include.size === 0) return [];
+
+  let uris: vscode.Uri[];
+  try {
+    uris = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceRoot, SOURCE_FILES), EXCLUDED, MAX_CANDIDATES);
+  } catch (error) {
+    console.warn('[WorkspaceRetrieval] Could not list workspace files:', error);
+    return [];
+  }
+
+  const scored: { path: string; content: string; score: number }[] = [];
+  for (const uri of uris) {
+    const relative = path.relative(workspaceRoot.fsPath, uri.fsPath).split(path.sep).join('/');
+    if (!relative || relative.startsWith('..') || /\.min\.js$/.test(relative)) continue;
+
+    let content: string;
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+      continue;
+    }
+    if (content.length === 0 || content.length > MAX_FILE_CHARS) continue;
+
+    const pathWords = new Set(words(relative));
+    const contentWords = new Set(words(content));
+    let score = terms.reduce((sum, term) => sum + (pathWords.has(term) ? 2 : 0) + (contentWords.has(term) ? 1 : 0), 0);
+    if (include.has(relative)) {
+      score += terms.length * 3 || 1;
+    }
+    if (score === 0) continue;
+
+    const isTest = TEST_FILE.test(relative);
+    score *= isTest === !!options.preferTests ? 1.5 : 0.5;
+    scored.push({ path: relative, content, score });
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  const best = scored.slice(0, options.maxFiles || DEFAULT_MAX_FILES);
+  const top = best.length > 0 ? best[0].score : 1;
+  return best.map(file => ({ path: file.path, content: file.content, relevance: Math.round(file.score / top * MAX_RELEVANCE * 100) / 100 }));
+}
+
+/**
+ * The distinct words of a request worth looking for
+ */
+function queryTerms(query: string): string[] {
+  return words(query).filter((word, index, all) => word.length >= 3 && !STOP_WORDS.has(word) && all.indexOf(word) === index);
+}
+
+/**
+ * Lower-case words, with camelCase and snake_case identifiers split apart
+ */
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0);
+}
@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import { ChatMessage } from '../orchestratoreEngine/graphNodes';
+
+/**
+ * Chat Memory
+ *
+ * Persists the chat of each issue in `.nys/memory/<issueId>.json`, the
+ * per-session shard of the `.nys/memory.json` layout in ui.json:
+ *
+ *   { "issueId": "issue-1", "messages": [{ "id", "role", "content", "timestamp", "metadata" }] }
+ *
+ * Histories are cached after the first read. Only the newest
+ * MAX_STORED_MESSAGES turns are kept on disk.
+ */
+
+export interface ChatSession {
+  issueId: string;
+  messages: ChatMessage[];
+}
+
+const MAX_STORED_MESSAGES = 200;
+
+export class ChatMemoryStore {
+  private readonly memoryFolder: vscode.Uri;
+  private cache: Map<string, Promise<ChatMessage[]>> = new Map();
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(nysFolder: vscode.Uri) {
+    this.memoryFolder = vscode.Uri.joinPath(nysFolder, 'memory');
+  }
+
+  /**
+   * The chat history of an issue, oldest first
+   */
+  load(issueId: string): Promise<ChatMessage[]> {
+    let cached = this.cache.get(issueId);
+    if (!cached) {
+      cached = this.read(issueId);
+      this.cache.set(issueId, cached);
+    }
+    return cached;
+  }
+
+  /**
+   * Add a turn to an issue's history and write it to disk
+   */
+  async append(issueId: string, role: ChatMessage['role'], content: string, metadata?: Record<string, unknown>): Promise<ChatMessage> {
+    const messages = await this.load(issueId);
+    const message: ChatMessage = {
+      id: `msg-${Date.now()}-${messages.length}`,
+      role,
+      content,
+      timestamp: new Date(),
+      ...(metadata ? { metadata } : {})
+    };
+
+    messages.push(message);
+    if (messages.length > MAX_STORED_MESSAGES) {
+      messages.splice(0, messages.length - MAX_STORED_MESSAGES);
+    }
+
+    await this.write(issueId);
+    return message;
+  }
+
+  async clear(issueId: string): Promise<void> {
+    this.cache.set(issueId, Promise.resolve([]));
+    await this.writes.get(issueId);
+    try {
+      await vscode.workspace.fs.delete(this.sessionUri(issueId));
+    } catch {
+      // Nothing saved yet
+    }
+  }
+
+  private sessionUri(issueId: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.memoryFolder, `${issueId}.json`);
+  }
+
+  private async read(issueId: string): Promise<ChatMessage[]> {
+    let messages: ChatMessage[] = [];
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(this.sessionUri(issueId))).toString('utf8');
+      const session = JSON.parse(content) as ChatSession;
+      messages = Array.isArray(session.messages)
+        ? session.messages
+            .filter(message => message && typeof message.content === 'string' && typeof message.role === 'string')
+            .map(message => ({ ...message, timestamp: new Date(message.timestamp) }))
+        : [];
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError)) {
+        console.warn(`[ChatMemory] Ignoring invalid chat history for ${issueId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Write the cached history, one write at a time per issue
+   */
+  private write(issueId: string): Promise<void> {
+    const previous = this.writes.get(issueId) || Promise.resolve();
+    const next = previous.then(async () => {
+      const session: ChatSession = { issueId, messages: await this.load(issueId) };
+      await vscode.workspace.fs.createDirectory(this.memoryFolder);
+      await vscode.workspace.fs.writeFile(this.sessionUri(issueId), Buffer.from(JSON.stringify(session), 'utf8'));
+    });
+
+    // Keep the chain alive after a failed write
+    this.writes.set(issueId, next.catch(() => undefined));
+    return next;
+  }
+}
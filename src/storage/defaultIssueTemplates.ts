@@ -0,0 +1,114 @@
+/**
+ * Default Issue Templates
+ *
+ * Seeded into `.nys/templates/` the first time the folder is created. Users
+ * can edit, delete or add templates there; these are only a starting point.
+ */
+
+export const DEFAULT_ISSUE_TEMPLATES: Record<string, string> = {
+  'bug.md': `---
+name: Bug report
+about: Something is broken and needs to be reproduced and fixed
+title: "Bug: {{title}}"
+mode: debug
+priority: high
+labels:
+  - bug
+assigneeRole: Debugger
+---
+{{description}}
+
+## Steps to Reproduce
+
+1.
+2.
+3.
+
+## Expected Behavior
+
+## Actual Behavior
+
+## Environment
+
+- Version: {{version|unknown}}
+- Reported: {{date}}
+
+## TODOs
+
+- [ ] Reproduce the bug
+- [ ] Identify the root cause
+- [ ] Add a regression test
+- [ ] Fix and verify
+`,
+
+  'feature.md': `---
+name: Feature
+about: New functionality, designed before it is built
+mode: design
+priority: medium
+labels:
+  - feature
+---
+{{description}}
+
+## Motivation
+
+## Acceptance Criteria
+
+- [ ]
+
+## TODOs
+
+- [ ] Write the specification
+- [ ] Design the architecture
+- [ ] Implement
+- [ ] Write tests
+`,
+
+  'spike.md': `---
+name: Spike
+about: Time-boxed research to answer a question
+title: "Spike: {{title}}"
+mode: design
+labels:
+  - spike
+estimate: "{{timebox|2d}}"
+---
+{{description}}
+
+## Question
+
+## Findings
+
+## Recommendation
+
+## TODOs
+
+- [ ] Collect options
+- [ ] Prototype the most promising option
+- [ ] Write up the recommendation
+`,
+
+  'refactor.md': `---
+name: Refactor
+about: Restructure existing code without changing behavior
+title: "Refactor: {{title}}"
+mode: build
+labels:
+  - refactor
+---
+{{description}}
+
+## Current Structure
+
+## Target Structure
+
+## Risks
+
+## TODOs
+
+- [ ] Make sure the affected code is covered by tests
+- [ ] Refactor in small steps
+- [ ] Verify behavior is unchanged
+`
+};
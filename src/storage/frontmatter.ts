@@ -0,0 +1,115 @@
+import * as YAML from 'yaml';
+
+/**
+ * Frontmatter Parser
+ *
+ * Splits a markdown document into its YAML frontmatter and body, and writes
+ * them back. Files written by older Mira versions used unquoted `key: value`
+ * lines that are not always valid YAML (e.g. a title containing a colon), so
+ * those are read with a line-based fallback instead of being dropped.
+ *
+ * Given the YAML it was read from, stringifyFrontmatter changes only the
+ * keys whose values differ, so comments and key order survive.
+ */
+
+export interface FrontmatterDocument {
+  data: Record<string, unknown>;
+  body: string;
+  hasFrontmatter: boolean;
+  // The YAML between the `---` lines, as written
+  source: string;
+}
+
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Parse a markdown document with optional frontmatter
+ */
+export function parseFrontmatter(content: string): FrontmatterDocument {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { data: {}, body: content, hasFrontmatter: false, source: '' };
+  }
+
+  return {
+    data: parseYamlBlock(match[1] || ''),
+    body: content.substring(match[0].length),
+    hasFrontmatter: true,
+    source: match[1] || ''
+  };
+}
+
+/**
+ * Serialize frontmatter data and a body back into a markdown document,
+ * editing `source` (the YAML previously read) when it is given
+ */
+export function stringifyFrontmatter(data: Record<string, unknown>, body: string, source?: string): string {
+  const cleaned: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined) {
+      cleaned[key] = value;
+    }
+  }
+
+  const yaml = (source && updateYamlBlock(source, cleaned)) ?? (Object.keys(cleaned).length > 0
+    ? YAML.stringify(cleaned, { lineWidth: 0 })
+    : '');
+
+  return `---\n${yaml}---\n${body}`;
+}
+
+/**
+ * `source` with its keys set to `data`; null when it is not a YAML map
+ */
+function updateYamlBlock(source: string, data: Record<string, unknown>): string | null {
+  const document = YAML.parseDocument(source);
+  if (document.errors.length > 0 || !YAML.isMap(document.contents)) {
+    return null;
+  }
+
+  const current = document.toJS() as Record<string, unknown>;
+  for (const key of Object.keys(current)) {
+    if (!(key in data)) {
+      document.delete(key);
+    }
+  }
+  for (const [key, value] of Object.entries(data)) {
+    // Unchanged values keep their node, and with it their comments and style
+    if (JSON.stringify(current[key]) !== JSON.stringify(value)) {
+      document.set(key, value);
+    }
+  }
+
+  const yaml = document.toString({ lineWidth: 0 });
+  return yaml.trim() === '{}' ? '' : yaml;
+}
+
+function parseYamlBlock(block: string): Record<string, unknown> {
+  try {
+    const parsed = YAML.parse(block);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+    return {};
+  } catch (error) {
+    console.warn('[Frontmatter] Invalid YAML, falling back to legacy parser:', error instanceof Error ? error.message : error);
+    return parseLegacyBlock(block);
+  }
+}
+
+/**
+ * Legacy `key: value` parser used by Mira before YAML support
+ */
+function parseLegacyBlock(block: string): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+
+  for (const line of block.split(/\r?\n/)) {
+    const match = line.match(/^(\w+):\s*(.+)$/);
+    if (match) {
+      const [, key, value] = match;
+      metadata[key] = value.trim();
+    }
+  }
+
+  return metadata;
+}
@@ -0,0 +1,339 @@
+import { Issue } from './issueSchema';
+
+/**
+ * Issue Dependencies
+ *
+ * Links between issues (`blocks`, `blockedBy`, `relatesTo`) are stored on
+ * both ends so each issue file is readable on its own. This module keeps the
+ * two ends in sync, derives the automatic `blocked` status from open blockers
+ * and builds the dependency graph shown in the webview, including any cycles
+ * in the blocking relation.
+ */
+
+export type IssueLinkKind = 'blocks' | 'blockedBy' | 'relatesTo';
+
+export const ISSUE_LINK_KINDS: IssueLinkKind[] = ['blocks', 'blockedBy', 'relatesTo'];
+
+export interface DependencyGraphNode {
+  id: string;
+  title: string;
+  status: Issue['status'];
+  openBlockers: string[];
+}
+
+export interface DependencyGraphEdge {
+  from: string;
+  to: string;
+  kind: 'blocks' | 'relatesTo';
+}
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+  // Issue ids in an order that respects every `blocks` edge outside a cycle
+  order: string[];
+  cycles: string[][];
+}
+
+const REVERSE_KIND: Record<IssueLinkKind, IssueLinkKind> = {
+  blocks: 'blockedBy',
+  blockedBy: 'blocks',
+  relatesTo: 'relatesTo'
+};
+
+/**
+ * Link two issues, updating both ends. Returns the issues that changed.
+ */
+export function linkIssues(issues: Issue[], fromId: string, toId: string, kind: IssueLinkKind): Issue[] {
+  const from = issues.find(i => i.id === fromId);
+  const to = issues.find(i => i.id === toId);
+
+  if (!from || !to) {
+    throw new Error(`Unknown issue: ${!from ? fromId : toId}`);
+  }
+  if (from.id === to.id) {
+    throw new Error('An issue cannot be linked to itself');
+  }
+
+  // Normalize to "blocker blocks blocked" before checking for cycles
+  if (kind !== 'relatesTo') {
+    const [blocker, blocked] = kind === 'blocks' ? [from, to] : [to, from];
+    if (blocker.blocks.includes(blocked.id)) {
+      return [];
+    }
+    if (reachable(issues, blocked.id, blocker.id)) {
+      throw new Error(`"${blocked.title}" already blocks "${blocker.title}"; linking them would create a cycle`);
+    }
+  }
+
+  const changed = new Set<Issue>();
+  if (addLink(from, kind, to.id)) changed.add(from);
+  if (addLink(to, REVERSE_KIND[kind], from.id)) changed.add(to);
+  return [...changed];
+}
+
+/**
+ * Remove every link between two issues. Returns the issues that changed.
+ */
+export function unlinkIssues(issues: Issue[], fromId: string, toId: string): Issue[] {
+  const changed = new Set<Issue>();
+
+  for (const [issueId, otherId] of [[fromId, toId], [toId, fromId]]) {
+    const issue = issues.find(i => i.id === issueId);
+    if (!issue) continue;
+    for (const kind of ISSUE_LINK_KINDS) {
+      if (removeLink(issue, kind, otherId)) changed.add(issue);
+    }
+  }
+
+  return [...changed];
+}
+
+/**
+ * Drop all links pointing at an issue that no longer exists
+ */
+export function removeIssueLinks(issues: Issue[], removedId: string): Issue[] {
+  const changed = new Set<Issue>();
+  for (const issue of issues) {
+    for (const kind of ISSUE_LINK_KINDS) {
+      if (removeLink(issue, kind, removedId)) changed.add(issue);
+    }
+  }
+  return [...changed];
+}
+
+/**
+ * Make both ends of every link agree. When `source` is given (an issue file
+ * that was just edited by hand) its links are authoritative and the other
+ * issues are updated to match, including removals; otherwise links found on
+ * either end are added to the other. Returns the issues that changed.
+ */
+export function syncIssueLinks(issues: Issue[], source?: Issue): Issue[] {
+  const byId = new Map(issues.map(issue => [issue.id, issue] as [string, Issue]));
+  const changed = new Set<Issue>();
+
+  if (source) {
+    for (const other of issues) {
+      if (other.id === source.id) continue;
+      for (const kind of ISSUE_LINK_KINDS) {
+        const linked = source[REVERSE_KIND[kind]].includes(other.id);
+        const updated = linked ? addLink(other, kind, source.id) : removeLink(other, kind, source.id);
+        if (updated) changed.add(other);
+      }
+    }
+    return [...changed];
+  }
+
+  for (const issue of issues) {
+    for (const kind of ISSUE_LINK_KINDS) {
+      for (const targetId of issue[kind]) {
+        const target = byId.get(targetId);
+        if (target && target !== issue && addLink(target, REVERSE_KIND[kind], issue.id)) {
+          changed.add(target);
+        }
+      }
+    }
+  }
+
+  return [...changed];
+}
+
+/**
+ * Blockers of an issue that are not completed yet. Links to issues that do
+ * not exist (e.g. deleted files) do not block.
+ */
+export function getOpenBlockers(issue: Issue, issues: Issue[]): Issue[] {
+  return issue.blockedBy
+    .map(id => issues.find(i => i.id === id))
+    .filter((blocker): blocker is Issue => !!blocker && blocker.status !== 'completed');
+}
+
+/**
+ * Derive the automatic blocked status: an open or in-progress issue with an
+ * open blocker becomes `blocked`, and a blocked issue whose blockers have all
+ * completed goes back to `open`. Issues marked blocked by hand (without any
+ * `blockedBy` links) are left alone. Returns the issues whose status changed.
+ */
+export function applyBlockingStatus(issues: Issue[]): Issue[] {
+  const changed: Issue[] = [];
+
+  for (const issue of issues) {
+    const blocked = getOpenBlockers(issue, issues).length > 0;
+
+    if (blocked && (issue.status === 'open' || issue.status === 'in-progress')) {
+      issue.status = 'blocked';
+      changed.push(issue);
+    } else if (!blocked && issue.status === 'blocked' && issue.blockedBy.length > 0) {
+      issue.status = 'open';
+      changed.push(issue);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Build the dependency graph for the webview
+ */
+export function buildDependencyGraph(issues: Issue[]): DependencyGraph {
+  const ids = new Set(issues.map(issue => issue.id));
+  const edges: DependencyGraphEdge[] = [];
+
+  for (const issue of issues) {
+    for (const targetId of issue.blocks) {
+      if (ids.has(targetId)) {
+        edges.push({ from: issue.id, to: targetId, kind: 'blocks' });
+      }
+    }
+    for (const targetId of issue.relatesTo) {
+      // Each relation is stored on both ends; emit it once
+      if (ids.has(targetId) && issue.id < targetId) {
+        edges.push({ from: issue.id, to: targetId, kind: 'relatesTo' });
+      }
+    }
+  }
+
+  const nodes = issues.map(issue => ({
+    id: issue.id,
+    title: issue.title,
+    status: issue.status,
+    openBlockers: getOpenBlockers(issue, issues).map(blocker => blocker.id)
+  }));
+
+  return {
+    nodes,
+    edges,
+    order: topologicalOrder(issues),
+    cycles: findBlockingCycles(issues)
+  };
+}
+
+/**
+ * Find cycles in the blocking relation (Tarjan's strongly connected components)
+ */
+export function findBlockingCycles(issues: Issue[]): string[][] {
+  const successors = blockingSuccessors(issues);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string): void => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors.get(id) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      if (component.length > 1 || (successors.get(id) || []).includes(id)) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const id of successors.keys()) {
+    if (!index.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Order issues so blockers come before the issues they block (Kahn's
+ * algorithm). Issues caught in a cycle are appended at the end.
+ */
+function topologicalOrder(issues: Issue[]): string[] {
+  const successors = blockingSuccessors(issues);
+  const inDegree = new Map<string, number>();
+  for (const id of successors.keys()) inDegree.set(id, 0);
+  for (const targets of successors.values()) {
+    for (const target of targets) inDegree.set(target, (inDegree.get(target) || 0) + 1);
+  }
+
+  const queue = [...successors.keys()].filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const target of successors.get(id) || []) {
+      const remaining = inDegree.get(target)! - 1;
+      inDegree.set(target, remaining);
+      if (remaining === 0) queue.push(target);
+    }
+  }
+
+  const ordered = new Set(order);
+  return [...order, ...[...successors.keys()].filter(id => !ordered.has(id))];
+}
+
+/**
+ * Blocking edges by issue id, reading both `blocks` and `blockedBy` so a
+ * link recorded on only one end still counts.
+ */
+function blockingSuccessors(issues: Issue[]): Map<string, string[]> {
+  const ids = new Set(issues.map(issue => issue.id));
+  const successors = new Map<string, string[]>(issues.map(issue => [issue.id, []] as [string, string[]]));
+
+  const addEdge = (from: string, to: string) => {
+    const targets = successors.get(from);
+    if (targets && ids.has(to) && !targets.includes(to)) targets.push(to);
+  };
+
+  for (const issue of issues) {
+    issue.blocks.forEach(targetId => addEdge(issue.id, targetId));
+    issue.blockedBy.forEach(blockerId => addEdge(blockerId, issue.id));
+  }
+
+  return successors;
+}
+
+function reachable(issues: Issue[], fromId: string, toId: string): boolean {
+  const successors = blockingSuccessors(issues);
+  const seen = new Set<string>();
+  const pending = [fromId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === toId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    pending.push(...(successors.get(id) || []));
+  }
+
+  return false;
+}
+
+function addLink(issue: Issue, kind: IssueLinkKind, targetId: string): boolean {
+  if (issue[kind].includes(targetId)) return false;
+  issue[kind] = [...issue[kind], targetId];
+  return true;
+}
+
+function removeLink(issue: Issue, kind: IssueLinkKind, targetId: string): boolean {
+  if (!issue[kind].includes(targetId)) return false;
+  issue[kind] = issue[kind].filter(id => id !== targetId);
+  return true;
+}
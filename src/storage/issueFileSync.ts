@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+
+/**
+ * Issue File Sync
+ *
+ * Watches the `.nys/*.md` issue files and reports external changes (git
+ * pulls, edits in the editor, other tools). It also remembers the content
+ * Mira last read or wrote for each file, which is used both to ignore the
+ * watcher events caused by Mira's own writes and as the merge base when a
+ * file changed on disk behind Mira's back.
+ */
+
+export interface IssueFileChange {
+  kind: 'created' | 'changed' | 'deleted';
+  uri: vscode.Uri;
+}
+
+export class IssueFileSync implements vscode.Disposable {
+  private watcher: vscode.FileSystemWatcher | null = null;
+  private snapshots: Map<string, string> = new Map();
+  private pending: Map<string, { kind: IssueFileChange['kind']; timer: NodeJS.Timeout }> = new Map();
+  private readonly _onDidChangeIssueFile = new vscode.EventEmitter<IssueFileChange>();
+
+  public readonly onDidChangeIssueFile = this._onDidChangeIssueFile.event;
+
+  constructor(private readonly nysFolder: vscode.Uri, private readonly debounceMs: number = 150) {}
+
+  /**
+   * Start watching the issue files
+   */
+  start(): void {
+    if (this.watcher) return;
+
+    this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.nysFolder, '*.md'));
+    this.watcher.onDidCreate(uri => this.queue('created', uri));
+    this.watcher.onDidChange(uri => this.queue('changed', uri));
+    this.watcher.onDidDelete(uri => this.queue('deleted', uri));
+    console.log('[IssueFileSync] Watching', this.nysFolder.fsPath);
+  }
+
+  /**
+   * Remember the content Mira last read from or wrote to a file
+   */
+  recordSnapshot(uri: vscode.Uri, content: string): void {
+    this.snapshots.set(uri.fsPath, content);
+  }
+
+  getSnapshot(uri: vscode.Uri): string | undefined {
+    return this.snapshots.get(uri.fsPath);
+  }
+
+  forgetSnapshot(uri: vscode.Uri): void {
+    this.snapshots.delete(uri.fsPath);
+  }
+
+  /**
+   * Read the current content of a file, or null if it does not exist
+   */
+  async readDiskContent(uri: vscode.Uri): Promise<string | null> {
+    try {
+      const content = await vscode.workspace.fs.readFile(uri);
+      return Buffer.from(content).toString('utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a file changed on disk since Mira last read or wrote it
+   */
+  async hasExternalChange(uri: vscode.Uri): Promise<{ changed: boolean; diskContent: string | null }> {
+    const diskContent = await this.readDiskContent(uri);
+    const snapshot = this.getSnapshot(uri);
+
+    if (diskContent === null || snapshot === undefined) {
+      return { changed: false, diskContent };
+    }
+    return { changed: diskContent !== snapshot, diskContent };
+  }
+
+  dispose(): void {
+    for (const { timer } of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+    this.watcher?.dispose();
+    this.watcher = null;
+    this._onDidChangeIssueFile.dispose();
+  }
+
+  /**
+   * Coalesce bursts of events for the same file (editors often write twice)
+   */
+  private queue(kind: IssueFileChange['kind'], uri: vscode.Uri): void {
+    const key = uri.fsPath;
+    const existing = this.pending.get(key);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    // A create followed by a change is still a create
+    const effectiveKind = existing && existing.kind === 'created' && kind === 'changed' ? 'created' : kind;
+
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      this._onDidChangeIssueFile.fire({ kind: effectiveKind, uri });
+    }, this.debounceMs);
+
+    this.pending.set(key, { kind: effectiveKind, timer });
+  }
+}
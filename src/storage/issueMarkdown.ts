@@ -0,0 +1,269 @@
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter';
+import {
+  GitHubLink,
+  Issue,
+  IssueMode,
+  IssuePriority,
+  IssueStatus,
+  ISSUE_MODES,
+  ISSUE_PRIORITIES,
+  ISSUE_STATUSES
+} from './issueSchema';
+import { isTodoLine, parseTodoLines, serializeTodos } from './todos';
+
+/**
+ * Issue Markdown Serializer
+ *
+ * Converts between `Issue` objects and the `.nys/<issueId>.md` files. Known
+ * fields are mapped to frontmatter keys; any other key is preserved in
+ * `customFields` so hand-edited metadata survives the next save. So do an
+ * unrecognized mode, status or priority, YAML comments and text written
+ * after the TODOs section.
+ */
+
+const TODOS_HEADING = '## TODOs';
+
+// Frontmatter keys owned by Mira, in the order they are written
+const KNOWN_KEYS = [
+  'title',
+  'mode',
+  'status',
+  'priority',
+  'labels',
+  'assigneeRole',
+  'estimate',
+  'dueDate',
+  'parent',
+  'blocks',
+  'blockedBy',
+  'relatesTo',
+  'github',
+  'createdAt',
+  'updatedAt'
+];
+
+// What an unrecognized value of these keys is read as
+const ENUM_FALLBACKS: Record<string, string | undefined> = {
+  mode: 'design',
+  status: 'open',
+  priority: undefined
+};
+
+/**
+ * Parse an issue markdown file
+ */
+export function parseIssueMarkdown(id: string, filePath: string, content: string): Issue {
+  const document = parseFrontmatter(content);
+  const data = document.data;
+
+  let title = id;
+  let body = document.body;
+
+  if (document.hasFrontmatter) {
+    title = asString(data.title) || id;
+  } else {
+    // Parse first line as title if no frontmatter
+    const lines = content.split('\n');
+    const firstLine = lines[0];
+    if (firstLine && !firstLine.startsWith('#')) {
+      title = firstLine;
+      body = lines.slice(1).join('\n');
+    }
+  }
+
+  const { description, todoLines, afterTodos } = splitTodosSection(body);
+  const firstTodo = todoLines.findIndex(isTodoLine);
+  const todosPreamble = trimBlankLines(firstTodo === -1 ? todoLines : todoLines.slice(0, firstTodo));
+
+  const customFields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!KNOWN_KEYS.includes(key)) {
+      customFields[key] = value;
+    }
+  }
+
+  const mode = asEnum<IssueMode>(data.mode, ISSUE_MODES, 'design');
+  const status = asEnum<IssueStatus>(data.status, ISSUE_STATUSES, 'open');
+  const priority = ISSUE_PRIORITIES.includes(data.priority as IssuePriority) ? data.priority as IssuePriority : undefined;
+  for (const [key, value] of Object.entries({ mode, status, priority })) {
+    if (data[key] !== undefined && data[key] !== value) {
+      customFields[key] = data[key];
+    }
+  }
+
+  return {
+    id,
+    title,
+    description,
+    mode,
+    status,
+    todos: parseTodoLines(firstTodo === -1 ? [] : trimBlankLines(todoLines.slice(firstTodo))),
+    createdAt: asDate(data.createdAt),
+    updatedAt: asDate(data.updatedAt),
+    filePath,
+    labels: asStringList(data.labels),
+    priority,
+    assigneeRole: asString(data.assigneeRole),
+    estimate: asString(data.estimate),
+    dueDate: asString(data.dueDate),
+    parentId: asString(data.parent),
+    blocks: asStringList(data.blocks),
+    blockedBy: asStringList(data.blockedBy),
+    relatesTo: asStringList(data.relatesTo),
+    github: asGitHubLink(data.github),
+    customFields,
+    layout: {
+      frontmatter: document.hasFrontmatter ? document.source : undefined,
+      afterTodos,
+      todosPreamble: todosPreamble.length > 0 ? todosPreamble : undefined
+    }
+  };
+}
+
+/**
+ * Generate the markdown file content for an issue
+ */
+export function serializeIssueMarkdown(issue: Issue): string {
+  const data: Record<string, unknown> = {
+    title: issue.title,
+    mode: issue.mode,
+    status: issue.status,
+    priority: issue.priority,
+    labels: nonEmpty(issue.labels),
+    assigneeRole: issue.assigneeRole,
+    estimate: issue.estimate,
+    dueDate: issue.dueDate,
+    parent: issue.parentId,
+    blocks: nonEmpty(issue.blocks),
+    blockedBy: nonEmpty(issue.blockedBy),
+    relatesTo: nonEmpty(issue.relatesTo),
+    github: issue.github ? stripUndefined(issue.github) : undefined,
+    createdAt: issue.createdAt.toISOString(),
+    updatedAt: issue.updatedAt.toISOString()
+  };
+
+  for (const [key, value] of Object.entries(issue.customFields || {})) {
+    if (!KNOWN_KEYS.includes(key)) {
+      data[key] = value;
+    } else if (key in ENUM_FALLBACKS && data[key] === ENUM_FALLBACKS[key]) {
+      // Still the value it was read as, so write back what the file had
+      data[key] = value;
+    }
+  }
+
+  const preamble = issue.layout?.todosPreamble || [];
+  const hasTodosSection = issue.todos.length > 0 || preamble.length > 0;
+
+  let description = issue.description.trim();
+  const afterTodos = issue.layout?.afterTodos;
+  const keepAfter = hasTodosSection && !!afterTodos && description.endsWith(afterTodos);
+  if (keepAfter) {
+    description = description.slice(0, description.length - afterTodos.length).trim();
+  }
+
+  const todoLines = trimBlankLines(serializeTodos(issue.todos));
+  const sectionLines = preamble.length > 0 && todoLines.length > 0 ? [...preamble, '', ...todoLines] : [...preamble, ...todoLines];
+  const todosSection = hasTodosSection
+    ? `${description ? '\n\n' : ''}${TODOS_HEADING}\n\n` + sectionLines.join('\n')
+    : '';
+
+  const body = description + todosSection + (keepAfter ? `\n\n${afterTodos}` : '');
+  return stringifyFrontmatter(data, body.length > 0 ? `${body}\n` : '', issue.layout?.frontmatter);
+}
+
+/**
+ * Split the body into the free-form description and the TODOs section lines.
+ * Content following the TODOs section (e.g. a later heading) stays in the
+ * description and is also returned as `afterTodos`, to be written back there.
+ */
+function splitTodosSection(body: string): { description: string; todoLines: string[]; afterTodos?: string } {
+  const lines = body.split(/\r?\n/);
+  const start = lines.findIndex(line => line.trim() === TODOS_HEADING);
+  if (start === -1) {
+    return { description: body.trim(), todoLines: [] };
+  }
+
+  let end = lines.length;
+  for (let i = start + 1; i < lines.length; i++) {
+    if (/^#{1,2}\s/.test(lines[i])) {
+      end = i;
+      break;
+    }
+  }
+
+  const before = lines.slice(0, start).join('\n').trim();
+  const after = lines.slice(end).join('\n').trim();
+  return {
+    description: [before, after].filter(part => part.length > 0).join('\n\n'),
+    todoLines: lines.slice(start + 1, end),
+    afterTodos: after || undefined
+  };
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+function asString(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  return String(value);
+}
+
+function asStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(item => item.length > 0);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  }
+  return [];
+}
+
+function asGitHubLink(value: unknown): GitHubLink | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const link = value as Record<string, unknown>;
+  const repository = asString(link.repository);
+  const number = Number(link.number);
+  if (!repository || !Number.isInteger(number) || number <= 0) {
+    return undefined;
+  }
+
+  const syncedState = link.syncedState === 'open' || link.syncedState === 'closed' ? link.syncedState : undefined;
+  const lastCommentId = Number(link.lastCommentId);
+  return {
+    repository,
+    number,
+    url: asString(link.url),
+    syncedAt: asString(link.syncedAt),
+    syncedTitle: asString(link.syncedTitle),
+    syncedBodyHash: asString(link.syncedBodyHash),
+    syncedState,
+    lastCommentId: Number.isFinite(lastCommentId) && lastCommentId > 0 ? lastCommentId : undefined
+  };
+}
+
+function stripUndefined<T extends object>(value: T): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined));
+}
+
+function nonEmpty(list: string[] | undefined): string[] | undefined {
+  return list && list.length > 0 ? list : undefined;
+}
+
+function asEnum<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? value as T : fallback;
+}
+
+function asDate(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(String(value ?? ''));
+  return isNaN(date.getTime()) ? new Date() : date;
+}
@@ -0,0 +1,146 @@
+import { Issue, Todo } from './issueSchema';
+
+/**
+ * Issue Merge
+ *
+ * Three-way merge of an issue edited both in memory and on disk. `base` is
+ * the version Mira last read or wrote, `mine` is the in-memory issue and
+ * `theirs` is what is currently on disk. A field changed on only one side
+ * takes that side's value; a field changed differently on both sides is a
+ * conflict and keeps `mine`.
+ */
+
+export interface IssueMergeResult {
+  merged: Issue;
+  conflicts: string[];
+}
+
+type ScalarField = 'title' | 'description' | 'mode' | 'status' | 'priority' | 'assigneeRole' | 'estimate' | 'dueDate' | 'parentId' | 'github';
+
+const SCALAR_FIELDS: ScalarField[] = [
+  'title',
+  'description',
+  'mode',
+  'status',
+  'priority',
+  'assigneeRole',
+  'estimate',
+  'dueDate',
+  'parentId',
+  'github'
+];
+
+/**
+ * Merge the in-memory and on-disk versions of an issue
+ */
+export function mergeIssues(base: Issue, mine: Issue, theirs: Issue): IssueMergeResult {
+  const conflicts: string[] = [];
+  const merged: Issue = { ...mine };
+
+  for (const field of SCALAR_FIELDS) {
+    const value = mergeValue(field, base[field], mine[field], theirs[field], conflicts);
+    (merged as any)[field] = value;
+  }
+
+  merged.labels = mergeValue('labels', base.labels, mine.labels, theirs.labels, conflicts);
+  merged.blocks = mergeValue('blocks', base.blocks, mine.blocks, theirs.blocks, conflicts);
+  merged.blockedBy = mergeValue('blockedBy', base.blockedBy, mine.blockedBy, theirs.blockedBy, conflicts);
+  merged.relatesTo = mergeValue('relatesTo', base.relatesTo, mine.relatesTo, theirs.relatesTo, conflicts);
+  merged.customFields = mergeRecord(base.customFields, mine.customFields, theirs.customFields, conflicts);
+  merged.todos = mergeTodos(base.todos, mine.todos, theirs.todos, conflicts);
+  merged.updatedAt = new Date(Math.max(mine.updatedAt.getTime(), theirs.updatedAt.getTime()));
+  // The merge is written over the file on disk, so keep that file's comments and layout
+  merged.layout = theirs.layout;
+
+  return { merged, conflicts };
+}
+
+function mergeValue<T>(name: string, base: T, mine: T, theirs: T, conflicts: string[]): T {
+  const mineChanged = !isEqual(base, mine);
+  const theirsChanged = !isEqual(base, theirs);
+
+  if (mineChanged && theirsChanged && !isEqual(mine, theirs)) {
+    conflicts.push(name);
+    return mine;
+  }
+  return theirsChanged ? theirs : mine;
+}
+
+function mergeRecord(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  conflicts: string[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)]);
+
+  for (const key of keys) {
+    const value = mergeValue(key, base[key], mine[key], theirs[key], conflicts);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merge todo trees by id. Added todos from either side are kept; a todo
+ * deleted on one side is dropped unless the other side changed it.
+ */
+function mergeTodos(base: Todo[], mine: Todo[], theirs: Todo[], conflicts: string[]): Todo[] {
+  const baseById = indexTodos(base);
+  const theirsById = indexTodos(theirs);
+  const mineById = indexTodos(mine);
+  const result: Todo[] = [];
+
+  for (const todo of mine) {
+    const theirTodo = theirsById.get(todo.id);
+    const baseTodo = baseById.get(todo.id);
+
+    if (!theirTodo) {
+      // Deleted on disk: keep only if it is new or changed in memory
+      if (!baseTodo || !isEqual(todoFields(baseTodo), todoFields(todo))) {
+        result.push(todo);
+      }
+      continue;
+    }
+
+    const mergedFields = baseTodo
+      ? {
+          content: mergeValue(`todo "${todo.content}"`, baseTodo.content, todo.content, theirTodo.content, conflicts),
+          completed: mergeValue(`todo "${todo.content}" completion`, baseTodo.completed, todo.completed, theirTodo.completed, conflicts),
+          owner: mergeValue(`todo "${todo.content}" owner`, baseTodo.owner, todo.owner, theirTodo.owner, conflicts),
+          notes: mergeValue(`todo "${todo.content}" notes`, baseTodo.notes, todo.notes, theirTodo.notes, conflicts)
+        }
+      : { content: todo.content, completed: todo.completed, owner: todo.owner, notes: todo.notes };
+
+    result.push({
+      ...todo,
+      ...mergedFields,
+      children: mergeTodos(baseTodo ? baseTodo.children : [], todo.children, theirTodo.children, conflicts)
+    });
+  }
+
+  // Todos added on disk
+  for (const todo of theirs) {
+    if (!mineById.has(todo.id) && !baseById.has(todo.id)) {
+      result.push(todo);
+    }
+  }
+
+  return result;
+}
+
+function indexTodos(todos: Todo[]): Map<string, Todo> {
+  return new Map(todos.map(todo => [todo.id, todo] as [string, Todo]));
+}
+
+function todoFields(todo: Todo): unknown {
+  return { content: todo.content, completed: todo.completed, owner: todo.owner, notes: todo.notes, children: todo.children.map(todoFields) };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,274 @@
+import { Issue, IssuePriority, ISSUE_MODES, ISSUE_PRIORITIES, ISSUE_STATUSES, Todo } from './issueSchema';
+
+/**
+ * Issue Query Language
+ *
+ * A small search syntax for the issue sidebar, evaluated over the `Issue`
+ * model:
+ *
+ *   status:open mode:build label:backend updated:<7d "login flow" -label:wontfix
+ *
+ * - `field:value` filters on a field; `field:a,b` matches either value
+ * - `-term` negates a term
+ * - dates take `<`, `>`, `<=`, `>=` with a relative age (`7d`, `12h`, `2w`)
+ *   or an absolute date (`2024-06-01`); `updated:<7d` means "in the last
+ *   7 days", `due:<3d` means "due within 3 days"
+ * - bare words and "quoted phrases" search the title, description, todos,
+ *   labels and the issue's artifact files
+ * - `sort:updated|created|priority|title|due` picks the order
+ * - any other field name matches a custom frontmatter field
+ */
+
+export type QueryComparator = '=' | '<' | '>' | '<=' | '>=';
+
+export type IssueSortKey = 'updated' | 'created' | 'priority' | 'title' | 'due';
+
+export interface QueryTerm {
+  // null for free-text terms
+  field: string | null;
+  values: string[];
+  comparator: QueryComparator;
+  negated: boolean;
+}
+
+export interface IssueQuery {
+  terms: QueryTerm[];
+  sort: IssueSortKey;
+  errors: string[];
+}
+
+const SORT_KEYS: IssueSortKey[] = ['updated', 'created', 'priority', 'title', 'due'];
+
+const FIELD_ALIASES: Record<string, string> = {
+  labels: 'label',
+  assignee: 'role',
+  assigneeRole: 'role'
+};
+
+const DATE_FIELDS = ['updated', 'created', 'due'];
+
+const TOKEN_PATTERN = /(-)?(?:([A-Za-z][\w-]*):)?(?:"([^"]*)"?|(\S+))/g;
+
+const RELATIVE_DATE_PATTERN = /^(\d+)([hdw])$/;
+
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a query string. Invalid terms are reported in `errors` and ignored.
+ */
+export function parseIssueQuery(query: string): IssueQuery {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+  let sort: IssueSortKey = 'updated';
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(query)) !== null) {
+    const [token, negation, rawField, quoted, bare] = match;
+    if (!token.trim()) continue;
+
+    const raw = quoted !== undefined ? quoted : bare;
+    const negated = negation === '-';
+
+    if (!rawField) {
+      if (raw) {
+        terms.push({ field: null, values: [raw.toLowerCase()], comparator: '=', negated });
+      }
+      continue;
+    }
+
+    const field = FIELD_ALIASES[rawField] || rawField.toLowerCase();
+
+    if (field === 'sort') {
+      if (SORT_KEYS.includes(raw as IssueSortKey)) {
+        sort = raw as IssueSortKey;
+      } else {
+        errors.push(`Unknown sort "${raw}" (use ${SORT_KEYS.join(', ')})`);
+      }
+      continue;
+    }
+
+    const { comparator, rest } = splitComparator(raw || '');
+    const values = rest.split(',').map(value => value.trim()).filter(value => value.length > 0);
+    if (values.length === 0) {
+      errors.push(`Missing value for "${rawField}:"`);
+      continue;
+    }
+
+    const error = validateTerm(field, comparator, values);
+    if (error) {
+      errors.push(error);
+      continue;
+    }
+
+    terms.push({ field, values, comparator, negated });
+  }
+
+  return { terms, sort, errors };
+}
+
+/**
+ * Whether the query needs the artifact text of each issue
+ */
+export function hasTextTerms(query: IssueQuery): boolean {
+  return query.terms.some(term => term.field === null);
+}
+
+/**
+ * Filter and sort issues. `getArtifactText` returns the concatenated artifact
+ * files of an issue for full-text search.
+ */
+export function filterIssues(issues: Issue[], query: IssueQuery, getArtifactText: (issueId: string) => string = () => '', now: Date = new Date()): Issue[] {
+  return issues
+    .filter(issue => query.terms.every(term => matchesTerm(issue, term, getArtifactText, now) !== term.negated))
+    .sort(comparatorFor(query.sort));
+}
+
+function matchesTerm(issue: Issue, term: QueryTerm, getArtifactText: (issueId: string) => string, now: Date): boolean {
+  const { field, values } = term;
+
+  if (field === null) {
+    const haystack = [
+      issue.title,
+      issue.description,
+      issue.labels.join(' '),
+      todoText(issue.todos),
+      getArtifactText(issue.id)
+    ].join('\n').toLowerCase();
+    return haystack.includes(values[0]);
+  }
+
+  if (DATE_FIELDS.includes(field)) {
+    const date = field === 'updated' ? issue.updatedAt : field === 'created' ? issue.createdAt : parseDate(issue.dueDate);
+    return !!date && values.some(value => matchesDate(date, term.comparator, value, field === 'due', now));
+  }
+
+  const actual = fieldValues(issue, field).map(value => value.toLowerCase());
+  return values.some(value => actual.includes(value.toLowerCase()));
+}
+
+function fieldValues(issue: Issue, field: string): string[] {
+  switch (field) {
+    case 'status': return [issue.status];
+    case 'mode': return [issue.mode];
+    case 'priority': return issue.priority ? [issue.priority] : [];
+    case 'label': return issue.labels;
+    case 'role': return issue.assigneeRole ? [issue.assigneeRole] : [];
+    case 'estimate': return issue.estimate ? [issue.estimate] : [];
+    case 'id': return [issue.id];
+    case 'parent': return issue.parentId ? [issue.parentId] : [];
+    case 'blocks': return issue.blocks;
+    case 'blockedby': return issue.blockedBy;
+  }
+
+  // Custom frontmatter field, matched case-insensitively by key
+  const key = Object.keys(issue.customFields || {}).find(k => k.toLowerCase() === field);
+  if (key === undefined) return [];
+  const value = issue.customFields[key];
+  if (Array.isArray(value)) return value.map(String);
+  return value === null || value === undefined || typeof value === 'object' ? [] : [String(value)];
+}
+
+function matchesDate(date: Date, comparator: QueryComparator, value: string, future: boolean, now: Date): boolean {
+  const relative = value.match(RELATIVE_DATE_PATTERN);
+
+  if (relative) {
+    const offset = parseInt(relative[1], 10) * UNIT_MS[relative[2]];
+    // A bare relative value means "within"; `updated:<7d` is about age, so
+    // the comparison runs backwards in time
+    const within = comparator === '=' ? '<=' : comparator;
+    const threshold = future ? now.getTime() + offset : now.getTime() - offset;
+    const effective = future ? within : invertComparator(within);
+    return compare(date.getTime(), effective, threshold);
+  }
+
+  const target = parseDate(value)!;
+  if (comparator === '=') {
+    return date.toISOString().substring(0, 10) === target.toISOString().substring(0, 10);
+  }
+  return compare(date.getTime(), comparator, target.getTime());
+}
+
+function compare(a: number, comparator: QueryComparator, b: number): boolean {
+  switch (comparator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return a === b;
+  }
+}
+
+function invertComparator(comparator: QueryComparator): QueryComparator {
+  const inverted: Record<QueryComparator, QueryComparator> = { '<': '>', '<=': '>=', '>': '<', '>=': '<=', '=': '=' };
+  return inverted[comparator];
+}
+
+function comparatorFor(sort: IssueSortKey): (a: Issue, b: Issue) => number {
+  switch (sort) {
+    case 'created':
+      return (a, b) => b.createdAt.getTime() - a.createdAt.getTime();
+    case 'priority':
+      return (a, b) => priorityRank(b.priority) - priorityRank(a.priority) || b.updatedAt.getTime() - a.updatedAt.getTime();
+    case 'title':
+      return (a, b) => a.title.localeCompare(b.title);
+    case 'due':
+      return (a, b) => dueTime(a) - dueTime(b);
+    default:
+      return (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime();
+  }
+}
+
+function priorityRank(priority?: IssuePriority): number {
+  return priority ? ISSUE_PRIORITIES.indexOf(priority) + 1 : 0;
+}
+
+function dueTime(issue: Issue): number {
+  const date = parseDate(issue.dueDate);
+  return date ? date.getTime() : Number.MAX_SAFE_INTEGER;
+}
+
+function validateTerm(field: string, comparator: QueryComparator, values: string[]): string | null {
+  const allowed: Record<string, string[]> = {
+    status: ISSUE_STATUSES,
+    mode: ISSUE_MODES,
+    priority: ISSUE_PRIORITIES
+  };
+
+  if (allowed[field]) {
+    const unknown = values.find(value => !allowed[field].includes(value.toLowerCase()));
+    if (unknown) {
+      return `Unknown ${field} "${unknown}" (use ${allowed[field].join(', ')})`;
+    }
+  }
+
+  if (DATE_FIELDS.includes(field)) {
+    const invalid = values.find(value => !RELATIVE_DATE_PATTERN.test(value) && !parseDate(value));
+    if (invalid) {
+      return `Invalid date "${invalid}" for ${field}: (use e.g. 7d, 12h, 2w or 2024-06-01)`;
+    }
+  } else if (comparator !== '=') {
+    return `"${field}:" does not support ${comparator}`;
+  }
+
+  return null;
+}
+
+function splitComparator(value: string): { comparator: QueryComparator; rest: string } {
+  const match = value.match(/^(<=|>=|<|>|=)?([\s\S]*)$/)!;
+  return { comparator: (match[1] as QueryComparator) || '=', rest: match[2] };
+}
+
+function todoText(todos: Todo[]): string {
+  return todos.map(todo => `${todo.content}\n${todoText(todo.children || [])}`).join('\n');
+}
+
+function parseDate(value?: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
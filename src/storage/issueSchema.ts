@@ -0,0 +1,88 @@
+/**
+ * Issue Schema
+ *
+ * Shared types for the issues stored as markdown files in the .nys folder.
+ * Every field declared here round-trips through the issue file.
+ */
+
+export type IssueMode = 'design' | 'build' | 'debug';
+
+export type IssueStatus = 'open' | 'in-progress' | 'completed' | 'blocked';
+
+export type IssuePriority = 'low' | 'medium' | 'high' | 'critical';
+
+export const ISSUE_MODES: IssueMode[] = ['design', 'build', 'debug'];
+
+export const ISSUE_STATUSES: IssueStatus[] = ['open', 'in-progress', 'completed', 'blocked'];
+
+export const ISSUE_PRIORITIES: IssuePriority[] = ['low', 'medium', 'high', 'critical'];
+
+export interface Issue {
+  id: string;
+  title: string;
+  description: string;
+  mode: IssueMode;
+  status: IssueStatus;
+  todos: Todo[];
+  createdAt: Date;
+  updatedAt: Date;
+  filePath: string;
+
+  // Planning metadata
+  labels: string[];
+  priority?: IssuePriority;
+  assigneeRole?: string;
+  estimate?: string;
+  dueDate?: string;
+  parentId?: string;
+
+  // Links to other issues, kept symmetric (A blocks B <=> B blockedBy A)
+  blocks: string[];
+  blockedBy: string[];
+  relatesTo: string[];
+
+  // Linked GitHub issue, if the issue is synced
+  github?: GitHubLink;
+
+  // Any frontmatter keys Mira does not know about, kept verbatim, and
+  // values of mode, status or priority it does not recognize
+  customFields: Record<string, unknown>;
+
+  // How the file was written, so a save keeps what the fields above do not
+  layout?: IssueFileLayout;
+}
+
+export interface IssueFileLayout {
+  // The frontmatter YAML as read, with its comments and key order
+  frontmatter?: string;
+  // The end of the description, which followed the TODOs section
+  afterTodos?: string;
+  // Lines between the TODOs heading and the first todo
+  todosPreamble?: string[];
+}
+
+export interface GitHubLink {
+  repository: string;
+  number: number;
+  url?: string;
+  syncedAt?: string;
+
+  // What both sides agreed on at the last sync, used to tell which side changed since
+  syncedTitle?: string;
+  syncedBodyHash?: string;
+  syncedState?: 'open' | 'closed';
+  lastCommentId?: number;
+}
+
+export interface Todo {
+  id: string;
+  content: string;
+  completed: boolean;
+  createdAt: Date;
+  completedAt?: Date;
+  owner?: string;
+  linkedArtifact?: string;
+  children: Todo[];
+  // Lines under the item that are not checklist items (notes, separators), as written
+  notes?: string[];
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DEFAULT_ISSUE_TEMPLATES } from './defaultIssueTemplates';
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter';
+import { IssueMode, ISSUE_MODES } from './issueSchema';
+
+/**
+ * Issue Templates
+ *
+ * Templates live in `.nys/templates/*.md` and use the same format as issue
+ * files: frontmatter defaults (mode, labels, priority, ...), a body with
+ * pre-filled sections and a `## TODOs` checklist of default todos. Two extra
+ * keys describe the template itself: `name` and `about`.
+ *
+ * `{{placeholder}}` and `{{placeholder|default}}` are substituted in both the
+ * frontmatter values and the body. `title`, `description`, `date` and
+ * `workspace` are always provided; any other placeholder is asked for when
+ * the template is used.
+ */
+
+export interface IssueTemplate {
+  id: string;
+  name: string;
+  about: string;
+  mode: IssueMode;
+  placeholders: string[];
+  data: Record<string, unknown>;
+  body: string;
+}
+
+export const BUILTIN_PLACEHOLDERS = ['title', 'description', 'date', 'workspace'];
+
+// Keys that describe the template and are not copied to the issue
+const TEMPLATE_KEYS = ['name', 'about'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Parse a template file
+ */
+export function parseIssueTemplate(id: string, content: string): IssueTemplate {
+  const { data, body } = parseFrontmatter(content);
+  const placeholders = new Set<string>();
+
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') {
+      value.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+        if (!BUILTIN_PLACEHOLDERS.includes(name)) {
+          placeholders.add(name);
+        }
+        return match;
+      });
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(collect);
+    }
+  };
+  collect(data);
+  collect(body);
+
+  return {
+    id,
+    name: typeof data.name === 'string' ? data.name : id,
+    about: typeof data.about === 'string' ? data.about : '',
+    mode: ISSUE_MODES.includes(data.mode as IssueMode) ? data.mode as IssueMode : 'design',
+    placeholders: [...placeholders],
+    data,
+    body
+  };
+}
+
+/**
+ * Render a template into issue file content
+ */
+export function renderIssueTemplate(template: IssueTemplate, values: Record<string, string>): string {
+  const description = (values.description || '').trim();
+  const allValues: Record<string, string> = {
+    date: new Date().toISOString().substring(0, 10),
+    ...values,
+    description
+  };
+
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(template.data)) {
+    if (!TEMPLATE_KEYS.includes(key)) {
+      data[key] = substitute(value, allValues);
+    }
+  }
+  if (typeof data.title !== 'string' || data.title.trim() === '') {
+    data.title = allValues.title || template.name;
+  }
+
+  let body = template.body;
+  if (description && !/\{\{\s*description\s*(\|[^}]*)?\}\}/.test(body)) {
+    body = `${description}\n\n${body}`;
+  }
+  body = substitute(body, allValues) as string;
+
+  return stringifyFrontmatter(data, body.replace(/^\s*\n/, ''));
+}
+
+/**
+ * Loads and seeds the templates in `.nys/templates`
+ */
+export class IssueTemplateStore {
+  private readonly templatesFolder: vscode.Uri;
+
+  constructor(nysFolder: vscode.Uri) {
+    this.templatesFolder = vscode.Uri.joinPath(nysFolder, 'templates');
+  }
+
+  /**
+   * Create the templates folder with the default templates. Does nothing if
+   * the folder already exists, so deleted templates stay deleted.
+   */
+  async ensureDefaults(): Promise<void> {
+    try {
+      await vscode.workspace.fs.stat(this.templatesFolder);
+      return;
+    } catch {
+      // Not created yet
+    }
+
+    await vscode.workspace.fs.createDirectory(this.templatesFolder);
+    for (const [fileName, content] of Object.entries(DEFAULT_ISSUE_TEMPLATES)) {
+      await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.templatesFolder, fileName), Buffer.from(content, 'utf8'));
+    }
+    console.log('[IssueTemplates] Seeded default templates in', this.templatesFolder.fsPath);
+  }
+
+  /**
+   * List all templates, sorted by name
+   */
+  async list(): Promise<IssueTemplate[]> {
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(this.templatesFolder);
+    } catch {
+      return [];
+    }
+
+    const templates: IssueTemplate[] = [];
+    for (const [fileName, type] of entries) {
+      if (type !== vscode.FileType.File || !fileName.endsWith('.md')) continue;
+
+      try {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.templatesFolder, fileName));
+        templates.push(parseIssueTemplate(path.basename(fileName, '.md'), Buffer.from(content).toString('utf8')));
+      } catch (error) {
+        console.error(`[IssueTemplates] Failed to read template ${fileName}:`, error);
+      }
+    }
+
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<IssueTemplate | undefined> {
+    return (await this.list()).find(template => template.id === id);
+  }
+}
+
+function substitute(value: unknown, values: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, (_match, name: string, fallback?: string) =>
+      values[name] !== undefined && values[name] !== '' ? values[name] : (fallback || '').trim()
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substitute(item, values));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = substitute(item, values);
+    }
+    return result;
+  }
+  return value;
+}
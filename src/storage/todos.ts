@@ -0,0 +1,249 @@
+import * as crypto from 'crypto';
+import { Todo } from './issueSchema';
+
+/**
+ * Todo Tree
+ *
+ * Reads and writes the `## TODOs` checklist of an issue file. Todo metadata
+ * (id, timestamps, owner, linked artifact) is persisted in a hidden HTML
+ * comment at the end of each line so ids stay stable across edits:
+ *
+ *   - [ ] Write tests <!-- mira:todo {"id":"todo-k2x9a1","createdAt":"..."} -->
+ *
+ * Indented items become sub-todos of the item above them. A parent with
+ * children is complete exactly when all of its children are complete.
+ * Other lines (notes, separators) stay with the todo above them and are
+ * written back unchanged.
+ */
+
+interface TodoMetadata {
+  id?: string;
+  createdAt?: string;
+  completedAt?: string;
+  owner?: string;
+  artifact?: string;
+}
+
+const TODO_LINE_PATTERN = /^(\s*)[-*] \[([ xX])\]\s*(.*)$/;
+const METADATA_PATTERN = /\s*<!--\s*mira:todo\s+(\{.*?\})\s*-->\s*$/;
+const INDENT = '  ';
+
+/**
+ * Whether a line is a checklist item
+ */
+export function isTodoLine(line: string): boolean {
+  return TODO_LINE_PATTERN.test(line);
+}
+
+/**
+ * Parse checklist lines into a todo tree. Lines before the first item are
+ * left to the caller.
+ */
+export function parseTodoLines(lines: string[]): Todo[] {
+  const roots: Todo[] = [];
+  const stack: { indent: number; todo: Todo }[] = [];
+  const usedIds = new Set<string>();
+  let previous: Todo | null = null;
+
+  for (const line of lines) {
+    const match = line.match(TODO_LINE_PATTERN);
+    if (!match) {
+      if (previous) {
+        previous.notes = [...(previous.notes || []), line];
+      }
+      continue;
+    }
+
+    const [, indentText, checked, rest] = match;
+    const indent = indentText.replace(/\t/g, '    ').length;
+    const { content, metadata } = splitMetadata(rest);
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack.length > 0 ? stack[stack.length - 1].todo : null;
+
+    const todo: Todo = {
+      id: uniqueId(metadata.id || contentId(parent ? parent.id : '', content), usedIds),
+      content,
+      completed: checked.toLowerCase() === 'x',
+      createdAt: parseDate(metadata.createdAt) || new Date(),
+      completedAt: parseDate(metadata.completedAt),
+      owner: metadata.owner,
+      linkedArtifact: metadata.artifact,
+      children: []
+    };
+
+    if (parent) {
+      parent.children.push(todo);
+    } else {
+      roots.push(todo);
+    }
+    stack.push({ indent, todo });
+    previous = todo;
+  }
+
+  rollUpCompletion(roots);
+  return roots;
+}
+
+/**
+ * Serialize a todo tree back into checklist lines
+ */
+export function serializeTodos(todos: Todo[], depth: number = 0): string[] {
+  const lines: string[] = [];
+
+  for (const todo of todos) {
+    const metadata: TodoMetadata = {
+      id: todo.id,
+      createdAt: todo.createdAt.toISOString(),
+      completedAt: todo.completed && todo.completedAt ? todo.completedAt.toISOString() : undefined,
+      owner: todo.owner,
+      artifact: todo.linkedArtifact
+    };
+
+    lines.push(`${INDENT.repeat(depth)}- [${todo.completed ? 'x' : ' '}] ${todo.content} <!-- mira:todo ${JSON.stringify(metadata)} -->`);
+    lines.push(...(todo.notes || []));
+    lines.push(...serializeTodos(todo.children || [], depth + 1));
+  }
+
+  return lines;
+}
+
+/**
+ * Create a new todo with a fresh id
+ */
+export function createTodo(content: string, options: { owner?: string; linkedArtifact?: string } = {}): Todo {
+  return {
+    id: generateTodoId(),
+    content,
+    completed: false,
+    createdAt: new Date(),
+    owner: options.owner,
+    linkedArtifact: options.linkedArtifact,
+    children: []
+  };
+}
+
+/**
+ * Find a todo anywhere in the tree
+ */
+export function findTodo(todos: Todo[], todoId: string): Todo | undefined {
+  for (const todo of todos) {
+    if (todo.id === todoId) {
+      return todo;
+    }
+    const child = findTodo(todo.children || [], todoId);
+    if (child) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Remove a todo (and its sub-todos) from the tree
+ */
+export function removeTodo(todos: Todo[], todoId: string): Todo[] {
+  return todos
+    .filter(todo => todo.id !== todoId)
+    .map(todo => ({ ...todo, children: removeTodo(todo.children || [], todoId) }));
+}
+
+/**
+ * Set the completion of a todo and all of its sub-todos, then roll up to parents
+ */
+export function setTodoCompleted(todos: Todo[], todoId: string, completed: boolean): boolean {
+  const todo = findTodo(todos, todoId);
+  if (!todo) {
+    return false;
+  }
+
+  applyCompletion(todo, completed);
+  rollUpCompletion(todos);
+  return true;
+}
+
+/**
+ * Derive the completion of every parent from its children
+ */
+export function rollUpCompletion(todos: Todo[]): void {
+  for (const todo of todos) {
+    const children = todo.children || [];
+    if (children.length === 0) {
+      continue;
+    }
+
+    rollUpCompletion(children);
+    const completed = children.every(child => child.completed);
+    if (completed !== todo.completed) {
+      todo.completed = completed;
+      todo.completedAt = completed ? latestCompletion(children) : undefined;
+    }
+  }
+}
+
+function applyCompletion(todo: Todo, completed: boolean): void {
+  if (todo.completed !== completed) {
+    todo.completed = completed;
+    todo.completedAt = completed ? new Date() : undefined;
+  }
+  for (const child of todo.children || []) {
+    applyCompletion(child, completed);
+  }
+}
+
+function latestCompletion(todos: Todo[]): Date {
+  const times = todos
+    .map(todo => todo.completedAt ? todo.completedAt.getTime() : 0)
+    .filter(time => time > 0);
+  return times.length > 0 ? new Date(Math.max(...times)) : new Date();
+}
+
+function splitMetadata(rest: string): { content: string; metadata: TodoMetadata } {
+  const match = rest.match(METADATA_PATTERN);
+  if (!match) {
+    return { content: rest.trim(), metadata: {} };
+  }
+
+  try {
+    return {
+      content: rest.substring(0, match.index).trim(),
+      metadata: JSON.parse(match[1])
+    };
+  } catch {
+    console.warn('[Todos] Ignoring malformed todo metadata:', match[1]);
+    return { content: rest.substring(0, match.index).trim(), metadata: {} };
+  }
+}
+
+function generateTodoId(): string {
+  return `todo-${Date.now().toString(36)}${crypto.randomBytes(2).toString('hex')}`;
+}
+
+/**
+ * Deterministic id for a hand-written todo that has no metadata yet,
+ * so it keeps the same id until the file is saved with metadata.
+ */
+function contentId(parentId: string, content: string): string {
+  const hash = crypto.createHash('sha1').update(`${parentId}\n${content}`).digest('hex');
+  return `todo-${hash.substring(0, 10)}`;
+}
+
+function uniqueId(id: string, usedIds: Set<string>): string {
+  let candidate = id;
+  let suffix = 2;
+  while (usedIds.has(candidate)) {
+    candidate = `${id}-${suffix++}`;
+  }
+  usedIds.add(candidate);
+  return candidate;
+}
+
+function parseDate(value?: string): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}